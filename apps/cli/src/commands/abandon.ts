@@ -0,0 +1,33 @@
+import { Command } from "commander";
+import ora from "ora";
+import chalk from "chalk";
+import { RunStore } from "@automate-pr/core";
+import { createWorkflow } from "../setup";
+
+export const abandonCommand = new Command("abandon")
+  .description("Give up on a failed run and delete the branch it pushed")
+  .argument("<run-id>", "Run id printed when the run failed")
+  .option("--env <path>", "Path to .env file")
+  .action(async (runId: string, options) => {
+    const spinner = ora();
+    try {
+      spinner.start(`Loading run ${runId}`);
+      const run = await new RunStore().load(runId);
+      const { workflow } = await createWorkflow({ env: options.env });
+
+      spinner.text = `Abandoning "${run.state.prompt}"`;
+      const deleted = await workflow.abandon(run);
+
+      spinner.succeed(chalk.green(`Run ${runId} abandoned`));
+      if (deleted && run.state.preview) {
+        console.log(`\n${chalk.blue("Deleted branch:")} ${run.state.preview.branch}`);
+      }
+    } catch (error) {
+      spinner.fail(chalk.red(`Failed to abandon run ${runId}`));
+      console.error(chalk.red(`\nError: ${error.message}`));
+      if (error.cause) {
+        console.error(chalk.dim(`\nCause: ${error.cause.message}`));
+      }
+      process.exit(1);
+    }
+  });
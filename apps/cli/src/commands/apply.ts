@@ -0,0 +1,60 @@
+import { Command } from "commander";
+import ora from "ora";
+import chalk from "chalk";
+import { readPlanFile, Run, RunStore, WorkflowOptions } from "@automate-pr/core";
+import { formatFinding, formatPreview } from "../preview";
+import { formatPullRequests, formatRunHint } from "../runs";
+import { createWorkflow } from "../setup";
+
+export const applyCommand = new Command("apply")
+  .description("Open the pull request described by a saved plan file")
+  .argument("<file>", "Plan file written by `pr-automator plan`")
+  .option("-d, --dry-run", "Preview the result of applying the plan without creating the PR", false)
+  .option("--skip-safety", "Skip safety checks", false)
+  .option("--conflict-markers", "Commit merge conflicts with markers to a draft PR instead of failing", false)
+  .option("--verify", "Build, type-check, lint and test the changes in a temporary worktree first")
+  .option("--env <path>", "Path to .env file")
+  .action(async (file: string, options) => {
+    const spinner = ora();
+    let run: Run | undefined;
+    try {
+      spinner.start(`Reading ${file}`);
+      const plan = await readPlanFile(file);
+      const { workflow } = await createWorkflow({ env: options.env });
+
+      const workflowOptions: WorkflowOptions = {
+        skipSafetyChecks: options.skipSafety,
+        onConflict: options.conflictMarkers ? "markers" : "fail",
+        verify: options.verify
+      };
+
+      if (options.dryRun) {
+        spinner.text = `Previewing "${plan.plan.pr.title}"`;
+        const preview = await workflow.previewPlan(plan, workflowOptions);
+        spinner.succeed(chalk.green("Dry run complete, nothing was pushed"));
+        console.log(formatPreview(preview));
+        return;
+      }
+
+      spinner.text = `Applying "${plan.plan.pr.title}"`;
+      run = await new RunStore().start(plan.prompt);
+      await workflow.applyPlan(plan, { ...workflowOptions, run });
+
+      spinner.succeed(chalk.green(plan.pullRequest ? "PR updated successfully!" : "PR created successfully!"));
+      console.log(formatPullRequests(run));
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to apply plan"));
+      console.error(chalk.red(`\nError: ${error.message}`));
+      if (error.cause) {
+        console.error(chalk.dim(`\nCause: ${error.cause.message}`));
+      }
+      const findings = error.cause?.metadata?.results;
+      if (Array.isArray(findings)) {
+        findings.forEach(finding => console.error(formatFinding(finding)));
+      }
+      if (run?.state.status === "failed") {
+        console.error(formatRunHint(run));
+      }
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,107 @@
+import path from "path";
+import { Command, InvalidArgumentError } from "commander";
+import ora from "ora";
+import chalk from "chalk";
+import {
+  BatchReport,
+  DEFAULT_BATCH_REPORT,
+  loadConfig,
+  readBatchManifest,
+  runBatch,
+  TokenManager,
+  writeBatchReport
+} from "@automate-pr/core";
+import { createWorkflow } from "../setup";
+
+export const batchCommand = new Command("batch")
+  .description("Run prompts against many repositories listed in a YAML manifest")
+  .argument("<manifest>", "Manifest listing repository checkouts and prompts")
+  .option("-c, --concurrency <n>", "Repositories to work on at once (overrides the manifest)", parseConcurrency)
+  .option("--report <path>", "Where to write the JSON report", DEFAULT_BATCH_REPORT)
+  .option("--skip-safety", "Skip safety checks", false)
+  .option("--env <path>", "Path to .env file")
+  .action(async (manifestPath: string, options) => {
+    const spinner = ora();
+    try {
+      spinner.start(`Reading ${manifestPath}`);
+      const manifest = await readBatchManifest(manifestPath);
+      const config = loadConfig({ envPath: options.env });
+
+      // One token manager paces GitHub requests across every repository
+      const tokens = await TokenManager.fromToken(config.GITHUB_TOKEN);
+
+      let finished = 0;
+      const progress = () => `Running ${manifest.jobs.length} jobs (${finished} finished)`;
+      spinner.text = progress();
+      const report = await runBatch(manifest, async (job, run) => {
+        const { workflow, usage } = await createWorkflow({
+          env: options.env,
+          repoPath: job.repoPath,
+          schedule: request => tokens.executeRequest(request)
+        });
+        return workflow.createPR(job.prompt, { run, usage, skipSafetyChecks: options.skipSafety });
+      }, {
+        concurrency: options.concurrency,
+        onResult: () => {
+          finished++;
+          spinner.text = progress();
+        }
+      });
+      await writeBatchReport(options.report, report);
+
+      const failed = report.results.filter(result => result.status === "failed").length;
+      if (failed > 0) {
+        spinner.warn(chalk.yellow(`${failed} of ${report.results.length} jobs failed`));
+      } else {
+        spinner.succeed(chalk.green(`All ${report.results.length} jobs succeeded`));
+      }
+      console.log(formatBatchSummary(report));
+      console.log(`\n${chalk.blue("Report written to")} ${options.report}`);
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      spinner.fail(chalk.red("Batch failed"));
+      console.error(chalk.red(`\nError: ${error.message}`));
+      if (error.cause) {
+        console.error(chalk.dim(`\nCause: ${error.cause.message}`));
+      }
+      process.exit(1);
+    }
+  });
+
+function parseConcurrency(value: string): number {
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return concurrency;
+}
+
+/**
+ * One row per job: repository, prompt, status, and the PR URL or why
+ * the job failed
+ */
+function formatBatchSummary({ results }: BatchReport): string {
+  const rows = results.map(result => ({
+    repo: path.relative(process.cwd(), result.repoPath) || ".",
+    prompt: result.prompt.length > 40 ? `${result.prompt.slice(0, 39)}…` : result.prompt,
+    result
+  }));
+  const repoWidth = Math.max("Repository".length, ...rows.map(row => row.repo.length));
+  const promptWidth = Math.max("Prompt".length, ...rows.map(row => row.prompt.length));
+
+  return [
+    "",
+    chalk.bold(`${"Repository".padEnd(repoWidth)}  ${"Prompt".padEnd(promptWidth)}  ${"Status".padEnd(9)}  PR / reason`),
+    ...rows.map(({ repo, prompt, result }) => {
+      const status = result.status === "succeeded"
+        ? chalk.green(result.status.padEnd(9))
+        : chalk.red(result.status.padEnd(9));
+      const outcome = result.url ?? chalk.dim(
+        `${result.error}${result.runId ? ` (run ${result.runId})` : ""}`
+      );
+      return `${repo.padEnd(repoWidth)}  ${prompt.padEnd(promptWidth)}  ${status}  ${outcome}`;
+    })
+  ].join("\n");
+}
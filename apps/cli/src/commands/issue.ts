@@ -0,0 +1,78 @@
+import { Command } from "commander";
+import ora from "ora";
+import chalk from "chalk";
+import { Run, RunStore, WorkflowOptions } from "@automate-pr/core";
+import { DEFAULT_CASSETTE_DIR, UsageTracker } from "@automate-pr/ai";
+import { formatPreview } from "../preview";
+import { createProgressRenderer } from "../progress";
+import { formatPullRequests, formatRunHint } from "../runs";
+import { createWorkflow } from "../setup";
+import { formatUsageSummary } from "../usage";
+
+export const issueCommand = new Command("issue")
+  .description("Open a PR resolving a GitHub issue, prompted by its title, body and comments")
+  .argument("<number>", "Issue number")
+  .option("-d, --dry-run", "Preview changes without creating PR", false)
+  .option("--skip-safety", "Skip safety checks", false)
+  .option("--no-stream", "Wait for the full plan instead of streaming progress")
+  .option("--no-reasoning", "Hide the model's reasoning trace while streaming")
+  .option("--conflict-markers", "Commit merge conflicts with markers to a draft PR instead of failing", false)
+  .option("--verify", "Build, type-check, lint and test the changes in a temporary worktree first")
+  .option("--record [dir]", `Record AI responses to a cassette directory (default: ${DEFAULT_CASSETTE_DIR})`)
+  .option("--replay [dir]", "Replay recorded AI responses instead of calling the model")
+  .option("--env <path>", "Path to .env file")
+  .action(async (value: string, options) => {
+    const spinner = ora();
+    let usage: UsageTracker | undefined;
+    let run: Run | undefined;
+    try {
+      if (!/^#?\d+$/.test(value)) {
+        throw new Error(`Expected an issue number, got '${value}'`);
+      }
+      const number = Number(value.replace("#", ""));
+
+      spinner.start("Loading configuration");
+      const setup = await createWorkflow(options);
+      usage = setup.usage;
+
+      spinner.text = `Resolving issue #${number}`;
+      const workflowOptions: WorkflowOptions = {
+        skipSafetyChecks: options.skipSafety,
+        onProgress: options.stream
+          ? createProgressRenderer(spinner, { showReasoning: options.reasoning })
+          : undefined,
+        usage,
+        onConflict: options.conflictMarkers ? "markers" : "fail",
+        issue: number,
+        verify: options.verify
+      };
+
+      if (options.dryRun) {
+        const preview = await setup.workflow.previewPR(`Resolve issue #${number}`, workflowOptions);
+        spinner.succeed(chalk.green("Dry run complete, nothing was pushed"));
+        console.log(formatPreview(preview));
+        console.log(formatUsageSummary(usage.summary()));
+        return;
+      }
+
+      run = await new RunStore().start(`Resolve issue #${number}`, { issue: number });
+      await setup.workflow.createPRFromIssue(number, { ...workflowOptions, run });
+
+      spinner.succeed(chalk.green("PR created successfully!"));
+      console.log(formatPullRequests(run));
+      console.log(formatUsageSummary(usage.summary()));
+    } catch (error) {
+      spinner.fail(chalk.red(`Failed to create a PR for issue ${value}`));
+      console.error(chalk.red(`\nError: ${error.message}`));
+      if (error.cause) {
+        console.error(chalk.dim(`\nCause: ${error.cause.message}`));
+      }
+      if (run?.state.status === "failed") {
+        console.error(formatRunHint(run));
+      }
+      if (usage && usage.summary().calls > 0) {
+        console.error(`\n${formatUsageSummary(usage.summary())}`);
+      }
+      process.exit(1);
+    }
+  });
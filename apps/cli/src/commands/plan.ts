@@ -0,0 +1,70 @@
+import { Command } from "commander";
+import ora from "ora";
+import chalk from "chalk";
+import { writePlanFile } from "@automate-pr/core";
+import { DEFAULT_CASSETTE_DIR, UsageTracker } from "@automate-pr/ai";
+import { formatFinding } from "../preview";
+import { createProgressRenderer } from "../progress";
+import { createRefineLoop } from "../refine";
+import { createWorkflow, parsePullRequestTarget } from "../setup";
+import { formatUsageSummary } from "../usage";
+
+export const planCommand = new Command("plan")
+  .description("Generate a plan and save it for review without pushing anything")
+  .argument("<prompt>", "Natural language description of the changes")
+  .option("-o, --output <path>", "Plan file to write", "plan.json")
+  .option("--skip-safety", "Skip safety checks", false)
+  .option("-u, --update <pr>", "Plan changes to an existing PR, by number or head branch", parsePullRequestTarget)
+  .option("--no-stream", "Wait for the full plan instead of streaming progress")
+  .option("--no-reasoning", "Hide the model's reasoning trace while streaming")
+  .option("-r, --refine", "Review and refine the plan interactively before saving it", false)
+  .option("--record [dir]", `Record AI responses to a cassette directory (default: ${DEFAULT_CASSETTE_DIR})`)
+  .option("--replay [dir]", "Replay recorded AI responses instead of calling the model")
+  .option("--env <path>", "Path to .env file")
+  .action(async (prompt: string, options) => {
+    const spinner = ora();
+    let usage: UsageTracker | undefined;
+    try {
+      if (options.refine && !process.stdin.isTTY) {
+        throw new Error("--refine needs an interactive terminal");
+      }
+
+      spinner.start("Loading configuration");
+      const setup = await createWorkflow(options);
+      usage = setup.usage;
+
+      spinner.text = "Generating plan";
+      const plan = await setup.workflow.planPR(prompt, {
+        skipSafetyChecks: options.skipSafety,
+        onProgress: options.stream
+          ? createProgressRenderer(spinner, { showReasoning: options.reasoning })
+          : undefined,
+        usage,
+        refine: options.refine ? createRefineLoop(spinner) : undefined,
+        pullRequest: options.update
+      });
+      await writePlanFile(options.output, plan);
+
+      spinner.succeed(chalk.green(`Plan written to ${options.output}`));
+      console.log(chalk.bold(`\n${plan.plan.pr.title}`));
+      for (const file of plan.plan.files) {
+        console.log(`  ${chalk.cyan(file.action.padEnd(6))} ${file.path}`);
+      }
+      if (plan.findings.length > 0) {
+        console.log(chalk.bold("\nValidation findings:"));
+        plan.findings.forEach(finding => console.log(formatFinding(finding)));
+      }
+      console.log(`\nApply it with ${chalk.cyan(`pr-automator apply ${options.output}`)}`);
+      console.log(formatUsageSummary(usage.summary()));
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to generate plan"));
+      console.error(chalk.red(`\nError: ${error.message}`));
+      if (error.cause) {
+        console.error(chalk.dim(`\nCause: ${error.cause.message}`));
+      }
+      if (usage && usage.summary().calls > 0) {
+        console.error(`\n${formatUsageSummary(usage.summary())}`);
+      }
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,43 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { loadRepoContext } from "@automate-pr/core";
+import {
+  buildPromptVariables,
+  ContextBuilder,
+  DEFAULT_PROMPT_DIR,
+  getContextBudget,
+  PromptTemplates
+} from "@automate-pr/ai";
+
+export const promptCommand = new Command("prompt")
+  .description("Render the effective prompt for this repository, including local overrides")
+  .argument("[request]", "Change request to render the prompt for", "<your request>")
+  .option("-t, --template <name>", "Template to render", "system")
+  .option("--dir <path>", "Template override directory", DEFAULT_PROMPT_DIR)
+  .option("--model <name>", "Model whose context window sizes the repository context", "deepseek-r1")
+  .option("--context-tokens <n>", "Token budget for repository context", value => parseInt(value, 10))
+  .option("-l, --list", "List templates and where each one comes from", false)
+  .action(async (request: string, options) => {
+    try {
+      const root = process.cwd();
+      const templates = await PromptTemplates.load(root, options.dir);
+
+      if (options.list) {
+        for (const name of templates.names) {
+          const origin = templates.origin(name)!;
+          console.log(`${name.padEnd(20)} ${origin === "default" ? chalk.dim(origin) : chalk.cyan(origin)}`);
+        }
+        return;
+      }
+
+      const context = await loadRepoContext(root);
+      const repository = new ContextBuilder({
+        maxTokens: options.contextTokens ?? getContextBudget(options.model)
+      }).build(context, request);
+
+      console.log(templates.render(options.template, buildPromptVariables(context, request, repository.text)));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(1);
+    }
+  });
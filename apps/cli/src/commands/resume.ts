@@ -0,0 +1,61 @@
+import { Command } from "commander";
+import ora from "ora";
+import chalk from "chalk";
+import { Run, RunStore } from "@automate-pr/core";
+import { UsageTracker } from "@automate-pr/ai";
+import { formatFinding } from "../preview";
+import { formatPullRequests, formatRunHint } from "../runs";
+import { createWorkflow } from "../setup";
+import { formatUsageSummary } from "../usage";
+
+export const resumeCommand = new Command("resume")
+  .description("Continue a failed run from its last finished stage")
+  .argument("<run-id>", "Run id printed when the run failed")
+  .option("--skip-safety", "Skip safety checks", false)
+  .option("--conflict-markers", "Commit merge conflicts with markers to a draft PR instead of failing", false)
+  .option("--env <path>", "Path to .env file")
+  .action(async (runId: string, options) => {
+    const spinner = ora();
+    let usage: UsageTracker | undefined;
+    let run: Run | undefined;
+    try {
+      spinner.start(`Loading run ${runId}`);
+      run = await new RunStore().load(runId);
+      const setup = await createWorkflow({ env: options.env });
+      usage = setup.usage;
+
+      spinner.text = run.state.stage
+        ? `Resuming "${run.state.prompt}" after ${run.state.stage}`
+        : `Restarting "${run.state.prompt}"`;
+      await setup.workflow.resume(run, {
+        skipSafetyChecks: options.skipSafety,
+        usage,
+        onConflict: options.conflictMarkers ? "markers" : "fail"
+      });
+
+      spinner.succeed(chalk.green(run.state.preview?.pullRequestNumber ? "PR updated successfully!" : "PR created successfully!"));
+      console.log(formatPullRequests(run));
+      if (usage.summary().calls > 0) {
+        console.log(formatUsageSummary(usage.summary()));
+      }
+    } catch (error) {
+      spinner.fail(chalk.red(`Failed to resume run ${runId}`));
+      console.error(chalk.red(`\nError: ${error.message}`));
+      if (error.cause) {
+        console.error(chalk.dim(`\nCause: ${error.cause.message}`));
+      }
+      const findings = error.cause?.metadata?.results;
+      if (Array.isArray(findings)) {
+        for (const finding of findings) {
+          console.error(formatFinding(finding));
+        }
+      }
+      if (run?.state.status === "failed") {
+        console.error(formatRunHint(run));
+      }
+      if (usage && usage.summary().calls > 0) {
+        console.error(`\n${formatUsageSummary(usage.summary())}`);
+      }
+      process.exit(1);
+    }
+  });
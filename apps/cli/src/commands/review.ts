@@ -0,0 +1,71 @@
+import { Command } from "commander";
+import ora from "ora";
+import chalk from "chalk";
+import { Run, RunStore } from "@automate-pr/core";
+import { DEFAULT_CASSETTE_DIR, UsageTracker } from "@automate-pr/ai";
+import { formatFinding } from "../preview";
+import { createProgressRenderer } from "../progress";
+import { formatRunHint } from "../runs";
+import { createWorkflow, parsePullRequestTarget } from "../setup";
+import { formatUsageSummary } from "../usage";
+
+export const reviewCommand = new Command("review")
+  .description("Push a commit addressing a PR's unresolved review comments and reply to each thread")
+  .argument("<pr>", "Pull request number")
+  .option("--skip-safety", "Skip safety checks", false)
+  .option("--no-stream", "Wait for the full plan instead of streaming progress")
+  .option("--no-reasoning", "Hide the model's reasoning trace while streaming")
+  .option("--conflict-markers", "Commit merge conflicts with markers instead of failing", false)
+  .option("--record [dir]", `Record AI responses to a cassette directory (default: ${DEFAULT_CASSETTE_DIR})`)
+  .option("--replay [dir]", "Replay recorded AI responses instead of calling the model")
+  .option("--env <path>", "Path to .env file")
+  .action(async (pr: string, options) => {
+    const spinner = ora();
+    let usage: UsageTracker | undefined;
+    let run: Run | undefined;
+    try {
+      const number = parsePullRequestTarget(pr);
+      if (typeof number !== "number") {
+        throw new Error(`Expected a pull request number, got '${pr}'`);
+      }
+
+      spinner.start("Loading configuration");
+      const setup = await createWorkflow(options);
+      usage = setup.usage;
+
+      spinner.text = `Addressing review comments on #${number}`;
+      run = await new RunStore().start(`Address the review comments on pull request #${number}`);
+      const prUrl = await setup.workflow.addressReviewComments(number, {
+        skipSafetyChecks: options.skipSafety,
+        onProgress: options.stream
+          ? createProgressRenderer(spinner, { showReasoning: options.reasoning })
+          : undefined,
+        usage,
+        onConflict: options.conflictMarkers ? "markers" : "fail",
+        run
+      });
+
+      const replies = run.state.preview?.plan.replies ?? [];
+      spinner.succeed(chalk.green(`Review comments addressed, ${replies.length} ${replies.length === 1 ? "reply" : "replies"} posted`));
+      console.log(`\n${chalk.blue("PR URL:")} ${prUrl}`);
+      const unanswered = run.state.preview?.findings.filter(finding => finding.rule === "review-reply") ?? [];
+      if (unanswered.length > 0) {
+        console.log("");
+        unanswered.forEach(finding => console.log(formatFinding(finding)));
+      }
+      console.log(formatUsageSummary(usage.summary()));
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to address review comments"));
+      console.error(chalk.red(`\nError: ${error.message}`));
+      if (error.cause) {
+        console.error(chalk.dim(`\nCause: ${error.cause.message}`));
+      }
+      if (run?.state.status === "failed") {
+        console.error(formatRunHint(run));
+      }
+      if (usage && usage.summary().calls > 0) {
+        console.error(`\n${formatUsageSummary(usage.summary())}`);
+      }
+      process.exit(1);
+    }
+  });
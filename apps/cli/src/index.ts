@@ -1,11 +1,24 @@
 #!/usr/bin/env node
+import { writeFile } from "fs/promises";
 import { Command } from "commander";
 import ora from "ora";
 import chalk from "chalk";
-import { loadConfig } from "@automate-pr/core";
-import { DeepSeekClient } from "@automate-pr/ai";
-import { GitHubRepoManager } from "@automate-pr/github";
-import { PRWorkflow } from "@automate-pr/core";
+import { Run, RunStore, WorkflowOptions } from "@automate-pr/core";
+import { DEFAULT_CASSETTE_DIR, UsageTracker } from "@automate-pr/ai";
+import { abandonCommand } from "./commands/abandon";
+import { applyCommand } from "./commands/apply";
+import { batchCommand } from "./commands/batch";
+import { issueCommand } from "./commands/issue";
+import { planCommand } from "./commands/plan";
+import { promptCommand } from "./commands/prompt";
+import { resumeCommand } from "./commands/resume";
+import { reviewCommand } from "./commands/review";
+import { formatPreview } from "./preview";
+import { createProgressRenderer } from "./progress";
+import { createRefineLoop } from "./refine";
+import { formatPullRequests, formatRunHint } from "./runs";
+import { createWorkflow, parsePullRequestTarget } from "./setup";
+import { formatUsageSummary } from "./usage";
 
 const program = new Command();
 
@@ -15,36 +28,66 @@ program
   .version("0.1.0")
   .argument("<prompt>", "Natural language description of the changes")
   .option("-d, --dry-run", "Preview changes without creating PR", false)
+  .option("--export <path>", "With --dry-run, also write the preview as JSON")
   .option("--skip-safety", "Skip safety checks", false)
+  .option("--no-stream", "Wait for the full plan instead of streaming progress")
+  .option("--no-reasoning", "Hide the model's reasoning trace while streaming")
+  .option("-r, --refine", "Review and refine the plan interactively before creating the PR", false)
+  .option("--conflict-markers", "Commit merge conflicts with markers to a draft PR instead of failing", false)
+  .option("--verify", "Build, type-check, lint and test the changes in a temporary worktree first")
+  .option("-u, --update <pr>", "Push to an existing PR, by number or head branch, instead of opening a new one", parsePullRequestTarget)
+  .option("--record [dir]", `Record AI responses to a cassette directory (default: ${DEFAULT_CASSETTE_DIR})`)
+  .option("--replay [dir]", "Replay recorded AI responses instead of calling the model")
   .option("--env <path>", "Path to .env file")
   .action(async (prompt: string, options) => {
     const spinner = ora();
+    let usage: UsageTracker | undefined;
+    let run: Run | undefined;
     try {
-      spinner.start("Loading configuration");
-      const config = loadConfig({ envPath: options.env });
-
-      // Initialize clients
-      const ai = new DeepSeekClient(config.DEEPSEEK_API_KEY);
-      const github = new GitHubRepoManager(
-        config.GITHUB_TOKEN,
-        // TODO: Get these from git config or CLI args
-        "owner",
-        "repo",
-        { baseUrl: config.GITHUB_API_URL }
-      );
+      if (options.export && !options.dryRun) {
+        throw new Error("--export can only be used with --dry-run");
+      }
+      if (options.refine && !process.stdin.isTTY) {
+        throw new Error("--refine needs an interactive terminal");
+      }
 
-      // Create workflow
-      const workflow = new PRWorkflow(config, github, ai);
+      spinner.start("Loading configuration");
+      const setup = await createWorkflow(options);
+      const workflow = setup.workflow;
+      usage = setup.usage;
 
       // Execute workflow
       spinner.text = "Generating PR";
-      const prUrl = await workflow.createPR(prompt, {
-        dryRun: options.dryRun,
-        skipSafetyChecks: options.skipSafety
-      });
+      const workflowOptions: WorkflowOptions = {
+        skipSafetyChecks: options.skipSafety,
+        onProgress: options.stream
+          ? createProgressRenderer(spinner, { showReasoning: options.reasoning })
+          : undefined,
+        usage,
+        refine: options.refine ? createRefineLoop(spinner) : undefined,
+        onConflict: options.conflictMarkers ? "markers" : "fail",
+        pullRequest: options.update,
+        verify: options.verify
+      };
 
-      spinner.succeed(chalk.green("PR created successfully!"));
-      console.log(`\n${chalk.blue("PR URL:")} ${prUrl}`);
+      if (options.dryRun) {
+        const preview = await workflow.previewPR(prompt, workflowOptions);
+        spinner.succeed(chalk.green("Dry run complete, nothing was pushed"));
+        console.log(formatPreview(preview));
+        if (options.export) {
+          await writeFile(options.export, `${JSON.stringify(preview, null, 2)}\n`);
+          console.log(`\n${chalk.blue("Preview written to")} ${options.export}`);
+        }
+        console.log(formatUsageSummary(usage.summary()));
+        return;
+      }
+
+      run = await new RunStore().start(prompt, { pullRequest: options.update });
+      await workflow.createPR(prompt, { ...workflowOptions, run });
+
+      spinner.succeed(chalk.green(options.update ? "PR updated successfully!" : "PR created successfully!"));
+      console.log(formatPullRequests(run));
+      console.log(formatUsageSummary(usage.summary()));
 
     } catch (error) {
       spinner.fail(chalk.red("Failed to create PR"));
@@ -53,9 +96,25 @@ program
       if (error.cause) {
         console.error(chalk.dim(`\nCause: ${error.cause.message}`));
       }
+      if (run?.state.status === "failed") {
+        console.error(formatRunHint(run));
+      }
+      // Failed runs still cost money
+      if (usage && usage.summary().calls > 0) {
+        console.error(`\n${formatUsageSummary(usage.summary())}`);
+      }
 
       process.exit(1);
     }
   });
 
+program.addCommand(planCommand);
+program.addCommand(applyCommand);
+program.addCommand(promptCommand);
+program.addCommand(reviewCommand);
+program.addCommand(issueCommand);
+program.addCommand(resumeCommand);
+program.addCommand(abandonCommand);
+program.addCommand(batchCommand);
+
 program.parse(); 
\ No newline at end of file
@@ -0,0 +1,100 @@
+import chalk from "chalk";
+import { FilePreview, PRPreview, ValidationResult, VerificationReport } from "@automate-pr/core";
+
+// Lines of a failed check's output shown in a preview
+const FAILURE_OUTPUT_LINES = 20;
+
+/**
+ * Render a dry-run preview: the PR that would be opened, a colored diff
+ * per file, and validation findings
+ */
+export function formatPreview(preview: PRPreview): string {
+  const { pullRequest, stats } = preview;
+  const list = (items: string[] = []) => items.length > 0 ? items.join(", ") : chalk.dim("none");
+
+  const lines = [
+    chalk.bold(`\n${pullRequest.title}`) + (pullRequest.isDraft ? chalk.dim(" (draft)") : ""),
+    `${chalk.blue("Branch:")}    ${pullRequest.headBranch} → ${pullRequest.baseBranch}`,
+    `${chalk.blue("Reviewers:")} ${list(pullRequest.reviewers)}`,
+    `${chalk.blue("Labels:")}    ${list(pullRequest.labels)}`,
+    ...formatStack(preview),
+    "",
+    chalk.dim(pullRequest.description),
+    ""
+  ];
+
+  for (const file of preview.files) {
+    lines.push(formatFileHeader(file), ...formatDiff(file.diff), "");
+  }
+
+  if (preview.findings.length > 0) {
+    lines.push(chalk.bold("Validation findings:"), ...preview.findings.map(formatFinding), "");
+  }
+
+  if (preview.verification) {
+    lines.push(...formatVerification(preview.verification), "");
+  }
+
+  lines.push(
+    `${stats.files} ${stats.files === 1 ? "file" : "files"} changed, ` +
+      `${chalk.green(`${stats.additions} insertions(+)`)}, ${chalk.red(`${stats.deletions} deletions(-)`)}`
+  );
+  return lines.join("\n");
+}
+
+function formatStack({ stack }: PRPreview): string[] {
+  if (!stack) {
+    return [];
+  }
+  return [
+    `${chalk.blue("Stack:")}     split into ${stack.length} pull requests, each based on the one before`,
+    ...stack.map(({ pullRequest, files }, index) =>
+      `  ${index + 1}. ${pullRequest.headBranch} → ${pullRequest.baseBranch}` +
+        chalk.dim(` (${files.length} ${files.length === 1 ? "file" : "files"})`))
+  ];
+}
+
+function formatVerification(report: VerificationReport): string[] {
+  const rounds = report.fixRounds > 0 ? chalk.dim(` after ${report.fixRounds} fix ${report.fixRounds === 1 ? "round" : "rounds"}`) : "";
+  return [
+    chalk.bold("Verification:") + (report.passed ? chalk.green(" passed") : chalk.red(" failed")) + rounds,
+    ...report.results.flatMap(result => [
+      `  ${result.passed ? chalk.green("✓") : chalk.red("✗")} ${result.step.padEnd(9)} ${result.command}` +
+        chalk.dim(` ${(result.durationMs / 1000).toFixed(1)}s${result.timedOut ? ", timed out" : ""}`),
+      ...(result.passed
+        ? []
+        : result.output.trimEnd().split("\n").slice(-FAILURE_OUTPUT_LINES).map(line => chalk.dim(`      ${line}`)))
+    ])
+  ];
+}
+
+function formatFileHeader(file: FilePreview): string {
+  const path = file.oldPath ? `${file.oldPath} → ${file.path}` : file.path;
+  const mode = file.mode ? chalk.dim(` (mode ${file.mode})`) : "";
+  return chalk.bold(`${chalk.cyan(file.action.padEnd(6))} ${path}`) + mode +
+    chalk.dim(` +${file.additions} -${file.deletions}`);
+}
+
+function formatDiff(diff: string): string[] {
+  return diff.split("\n")
+    // File headers are already summarised above the diff
+    .filter(line => !/^(diff --git|--- |\+\+\+ |rename (from|to) )/.test(line))
+    .map(line => {
+      if (line.startsWith("@@")) return chalk.cyan(line);
+      if (line.startsWith("+")) return chalk.green(line);
+      if (line.startsWith("-")) return chalk.red(line);
+      return chalk.dim(line);
+    });
+}
+
+/**
+ * Render a validation finding on one line
+ */
+export function formatFinding(finding: ValidationResult): string {
+  const colors = { error: chalk.red, warning: chalk.yellow, info: chalk.blue };
+  const location = finding.file
+    ? chalk.dim(` ${finding.file}${finding.line ? `:${finding.line}` : ""}`)
+    : "";
+  return `  ${colors[finding.level](finding.level.padEnd(7))} ${finding.message}${location}` +
+    (finding.suggestion ? chalk.dim(` — ${finding.suggestion}`) : "");
+}
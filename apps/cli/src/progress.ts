@@ -0,0 +1,60 @@
+import chalk from "chalk";
+import { Ora } from "ora";
+import { PlanProgressEvent } from "@automate-pr/ai";
+
+export interface ProgressOptions {
+  showReasoning?: boolean;
+}
+
+/**
+ * Render streamed plan generation: the model's reasoning trace followed by
+ * each file as soon as the model has finished describing it
+ */
+export function createProgressRenderer(
+  spinner: Ora,
+  options: ProgressOptions = {}
+): (event: PlanProgressEvent) => void {
+  let phase: "waiting" | "reasoning" | "content" = "waiting";
+
+  return (event) => {
+    switch (event.type) {
+      case "reasoning":
+        if (!options.showReasoning) return;
+        if (phase !== "reasoning") {
+          spinner.stop();
+          console.log(chalk.bold("\nReasoning:"));
+          phase = "reasoning";
+        }
+        process.stdout.write(chalk.dim(event.delta));
+        break;
+
+      case "content":
+        if (phase !== "content") {
+          if (phase === "reasoning") process.stdout.write("\n\n");
+          spinner.start("Writing plan");
+          phase = "content";
+        }
+        break;
+
+      case "file":
+        spinner.stopAndPersist({
+          symbol: chalk.green("✔"),
+          text: `${chalk.cyan(event.file.action.padEnd(6))} ${event.file.path}`
+        });
+        spinner.start("Writing plan");
+        break;
+
+      case "repair":
+        spinner.stopAndPersist({
+          symbol: chalk.yellow("↻"),
+          text: `Response did not match the plan format, asking for a fix (round ${event.round})`
+        });
+        for (const issue of event.issues) {
+          console.log(chalk.dim(`    ${issue}`));
+        }
+        phase = "waiting";
+        spinner.start("Waiting for corrected plan");
+        break;
+    }
+  };
+}
@@ -0,0 +1,65 @@
+import chalk from "chalk";
+import { Ora } from "ora";
+import { createInterface } from "readline/promises";
+import { isEmptyPlanDiff, PlanDiff, PlanSession } from "@automate-pr/ai";
+
+const ABORT_ANSWERS = ["q", "quit", "abort"];
+
+/**
+ * Interactive review loop: show the plan, then send follow-up instructions
+ * until the user accepts it with an empty answer
+ */
+export function createRefineLoop(spinner: Ora): (session: PlanSession) => Promise<void> {
+  return async (session) => {
+    const readline = createInterface({ input: process.stdin, output: process.stdout });
+
+    try {
+      spinner.stop();
+      console.log(formatPlan(session.plan));
+
+      for (;;) {
+        const answer = (await readline.question(
+          chalk.bold("\nRefine the plan (Enter to accept, q to abort): ")
+        )).trim();
+
+        if (!answer) break;
+        if (ABORT_ANSWERS.includes(answer.toLowerCase())) {
+          throw new Error("Plan rejected");
+        }
+
+        spinner.start("Refining plan");
+        const diff = await session.refine(answer);
+        spinner.stop();
+
+        console.log(formatPlanDiff(diff));
+      }
+
+      spinner.start("Creating PR");
+    } finally {
+      readline.close();
+    }
+  };
+}
+
+function formatPlan(plan: PlanSession["plan"]): string {
+  return [
+    "",
+    chalk.bold(plan.pr.title),
+    ...plan.files.map(file => `  ${chalk.cyan(file.action.padEnd(6))} ${file.path}`)
+  ].join("\n");
+}
+
+function formatPlanDiff(diff: PlanDiff): string {
+  if (isEmptyPlanDiff(diff)) {
+    return chalk.dim("\nThe plan did not change");
+  }
+
+  return [
+    "",
+    ...(diff.title ? [`${chalk.yellow("~")} title: ${diff.title.from} → ${diff.title.to}`] : []),
+    ...(diff.descriptionChanged ? [`${chalk.yellow("~")} description updated`] : []),
+    ...diff.added.map(file => `${chalk.green("+")} ${file.action.padEnd(6)} ${file.path}`),
+    ...diff.removed.map(file => `${chalk.red("-")} ${file.action.padEnd(6)} ${file.path}`),
+    ...diff.changed.map(file => `${chalk.yellow("~")} ${file.action.padEnd(6)} ${file.path}`)
+  ].join("\n");
+}
@@ -0,0 +1,35 @@
+import chalk from "chalk";
+import { Run } from "@automate-pr/core";
+
+/**
+ * Tell the user how to continue or roll back a run that stopped partway
+ */
+export function formatRunHint(run: Run): string {
+  const { stage } = run.state;
+  const lines = [
+    `\n${chalk.blue("Run:")} ${run.id}${stage ? chalk.dim(` (last finished stage: ${stage})`) : ""}`,
+    `Continue it with ${chalk.cyan(`pr-automator resume ${run.id}`)}`
+  ];
+  if (run.completed("prepare")) {
+    lines.push(`or delete its branch with ${chalk.cyan(`pr-automator abandon ${run.id}`)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * The pull request a finished run opened, or every PR of a stack in
+ * merge order
+ */
+export function formatPullRequests(run: Run): string {
+  const { preview, prUrl, stack } = run.state;
+  if (!preview?.stack || !stack) {
+    return `\n${chalk.blue("PR URL:")} ${prUrl}`;
+  }
+
+  const { owner, repo } = preview.repository;
+  return [
+    `\n${chalk.blue("Stacked PRs:")} ${chalk.dim("(merge in order)")}`,
+    ...stack.pullRequests.map((number, index) =>
+      `  ${index + 1}. https://github.com/${owner}/${repo}/pull/${number}`)
+  ].join("\n");
+}
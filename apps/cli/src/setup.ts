@@ -0,0 +1,87 @@
+import { GitOperations, loadConfig, loadPlugins, PRWorkflow } from "@automate-pr/core";
+import {
+  AIClient,
+  AIProvider,
+  createProvider,
+  getContextBudget,
+  PromptTemplates,
+  RecordingProvider,
+  UsageTracker
+} from "@automate-pr/ai";
+import { GitHubRepoManager, RequestScheduler } from "@automate-pr/github";
+
+export interface SetupOptions {
+  /** Path to .env file */
+  env?: string;
+  /** Cassette directory to record to, or true for the default */
+  record?: string | boolean;
+  /** Cassette directory to replay from, or true for the default */
+  replay?: string | boolean;
+  /**
+   * Repository to work on
+   * @default process.cwd()
+   */
+  repoPath?: string;
+  /** Send GitHub requests through this, e.g. a shared `TokenManager` */
+  schedule?: RequestScheduler;
+}
+
+/**
+ * Build the workflow and its clients from configuration, for the
+ * repository in the current directory unless `repoPath` is given
+ */
+export async function createWorkflow(
+  options: SetupOptions
+): Promise<{ workflow: PRWorkflow; usage: UsageTracker }> {
+  if (options.record && options.replay) {
+    throw new Error("--record and --replay cannot be used together");
+  }
+
+  const config = loadConfig({ envPath: options.env });
+  const root = options.repoPath ?? process.cwd();
+
+  // Initialize clients
+  let provider: AIProvider = createProvider({
+    provider: config.AI_PROVIDER,
+    model: config.AI_MODEL,
+    baseUrl: config.AI_BASE_URL,
+    apiKey: config.AI_API_KEY || config.DEEPSEEK_API_KEY,
+    temperature: config.AI_TEMPERATURE,
+    maxTokens: config.AI_MAX_TOKENS
+  });
+  if (options.record || options.replay) {
+    const dir = options.record ?? options.replay;
+    provider = new RecordingProvider(provider, {
+      mode: options.record ? "record" : "replay",
+      cassetteDir: typeof dir === "string" ? dir : undefined
+    });
+  }
+  const ai = new AIClient(provider, {
+    contextTokens: config.AI_CONTEXT_TOKENS ??
+      getContextBudget(provider.model, config.AI_MAX_TOKENS),
+    prompts: await PromptTemplates.load(root)
+  });
+  const { owner, repo } = await new GitOperations(root).getRepoContext();
+  const github = new GitHubRepoManager(
+    config.GITHUB_TOKEN,
+    owner,
+    repo,
+    { baseUrl: config.GITHUB_API_URL, schedule: options.schedule }
+  );
+
+  return {
+    workflow: new PRWorkflow(config, github, ai, root, await loadPlugins(root)),
+    usage: new UsageTracker({
+      prices: config.AI_PRICES,
+      budgetUsd: config.AI_BUDGET_USD
+    })
+  };
+}
+
+/**
+ * Parse `--update`: a pull request number, optionally prefixed with `#`,
+ * or the name of its head branch
+ */
+export function parsePullRequestTarget(value: string): number | string {
+  return /^#?\d+$/.test(value) ? Number(value.replace("#", "")) : value;
+}
@@ -0,0 +1,29 @@
+import chalk from "chalk";
+import { UsageSummary } from "@automate-pr/ai";
+
+/**
+ * Format token usage and cost for the end-of-run summary
+ */
+export function formatUsageSummary(summary: UsageSummary): string {
+  const tokens = [
+    `${summary.promptTokens.toLocaleString()} prompt`,
+    `${summary.completionTokens.toLocaleString()} completion`,
+    ...(summary.reasoningTokens > 0
+      ? [`${summary.reasoningTokens.toLocaleString()} reasoning`]
+      : [])
+  ].join(", ");
+  const calls = `${summary.calls} ${summary.calls === 1 ? "call" : "calls"}`;
+
+  const lines = [
+    `${chalk.blue("AI usage:")} ${calls}, ${tokens} tokens` +
+      (summary.estimated ? chalk.dim(" (partly estimated)") : ""),
+    `${chalk.blue("AI cost:")} $${summary.costUsd.toFixed(4)}`
+  ];
+  if (summary.unpriced.length > 0) {
+    lines.push(chalk.yellow(
+      `No price configured for ${summary.unpriced.join(", ")}; set AI_PRICES to include it`
+    ));
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AIClient, AIClientError, PlanProgressEvent } from "../client";
+import { AIProvider } from "../providers";
+import { UsageTracker } from "../usage";
+import { createTestContext } from "../../../../vitest.setup";
+
+const context = createTestContext();
+
+function completion(content: string) {
+  return { content };
+}
+
+function fenced(data: unknown): string {
+  return "```json\n" + JSON.stringify(data, null, 2) + "\n```";
+}
+
+const validResponse = {
+  files: [
+    {
+      path: "src/index.ts",
+      action: "modify",
+      diff: "@@ -1 +1 @@\n-old\n+new"
+    }
+  ],
+  pr: {
+    title: "update entry point",
+    body: "Replace the old export",
+    type: "refactor",
+    breaking: false
+  },
+  reviewers: [],
+  metadata: {
+    confidence: 0.9,
+    reasoning: "Straightforward rename",
+    suggestedLabels: ["refactor"],
+    estimatedComplexity: "low"
+  }
+};
+
+describe("AIClient", () => {
+  const complete = vi.fn();
+  const stream = vi.fn();
+  const provider: AIProvider = {
+    name: "deepseek",
+    model: "deepseek-r1",
+    maxTokens: 4000,
+    complete,
+    stream
+  };
+  let client: AIClient;
+
+  beforeEach(() => {
+    complete.mockReset();
+    stream.mockReset();
+    client = new AIClient(provider);
+  });
+
+  it("parses a valid completion into a plan", async () => {
+    complete.mockResolvedValueOnce(completion(fenced(validResponse)));
+
+    const plan = await client.generatePRPlan("Rename the export", context);
+
+    expect(plan.pr.title).toBe("refactor: update entry point");
+    expect(plan.files).toHaveLength(1);
+    expect(plan.repairAttempts).toBeUndefined();
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it("feeds validation errors back to the model", async () => {
+    const invalid = {
+      ...validResponse,
+      files: [{ path: "src/index.ts", action: "modify" }],
+      pr: { ...validResponse.pr, title: "x".repeat(100) }
+    };
+
+    complete
+      .mockResolvedValueOnce(completion(fenced(invalid)))
+      .mockResolvedValueOnce(completion(fenced(validResponse)));
+
+    const plan = await client.generatePRPlan("Rename the export", context);
+
+    expect(plan.repairAttempts).toEqual([
+      {
+        round: 0,
+        issues: ["`pr.title` exceeded 72 chars"],
+        response: fenced(invalid)
+      }
+    ]);
+
+    const messages = complete.mock.calls[1][0];
+    expect(messages).toHaveLength(4);
+    expect(messages[2]).toEqual({ role: "assistant", content: fenced(invalid) });
+    expect(messages[3].content).toContain("`pr.title` exceeded 72 chars");
+  });
+
+  it("reports missing fields required by the file action", async () => {
+    const incomplete = {
+      ...validResponse,
+      files: [{ path: "src/index.ts", action: "modify" }]
+    };
+
+    complete
+      .mockResolvedValueOnce(completion(fenced(incomplete)))
+      .mockResolvedValueOnce(completion(fenced(validResponse)));
+
+    const plan = await client.generatePRPlan("Rename the export", context);
+
+    expect(plan.repairAttempts?.[0].issues).toEqual([
+      "`files[0].diff` missing for modify of src/index.ts"
+    ]);
+  });
+
+  it("gives up after the configured number of repair rounds", async () => {
+    client = new AIClient(provider, { maxRepairRounds: 1 });
+    complete.mockResolvedValue(completion("no json here"));
+
+    const error = await client.generatePRPlan("Rename the export", context)
+      .catch(error => error);
+
+    expect(error).toBeInstanceOf(AIClientError);
+    expect(error.response.repairAttempts).toHaveLength(2);
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it("streams progress when a listener is provided", async () => {
+    const content = fenced(validResponse);
+    stream.mockImplementationOnce(async function* () {
+      yield { type: "reasoning", delta: "Looking at the entry point" };
+      for (let i = 0; i < content.length; i += 10) {
+        yield { type: "content", delta: content.slice(i, i + 10) };
+      }
+    });
+
+    const events: PlanProgressEvent[] = [];
+    const plan = await client.generatePRPlan("Rename the export", context, {
+      onProgress: event => events.push(event)
+    });
+
+    expect(plan.files).toHaveLength(1);
+    expect(complete).not.toHaveBeenCalled();
+    expect(events[0]).toEqual({ type: "reasoning", delta: "Looking at the entry point" });
+    expect(events.filter(event => event.type === "file")).toEqual([
+      { type: "file", file: { path: "src/index.ts", action: "modify" }, round: 0 }
+    ]);
+  });
+
+  it("accounts for usage across repair rounds", async () => {
+    const usage = { promptTokens: 1_000, completionTokens: 500, reasoningTokens: 200 };
+    complete
+      .mockResolvedValueOnce({ content: "no json here", usage })
+      .mockResolvedValueOnce({ content: fenced(validResponse), usage });
+
+    const tracker = new UsageTracker({
+      prices: { "deepseek/deepseek-r1": { input: 1, output: 2 } }
+    });
+    await client.generatePRPlan("Rename the export", context, { usage: tracker });
+
+    expect(tracker.summary()).toMatchObject({
+      calls: 2,
+      promptTokens: 2_000,
+      completionTokens: 1_000,
+      reasoningTokens: 400,
+      costUsd: 0.004,
+      estimated: false
+    });
+  });
+
+  it("records streamed usage and estimates it when missing", async () => {
+    const content = fenced(validResponse);
+    stream.mockImplementationOnce(async function* () {
+      yield { type: "content", delta: content };
+      yield { type: "usage", usage: { promptTokens: 800, completionTokens: 300, reasoningTokens: 0 } };
+    });
+
+    const tracker = new UsageTracker();
+    const events: PlanProgressEvent[] = [];
+    await client.generatePRPlan("Rename the export", context, {
+      onProgress: event => events.push(event),
+      usage: tracker
+    });
+
+    expect(events.some(event => (event.type as string) === "usage")).toBe(false);
+    expect(tracker.summary()).toMatchObject({ calls: 1, promptTokens: 800, completionTokens: 300 });
+
+    complete.mockResolvedValueOnce(completion(content));
+    await client.generatePRPlan("Rename the export", context, { usage: tracker });
+
+    expect(tracker.summary()).toMatchObject({ calls: 2, estimated: true });
+  });
+
+  it("stops before a call that would exceed the budget", async () => {
+    const tracker = new UsageTracker({
+      prices: { "deepseek/deepseek-r1": { input: 1_000_000, output: 0 } },
+      budgetUsd: 1
+    });
+
+    await expect(
+      client.generatePRPlan("Rename the export", context, { usage: tracker })
+    ).rejects.toThrow(/budget/);
+    expect(complete).not.toHaveBeenCalled();
+  });
+});
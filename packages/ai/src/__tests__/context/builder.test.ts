@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { ContextBuilder } from "../../context/builder";
+import { createTestContext } from "../../../../../vitest.setup";
+
+function file(path: string, content: string) {
+  return { path, content, size: content.length, type: "file" as const };
+}
+
+const largeModule = Array.from({ length: 40 }, (_, i) => [
+  `export function sessionHelper${i}(value: number) {`,
+  ...Array.from({ length: 8 }, (_, j) => `  const step${j} = value * ${j} + ${i};`),
+  `  return value;`,
+  `}`
+].join("\n")).join("\n\n");
+
+const context = createTestContext({
+  root: "/test/repo",
+  framework: "express",
+  testFramework: "vitest",
+  dependencies: {
+    production: { express: "^4.18.0" },
+    development: { vitest: "^1.3.1" }
+  },
+  files: [
+    { path: "/test/repo/src", content: "", size: 0, type: "directory" as const },
+    file("/test/repo/src/session.ts", "export const SESSION_TIMEOUT = 5;"),
+    file("/test/repo/src/session-helpers.ts", largeModule),
+    file("/test/repo/docs/guide.md", "x".repeat(20_000))
+  ]
+});
+
+describe("ContextBuilder", () => {
+  it("renders project metadata and relevant files", () => {
+    const built = new ContextBuilder({ maxTokens: 50_000 })
+      .build(context, "Increase the session timeout");
+
+    expect(built.text).toContain("- Framework: express");
+    expect(built.text).toContain("- Production: express@^4.18.0");
+    expect(built.text).toContain("### src/session.ts\n```ts\nexport const SESSION_TIMEOUT = 5;\n```");
+    expect(built.included).toEqual([
+      "src/session.ts",
+      "src/session-helpers.ts",
+      "docs/guide.md"
+    ]);
+  });
+
+  it("cuts down files to stay within the budget", () => {
+    const built = new ContextBuilder({ maxTokens: 4_000 })
+      .build(context, "Increase the session timeout");
+
+    expect(built.included).toEqual(["src/session.ts"]);
+    expect(built.truncated).toEqual(["src/session-helpers.ts"]);
+    expect(built.omitted).toEqual(["docs/guide.md"]);
+    expect(built.text).toContain("more lines truncated");
+    expect(built.text).toContain("### Other files\n- docs/guide.md");
+    expect(built.tokens).toBeLessThanOrEqual(4_000);
+  });
+
+  it("falls back to declaration summaries when little room is left", () => {
+    const built = new ContextBuilder({ maxTokens: 3_000, maxFileShare: 0.2 })
+      .build(context, "Increase the session timeout");
+
+    expect(built.summarized).toEqual(["src/session-helpers.ts"]);
+    expect(built.text).toContain("### src/session-helpers.ts (summary)");
+  });
+
+  it("anchors review comments to the lines they are about", () => {
+    const built = new ContextBuilder({ maxTokens: 50_000 }).build({
+      ...context,
+      pullRequest: {
+        number: 12,
+        title: "feat: longer sessions",
+        description: "",
+        headBranch: "ai-pr/longer-sessions",
+        baseBranch: "main",
+        diff: "",
+        reviewThreads: [{
+          path: "src/session.ts",
+          line: 1,
+          resolved: false,
+          comments: [
+            { id: 501, author: "alice", body: "Document the unit" },
+            { id: 502, author: "bob", body: "Minutes, I think" }
+          ]
+        }]
+      }
+    }, "Address the review comments");
+
+    expect(built.text).toContain([
+      "#### Comment 501 on src/session.ts:1",
+      "@alice: Document the unit",
+      "@bob: Minutes, I think",
+      "```ts",
+      "   1> export const SESSION_TIMEOUT = 5;",
+      "```"
+    ].join("\n"));
+    expect(built.text).toContain("add a `replies` entry for each");
+  });
+
+  it("shows the pull request being updated", () => {
+    const diff = [
+      "diff --git a/src/session.ts b/src/session.ts",
+      "--- a/src/session.ts",
+      "+++ b/src/session.ts",
+      "@@ -1 +1 @@",
+      "-export const SESSION_TIMEOUT = 1;",
+      "+export const SESSION_TIMEOUT = 5;",
+      ...Array.from({ length: 2_000 }, (_, i) => `+// padding ${i}`)
+    ].join("\n");
+    const built = new ContextBuilder({ maxTokens: 10_000 }).build({
+      ...context,
+      pullRequest: {
+        number: 12,
+        title: "feat: longer sessions",
+        description: "Raises the session timeout",
+        headBranch: "ai-pr/longer-sessions",
+        baseBranch: "main",
+        diff
+      }
+    }, "Also document the timeout");
+
+    expect(built.text).toContain("## Pull request #12: feat: longer sessions");
+    expect(built.text).toContain("existing pull request on `ai-pr/longer-sessions`");
+    expect(built.text).toContain("+export const SESSION_TIMEOUT = 5;");
+    expect(built.text).toMatch(/\.\.\. \d+ more lines truncated\n```/);
+    expect(built.tokens).toBeLessThanOrEqual(10_000);
+  });
+
+  it("shows the issue being resolved and its discussion", () => {
+    const built = new ContextBuilder({ maxTokens: 10_000 }).build({
+      ...context,
+      issue: {
+        number: 123,
+        title: "Sessions expire too quickly",
+        body: "Users are logged out after five minutes.",
+        labels: ["bug"],
+        comments: [
+          { author: "octocat", body: "Thirty minutes would match the mobile app." },
+          { author: "hubot", body: "x".repeat(20_000) }
+        ]
+      }
+    }, "Resolve issue #123");
+
+    expect(built.text).toContain("## Issue #123: Sessions expire too quickly");
+    expect(built.text).toContain("Labels: bug");
+    expect(built.text).toContain("Users are logged out after five minutes.");
+    expect(built.text).toContain("### Comment by @octocat\nThirty minutes would match the mobile app.");
+    expect(built.text).toMatch(/\.\.\. \d+ more characters truncated/);
+    expect(built.tokens).toBeLessThanOrEqual(10_000);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { buildImportGraph, rankFiles, tokenize } from "../../context/ranking";
+
+const files = [
+  {
+    path: "src/auth/session.ts",
+    content: "import { hash } from \"../utils/crypto\";\nexport const SESSION_TIMEOUT = 5;"
+  },
+  {
+    path: "src/utils/crypto.ts",
+    content: "export function hash(value: string) { return value; }"
+  },
+  {
+    path: "src/routes/login.ts",
+    content: "import { SESSION_TIMEOUT } from \"../auth/session\";\nexport function login() {}"
+  },
+  {
+    path: "src/components/Button.tsx",
+    content: "export const Button = () => null;"
+  },
+  {
+    path: "README.md",
+    content: "# Demo"
+  }
+];
+
+describe("context ranking", () => {
+  it("splits identifiers into words", () => {
+    expect(tokenize("src/userProfile/session-store_v2.ts")).toEqual([
+      "src", "user", "profile", "session", "store", "v2", "ts"
+    ]);
+  });
+
+  it("resolves relative imports in both directions", () => {
+    const graph = buildImportGraph(files);
+
+    expect(Array.from(graph.get("src/auth/session.ts")!)).toEqual([
+      "src/utils/crypto.ts",
+      "src/routes/login.ts"
+    ]);
+    expect(graph.get("src/components/Button.tsx")!.size).toBe(0);
+  });
+
+  it("ranks path matches first, then their import neighbours", () => {
+    const ranked = rankFiles(files, "Increase the session timeout", {});
+
+    expect(ranked.map(file => file.path).slice(0, 3)).toEqual([
+      "src/auth/session.ts",
+      "src/utils/crypto.ts",
+      "src/routes/login.ts"
+    ]);
+    expect(ranked[1].reasons).toEqual(["imports or is imported by src/auth/session.ts"]);
+    expect(ranked[0].reasons).toContain("path matches \"session\"");
+    expect(ranked.find(file => file.path === "README.md")!.score).toBe(0);
+  });
+
+  it("boosts recently changed files", () => {
+    const ranked = rankFiles(files, "Tweak styles", {
+      recentChanges: ["src/components/Button.tsx"]
+    });
+
+    expect(ranked[0].path).toBe("src/components/Button.tsx");
+    expect(ranked[0].reasons).toEqual(["recently changed"]);
+  });
+});
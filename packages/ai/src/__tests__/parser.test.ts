@@ -59,6 +59,38 @@ describe("ResponseParser", () => {
       );
     });
 
+    it("reads the content of files a version 1 response creates through a diff", () => {
+      const response = {
+        files: [{
+          path: "src/format.ts",
+          mode: "create",
+          diff: "diff --git a/src/format.ts b/src/format.ts\nnew file mode 100644\n@@ -0,0 +1,2 @@\n+export const a = 1;\n+export const b = 2;"
+        }],
+        metadata: { title: "feat: add format helpers", description: "Adds them" }
+      };
+
+      const result = ResponseParser.parse("```json\n" + JSON.stringify(response) + "\n```");
+
+      expect(result.files).toEqual([{
+        path: "src/format.ts",
+        action: "create",
+        content: "export const a = 1;\nexport const b = 2;\n"
+      }]);
+    });
+
+    it("reports schema errors as AI errors", () => {
+      const error = (() => {
+        try {
+          ResponseParser.parse("```json\n{\"version\": 3}\n```");
+        } catch (caught) {
+          return caught;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(PRAutomatorError);
+      expect(error).toMatchObject({ type: "ai", message: expect.stringContaining("newer than the supported version") });
+    });
+
     it("validates against schema", () => {
       const response = `\`\`\`json
 {
@@ -153,6 +185,78 @@ describe("ResponseParser", () => {
     });
   });
 
+  describe("toPRPlan", () => {
+    const response = {
+      files: [
+        {
+          path: "src/auth/session.ts",
+          action: "modify" as const,
+          diff: "@@ -1 +1 @@\n-old\n+new"
+        }
+      ],
+      pr: {
+        title: "extend session timeout",
+        body: "Raise the idle timeout to 30 minutes",
+        type: "fix" as const,
+        scope: "auth",
+        breaking: false,
+        draft: false
+      },
+      reviewers: [
+        {
+          username: "security-lead",
+          reason: "Owns session handling",
+          expertise: ["auth"]
+        }
+      ],
+      metadata: {
+        confidence: 0.8,
+        reasoning: "Timeout constant was too aggressive",
+        suggestedLabels: ["bug", "auth"],
+        estimatedComplexity: "low" as const,
+        securityConsiderations: ["Longer sessions increase token exposure"]
+      }
+    };
+
+    it("maps the response onto a PR plan", () => {
+      const plan = ResponseParser.toPRPlan(response);
+
+      expect(plan.files).toEqual([
+        {
+          path: "src/auth/session.ts",
+          action: "modify",
+          diff: "@@ -1 +1 @@\n-old\n+new"
+        }
+      ]);
+      expect(plan.pr).toEqual({
+        title: "fix(auth): extend session timeout",
+        description: "Raise the idle timeout to 30 minutes",
+        reviewers: ["security-lead"],
+        labels: ["bug", "auth"],
+        draft: false
+      });
+      expect(plan.metadata).toEqual({
+        confidence: 0.8,
+        reasoning: "Timeout constant was too aggressive",
+        complexity: "low",
+        securityConsiderations: ["Longer sessions increase token exposure"],
+        testingRecommendations: [],
+        warnings: []
+      });
+    });
+
+    it("keeps titles that already follow conventional commits", () => {
+      const plan = ResponseParser.toPRPlan({
+        ...response,
+        pr: { ...response.pr, title: "fix: extend session timeout" },
+        reviewers: undefined
+      });
+
+      expect(plan.pr.title).toBe("fix: extend session timeout");
+      expect(plan.pr.reviewers).toEqual([]);
+    });
+  });
+
   describe("validateChanges", () => {
     const repoFiles = new Set([
       "src/components/Button.tsx",
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { AIClient } from "../../client";
+import {
+  buildPromptVariables,
+  DEFAULT_PROMPT_DIR,
+  parseTemplate,
+  PromptTemplates,
+  renderTemplate
+} from "../../prompts";
+import { createTestContext } from "../../../../../vitest.setup";
+
+const context = createTestContext();
+
+function render(source: string, variables: Record<string, unknown>) {
+  return renderTemplate(parseTemplate(source), variables, () => []);
+}
+
+describe("renderTemplate", () => {
+  it("substitutes variables and nested paths", () => {
+    const result = render("{{ framework }} with {{patterns.importStyle}} imports, {{list}}", {
+      framework: "react",
+      patterns: { importStyle: "esm" },
+      list: ["a", "b"]
+    });
+
+    expect(result).toEqual({ text: "react with esm imports, a, b", missing: [] });
+  });
+
+  it("renders sections only when their value is present", () => {
+    const source = "{{#testFramework}}Tests use {{testFramework}}.{{/testFramework}}" +
+      "{{^recentChanges}}No recent changes.{{/recentChanges}}";
+
+    expect(render(source, { testFramework: "vitest", recentChanges: ["a.ts"] }).text)
+      .toBe("Tests use vitest.");
+    expect(render(source, { recentChanges: [] }).text).toBe("No recent changes.");
+  });
+
+  it("reports variables that are not provided", () => {
+    expect(render("{{owner}}/{{repo}} {{#x}}{{y}}{{/x}}", { owner: "me" }).missing)
+      .toEqual(["repo"]);
+  });
+
+  it("rejects unbalanced sections", () => {
+    expect(() => parseTemplate("{{#a}}text", "broken")).toThrow(/Unclosed section \{\{#a\}\}/);
+    expect(() => parseTemplate("{{#a}}{{/b}}", "broken")).toThrow(/Unexpected \{\{\/b\}\}/);
+  });
+});
+
+describe("PromptTemplates", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "prompt-templates-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function override(name: string, source: string) {
+    await mkdir(path.join(root, DEFAULT_PROMPT_DIR), { recursive: true });
+    await writeFile(path.join(root, DEFAULT_PROMPT_DIR, `${name}.md`), source);
+  }
+
+  it("renders the built-in system prompt with the response format partial", () => {
+    const prompt = PromptTemplates.defaults()
+      .render("system", buildPromptVariables(context, "Add a feature", "## Project"));
+
+    expect(prompt).toContain("- Owner: test-owner");
+    expect(prompt).toContain("## Project");
+    expect(prompt).toContain("```json fenced code block");
+    expect(prompt).not.toContain("{{");
+  });
+
+  it("prefers repository overrides, including partials", async () => {
+    await override("system", "Use {{testFramework}} for tests.\n{{> conventions}}\n{{> response-format}}");
+    await override("conventions", "Never use default exports.");
+    await override("response-format", "Answer in JSON.");
+
+    const templates = await PromptTemplates.load(root);
+    const prompt = templates.render("system", buildPromptVariables(
+      { ...context, testFramework: "vitest" },
+      "x",
+      ""
+    ));
+
+    expect(prompt).toBe("Use vitest for tests.\nNever use default exports.\nAnswer in JSON.");
+    expect(templates.origin("system")).toBe(path.join(root, DEFAULT_PROMPT_DIR, "system.md"));
+    expect(templates.origin("response-format")).toBe(path.join(root, DEFAULT_PROMPT_DIR, "response-format.md"));
+  });
+
+  it("falls back to the defaults without an override directory", async () => {
+    const templates = await PromptTemplates.load(root);
+
+    expect(templates.names).toEqual(["system", "response-format"]);
+    expect(templates.origin("system")).toBe("default");
+  });
+
+  it("fails on unknown variables and partials", async () => {
+    await override("system", "{{owner}} {{reviewPolicy}}");
+    const templates = await PromptTemplates.load(root);
+
+    expect(() => templates.render("system", buildPromptVariables(context, "x", "")))
+      .toThrow('Prompt template "system" uses undefined variables: reviewPolicy');
+
+    await override("system", "{{> missing}}");
+    await expect(PromptTemplates.load(root)).rejects.toThrow(/unknown partial "missing"/);
+  });
+
+  it("rejects partials that include each other", async () => {
+    await override("a", "{{> b}}");
+    await override("b", "{{> a}}");
+
+    await expect(PromptTemplates.load(root)).rejects.toThrow(/include each other/);
+  });
+
+  it("is used by the AI client for the system prompt", async () => {
+    await override("system", "Custom rules for {{repo}}");
+    const complete = vi.fn().mockRejectedValue(new Error("stop"));
+    const client = new AIClient(
+      { name: "deepseek", model: "deepseek-r1", complete, stream: vi.fn() },
+      { prompts: await PromptTemplates.load(root) }
+    );
+
+    await client.generatePRPlan("Add a feature", context).catch(() => undefined);
+
+    expect(complete.mock.calls[0][0][0]).toEqual({ role: "system", content: "Custom rules for test-repo" });
+  });
+});
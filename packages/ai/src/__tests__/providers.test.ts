@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import fetch, { Response } from "node-fetch";
+import {
+  createProvider,
+  DeepSeekProvider,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  AIProviderError,
+  CompletionChunk
+} from "../providers";
+
+vi.mock("node-fetch", () => ({
+  default: vi.fn()
+}));
+
+function jsonResponse(data: unknown, status = 200) {
+  return {
+    ok: status < 400,
+    status,
+    json: async () => data,
+    text: async () => JSON.stringify(data)
+  } as unknown as Response;
+}
+
+const messages = [{ role: "user" as const, content: "Hello" }];
+
+describe("AI providers", () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+  });
+
+  describe("createProvider", () => {
+    it.each([
+      { provider: "deepseek" as const, expected: DeepSeekProvider },
+      { provider: "openai" as const, expected: OpenAICompatibleProvider },
+      { provider: "ollama" as const, expected: OllamaProvider }
+    ])("creates the $provider provider", ({ provider, expected }) => {
+      expect(createProvider({ provider })).toBeInstanceOf(expected);
+    });
+  });
+
+  describe("OpenAICompatibleProvider", () => {
+    it("posts to the configured chat completions endpoint", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({
+        choices: [{ message: { content: "Hi", reasoning_content: "Greeting" } }],
+        usage: {
+          prompt_tokens: 20,
+          completion_tokens: 15,
+          completion_tokens_details: { reasoning_tokens: 10 }
+        }
+      }));
+
+      const provider = new OpenAICompatibleProvider({
+        baseUrl: "https://llm.internal/v1/",
+        model: "qwen2.5-coder",
+        apiKey: "secret",
+        temperature: 0,
+        maxTokens: 1000
+      });
+      const result = await provider.complete(messages);
+
+      expect(result).toEqual({
+        content: "Hi",
+        reasoning: "Greeting",
+        usage: { promptTokens: 20, completionTokens: 15, reasoningTokens: 10 }
+      });
+
+      const [url, init] = vi.mocked(fetch).mock.calls[0];
+      expect(url).toBe("https://llm.internal/v1/chat/completions");
+      expect((init!.headers as Record<string, string>).Authorization).toBe("Bearer secret");
+      expect(JSON.parse(init!.body as string)).toMatchObject({
+        model: "qwen2.5-coder",
+        messages,
+        temperature: 0,
+        max_tokens: 1000
+      });
+    });
+
+    it("streams reasoning and content deltas", async () => {
+      const events = [
+        { choices: [{ delta: { reasoning_content: "Thinking" } }] },
+        { choices: [{ delta: { content: "Hel" } }] },
+        { choices: [{ delta: { content: "lo" } }] },
+        { choices: [], usage: { prompt_tokens: 12, completion_tokens: 8 } }
+      ];
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ...jsonResponse({}),
+        body: [
+          ...events.map(event => `data: ${JSON.stringify(event)}\n\n`),
+          "data: [DONE]\n\n"
+        ]
+      } as unknown as Response);
+
+      const provider = new DeepSeekProvider({ apiKey: "secret" });
+      const chunks: CompletionChunk[] = [];
+      for await (const chunk of provider.stream(messages)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([
+        { type: "reasoning", delta: "Thinking" },
+        { type: "content", delta: "Hel" },
+        { type: "content", delta: "lo" },
+        { type: "usage", usage: { promptTokens: 12, completionTokens: 8, reasoningTokens: 0 } }
+      ]);
+      expect(JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string)).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true }
+      });
+    });
+
+    it("does not retry authentication errors", async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse({ error: "bad key" }, 401));
+
+      const provider = new DeepSeekProvider({ apiKey: "invalid" });
+
+      await expect(provider.complete(messages)).rejects.toBeInstanceOf(AIProviderError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("OllamaProvider", () => {
+    it("uses the native chat API and separates reasoning", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({
+        message: { role: "assistant", content: "<think>\nPlan first\n</think>\n\nAnswer" },
+        prompt_eval_count: 30,
+        eval_count: 12
+      }));
+
+      const provider = new OllamaProvider({ model: "deepseek-r1:14b", maxTokens: 512 });
+      const result = await provider.complete(messages);
+
+      expect(result).toEqual({
+        content: "Answer",
+        reasoning: "Plan first",
+        usage: { promptTokens: 30, completionTokens: 12, reasoningTokens: 0 }
+      });
+
+      const [url, init] = vi.mocked(fetch).mock.calls[0];
+      expect(url).toBe("http://localhost:11434/api/chat");
+      expect(JSON.parse(init!.body as string)).toMatchObject({
+        model: "deepseek-r1:14b",
+        stream: false,
+        options: { num_predict: 512 }
+      });
+    });
+  });
+});
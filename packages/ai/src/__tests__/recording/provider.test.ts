@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { RecordingProvider } from "../../recording/provider";
+import { Cassette } from "../../recording/cassette";
+import { AIProvider, CompletionChunk } from "../../providers/types";
+
+const messages = [
+  { role: "system" as const, content: "context" },
+  { role: "user" as const, content: "Add a health check" }
+];
+
+async function collect(iterable: AsyncIterable<CompletionChunk>) {
+  const chunks: CompletionChunk[] = [];
+  for await (const chunk of iterable) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("RecordingProvider", () => {
+  let cassetteDir: string;
+  const complete = vi.fn();
+  const stream = vi.fn();
+  const live: AIProvider = { name: "deepseek", model: "deepseek-r1", maxTokens: 4000, complete, stream };
+
+  beforeEach(async () => {
+    cassetteDir = await mkdtemp(path.join(tmpdir(), "cassettes-"));
+    complete.mockReset();
+    stream.mockReset();
+  });
+
+  afterEach(async () => {
+    await rm(cassetteDir, { recursive: true, force: true });
+  });
+
+  it("replays recorded completions offline", async () => {
+    complete.mockResolvedValueOnce({ content: "plan", reasoning: "why" });
+
+    const recorder = new RecordingProvider(live, { mode: "record", cassetteDir });
+    await recorder.complete(messages);
+
+    expect(await readdir(cassetteDir)).toEqual([`${Cassette.keyFor(messages)}.json`]);
+
+    const player = new RecordingProvider(live, { mode: "replay", cassetteDir });
+    expect(await player.complete(messages)).toEqual({ content: "plan", reasoning: "why" });
+    expect(await collect(player.stream(messages))).toEqual([
+      { type: "reasoning", delta: "why" },
+      { type: "content", delta: "plan" }
+    ]);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it("records streamed deltas as they were received", async () => {
+    const chunks: CompletionChunk[] = [
+      { type: "reasoning", delta: "thinking" },
+      { type: "content", delta: "pl" },
+      { type: "content", delta: "an" }
+    ];
+    stream.mockImplementationOnce(async function* () {
+      yield* chunks;
+    });
+
+    const recorder = new RecordingProvider(live, { mode: "record", cassetteDir });
+    expect(await collect(recorder.stream(messages))).toEqual(chunks);
+
+    const player = new RecordingProvider(live, { mode: "replay", cassetteDir });
+    expect(await collect(player.stream(messages))).toEqual(chunks);
+    expect(await player.complete(messages)).toEqual({ content: "plan", reasoning: "thinking" });
+  });
+
+  it("fails on requests that were never recorded", async () => {
+    const player = new RecordingProvider(live, { mode: "replay", cassetteDir });
+
+    await expect(player.complete(messages)).rejects.toThrow(/No recorded response/);
+    expect(complete).not.toHaveBeenCalled();
+  });
+});
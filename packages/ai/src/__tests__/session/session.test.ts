@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PRPlan } from "@automate-pr/types";
+import { AIClient } from "../../client";
+import { AIProvider, ChatMessage } from "../../providers";
+import { diffPlans, isEmptyPlanDiff } from "../../session";
+import { createTestContext } from "../../../../../vitest.setup";
+
+const context = createTestContext();
+
+function fenced(data: unknown): string {
+  return "```json\n" + JSON.stringify(data) + "\n```";
+}
+
+function response(files: unknown[], title = "add health check") {
+  return {
+    files,
+    pr: { title, body: "Adds a health check", type: "feat", breaking: false },
+    reviewers: [],
+    metadata: {
+      confidence: 0.8,
+      reasoning: "Additive change",
+      suggestedLabels: [],
+      estimatedComplexity: "low"
+    }
+  };
+}
+
+type PlannedFile = PRPlan["files"][number];
+
+const handler: PlannedFile = { path: "src/health.ts", action: "create", content: "export const health = 1;\n" };
+const test: PlannedFile = { path: "src/health.test.ts", action: "create", content: "it.todo(\"health\");\n" };
+
+describe("PlanSession", () => {
+  const complete = vi.fn();
+  const provider: AIProvider = {
+    name: "deepseek",
+    model: "deepseek-r1",
+    maxTokens: 4000,
+    complete,
+    stream: vi.fn()
+  };
+  let client: AIClient;
+
+  beforeEach(() => {
+    complete.mockReset();
+    client = new AIClient(provider);
+  });
+
+  it("sends follow-up instructions as additional turns", async () => {
+    complete
+      .mockResolvedValueOnce({ content: fenced(response([handler])) })
+      .mockResolvedValueOnce({ content: fenced(response([handler, test])) });
+
+    const session = await client.startSession("Add a health check", context);
+    const diff = await session.refine("also add a test");
+
+    const messages: ChatMessage[] = complete.mock.calls[1][0];
+    expect(messages.map(message => message.role)).toEqual([
+      "system", "user", "assistant", "user"
+    ]);
+    expect(messages[0]).toEqual(complete.mock.calls[0][0][0]);
+    expect(messages[2].content).toBe(fenced(response([handler])));
+    expect(messages[3].content).toContain("also add a test");
+
+    expect(diff.added.map(file => file.path)).toEqual(["src/health.test.ts"]);
+    expect(session.plan.files).toHaveLength(2);
+    expect(session.iterations.map(iteration => iteration.instruction)).toEqual([
+      undefined,
+      "also add a test"
+    ]);
+  });
+
+  it("keeps repair rounds out of the conversation", async () => {
+    complete
+      .mockResolvedValueOnce({ content: fenced(response([handler])) })
+      .mockResolvedValueOnce({ content: "not json" })
+      .mockResolvedValueOnce({ content: fenced(response([test])) })
+      .mockResolvedValueOnce({ content: fenced(response([test])) });
+
+    const session = await client.startSession("Add a health check", context);
+    await session.refine("only the test please");
+    await session.refine("looks good, keep it");
+
+    expect(complete.mock.calls[3][0]).toHaveLength(6);
+    expect(complete.mock.calls[3][0][4].content).toBe(fenced(response([test])));
+  });
+
+  it("rejects empty instructions", async () => {
+    complete.mockResolvedValueOnce({ content: fenced(response([handler])) });
+
+    const session = await client.startSession("Add a health check", context);
+
+    await expect(session.refine("  ")).rejects.toThrow(/cannot be empty/);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("diffPlans", () => {
+  const plan = (files: PlannedFile[], title = "feat: add health check"): PRPlan => ({
+    files,
+    pr: { title, description: "Adds a health check", reviewers: [] }
+  });
+
+  it("reports added, removed and changed files", () => {
+    const diff = diffPlans(
+      plan([handler, { path: "src/config.ts", action: "modify", diff: "@@" }]),
+      plan([{ ...handler, content: "export const health = 2;\n" }, test], "feat: add health checks")
+    );
+
+    expect(diff.added.map(file => file.path)).toEqual(["src/health.test.ts"]);
+    expect(diff.removed.map(file => file.path)).toEqual(["src/config.ts"]);
+    expect(diff.changed.map(file => file.path)).toEqual(["src/health.ts"]);
+    expect(diff.title).toEqual({ from: "feat: add health check", to: "feat: add health checks" });
+    expect(isEmptyPlanDiff(diff)).toBe(false);
+  });
+
+  it("is empty for identical plans", () => {
+    expect(isEmptyPlanDiff(diffPlans(plan([handler]), plan([{ ...handler }])))).toBe(true);
+  });
+});
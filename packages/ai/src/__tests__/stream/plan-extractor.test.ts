@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { IncrementalPlanExtractor } from "../../stream/plan-extractor";
+import { FileChange } from "@automate-pr/schema";
+
+const response = `Here is the plan:
+
+\`\`\`json
+{
+  "pr": { "title": "add {braces} and \\"quotes\\"", "body": "files: [ignored]" },
+  "files": [
+    { "path": "src/a.ts", "action": "create", "content": "export const a = { b: [1] };" },
+    { "path": "src/b.ts", "action": "modify", "diff": "@@ -1 +1 @@\\n-}\\n+]" }
+  ],
+  "metadata": { "files": [{ "path": "not-a-file.ts" }] }
+}
+\`\`\``;
+
+function feed(extractor: IncrementalPlanExtractor, text: string, size: number) {
+  const files: FileChange[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    files.push(...extractor.push(text.slice(i, i + size)));
+  }
+  return files;
+}
+
+describe("IncrementalPlanExtractor", () => {
+  it.each([1, 3, 17, response.length])(
+    "surfaces each file once with %i character deltas",
+    (size) => {
+      const files = feed(new IncrementalPlanExtractor(), response, size);
+
+      expect(files.map(file => file.path)).toEqual(["src/a.ts", "src/b.ts"]);
+      expect(files[0].content).toBe("export const a = { b: [1] };");
+      expect(files[1].diff).toBe("@@ -1 +1 @@\n-}\n+]");
+    }
+  );
+
+  it("emits a file as soon as its object closes", () => {
+    const extractor = new IncrementalPlanExtractor();
+    const end = response.indexOf("},", response.indexOf("src/a.ts")) + 1;
+
+    expect(extractor.push(response.slice(0, end - 1))).toEqual([]);
+    expect(extractor.push(response.slice(end - 1, end))).toHaveLength(1);
+  });
+
+  it("ignores output without a JSON object", () => {
+    const extractor = new IncrementalPlanExtractor();
+
+    expect(extractor.push("Thinking about the change...")).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { readLines, readServerSentEvents } from "../../stream/readers";
+import { ThinkTagSplitter } from "../../stream/think-splitter";
+
+async function* chunks(...parts: string[]) {
+  const encoder = new TextEncoder();
+  for (const part of parts) {
+    yield encoder.encode(part);
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("stream readers", () => {
+  it("joins lines split across chunks", async () => {
+    const lines = await collect(readLines(chunks("fir", "st\r\nsec", "ond\nthird")));
+
+    expect(lines).toEqual(["first", "second", "third"]);
+  });
+
+  it("reads server-sent event payloads", async () => {
+    const events = await collect(readServerSentEvents(chunks(
+      ": keep-alive\n\n",
+      "data: {\"a\":1}\n",
+      "\ndata: line one\ndata: line two\n\n",
+      "data: [DONE]\n\n"
+    )));
+
+    expect(events).toEqual(["{\"a\":1}", "line one\nline two", "[DONE]"]);
+  });
+});
+
+describe("ThinkTagSplitter", () => {
+  it("separates reasoning split across deltas", () => {
+    const splitter = new ThinkTagSplitter();
+    const output = ["<thi", "nk>weigh", "ing options</th", "ink>\n\n```json", "{}"]
+      .flatMap(delta => splitter.push(delta))
+      .concat(splitter.flush());
+
+    const text = (type: string) =>
+      output.filter(chunk => chunk.type === type).map(chunk => chunk.delta).join("");
+
+    expect(text("reasoning")).toBe("weighing options");
+    expect(text("content")).toBe("```json{}");
+  });
+
+  it("passes through content without reasoning", () => {
+    const splitter = new ThinkTagSplitter();
+
+    expect(splitter.push("Hello")).toEqual([{ type: "content", delta: "Hello" }]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { PRAutomatorError } from "@automate-pr/core/error";
+import { calculateCost, DEFAULT_PRICES, resolvePrice, UsageTracker } from "../../usage";
+
+const usage = { promptTokens: 10_000, completionTokens: 2_000, reasoningTokens: 1_500 };
+
+describe("resolvePrice", () => {
+  it("prefers provider/model, then model, then provider wildcard", () => {
+    const prices = {
+      "openai/gpt-4o": { input: 1, output: 1 },
+      "gpt-4o": { input: 2, output: 2 },
+      "qwen2.5-coder": { input: 3, output: 3 },
+      "openai/*": { input: 4, output: 4 }
+    };
+
+    expect(resolvePrice(prices, "openai", "gpt-4o")?.input).toBe(1);
+    expect(resolvePrice(prices, "openai", "qwen2.5-coder")?.input).toBe(3);
+    expect(resolvePrice(prices, "openai", "llama3")?.input).toBe(4);
+    expect(resolvePrice(prices, "deepseek", "llama3")).toBeUndefined();
+  });
+
+  it("treats every local model as free", () => {
+    expect(resolvePrice(DEFAULT_PRICES, "ollama", "deepseek-r1:14b")).toEqual({ input: 0, output: 0 });
+  });
+});
+
+describe("calculateCost", () => {
+  it("charges per million tokens without double counting reasoning", () => {
+    expect(calculateCost(usage, { input: 1, output: 10 })).toBeCloseTo(0.03);
+  });
+});
+
+describe("UsageTracker", () => {
+  it("aggregates calls into a summary", () => {
+    const tracker = new UsageTracker({
+      prices: { "deepseek/deepseek-r1": { input: 1, output: 10 } }
+    });
+
+    tracker.record("deepseek", "deepseek-r1", usage);
+    tracker.record("deepseek", "deepseek-r1", usage, true);
+    tracker.record("openai", "unknown-model", usage);
+
+    expect(tracker.summary()).toEqual({
+      calls: 3,
+      promptTokens: 30_000,
+      completionTokens: 6_000,
+      reasoningTokens: 4_500,
+      costUsd: expect.closeTo(0.06),
+      unpriced: ["openai/unknown-model"],
+      estimated: true
+    });
+  });
+
+  it("refuses a call that would exceed the budget", () => {
+    const tracker = new UsageTracker({
+      prices: { "deepseek/deepseek-r1": { input: 1, output: 10 } },
+      budgetUsd: 0.05
+    });
+
+    tracker.record("deepseek", "deepseek-r1", usage);
+    expect(() => tracker.assertWithinBudget("deepseek", "deepseek-r1", 10_000, 500)).not.toThrow();
+
+    tracker.record("deepseek", "deepseek-r1", usage);
+    let error: unknown;
+    try {
+      tracker.assertWithinBudget("deepseek", "deepseek-r1", 10_000, 500);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PRAutomatorError);
+    expect((error as PRAutomatorError).metadata).toMatchObject({ code: "BUDGET_EXCEEDED", budgetUsd: 0.05 });
+  });
+
+  it("counts the whole output allowance against the budget", () => {
+    const tracker = new UsageTracker({
+      prices: { "deepseek/deepseek-r1": { input: 1, output: 10 } },
+      budgetUsd: 0.05
+    });
+
+    expect(() => tracker.assertWithinBudget("deepseek", "deepseek-r1", 10_000, 2_000)).not.toThrow();
+    expect(() => tracker.assertWithinBudget("deepseek", "deepseek-r1", 10_000, 5_000))
+      .toThrow("next call needs ~$0.0600");
+  });
+
+  it("refuses to enforce a budget on a model without a price", () => {
+    const tracker = new UsageTracker({ budgetUsd: 1 });
+
+    expect(() => tracker.assertWithinBudget("openai", "unknown-model", 10, 10))
+      .toThrow("An AI budget is set but openai/unknown-model has no known price; add one to AI_PRICES");
+  });
+
+  it("never blocks without a budget", () => {
+    const tracker = new UsageTracker();
+    tracker.record("openai", "gpt-4o", { promptTokens: 1e9, completionTokens: 1e9, reasoningTokens: 0 });
+
+    expect(() => tracker.assertWithinBudget("openai", "gpt-4o", 1e9, 1e9)).not.toThrow();
+  });
+});
@@ -1,147 +1,249 @@
-import { RepoContext, PRPlan } from "@automate-pr/types";
-import fetch from "node-fetch";
+import { RepoContext, PRPlan, RepairAttempt } from "@automate-pr/types";
+import { PRAutomatorError } from "@automate-pr/core/error";
+import { FileChange } from "@automate-pr/schema";
+import { ResponseParser } from "./parser";
+import { ContextBuilder, estimateTokens, getContextBudget } from "./context";
+import { AIProvider, ChatMessage, CompletionResult } from "./providers";
+import { buildPromptVariables, PromptTemplates } from "./prompts";
+import { GeneratedPlan, PlanSession } from "./session";
+import { IncrementalPlanExtractor } from "./stream/plan-extractor";
+import { UsageTracker } from "./usage";
 
-export interface DeepSeekOptions {
-  baseUrl?: string;
-  timeout?: number;
-  maxRetries?: number;
+export interface AIClientOptions {
+  /**
+   * How many times an invalid response is sent back to the model for repair
+   * @default 2
+   */
+  maxRepairRounds?: number;
+  /**
+   * Token budget for repository context in the system prompt
+   * @default derived from the provider's model
+   */
+  contextTokens?: number;
+  /**
+   * Prompt templates, e.g. with a repository's overrides loaded
+   * @default the package's built-in templates
+   */
+  prompts?: PromptTemplates;
 }
 
-export class DeepSeekError extends Error {
+export type PlanProgressEvent =
+  | { type: "reasoning"; delta: string }
+  | { type: "content"; delta: string }
+  | { type: "file"; file: Pick<FileChange, "path" | "action">; round: number }
+  | { type: "repair"; round: number; issues: string[] };
+
+export interface GenerateOptions {
+  /**
+   * Stream the completion and report progress while the plan is generated
+   */
+  onProgress?: (event: PlanProgressEvent) => void;
+  /**
+   * Accumulates token usage and enforces the spend limit across calls
+   */
+  usage?: UsageTracker;
+}
+
+export class AIClientError extends Error {
   constructor(
     message: string,
-    public readonly status?: number,
-    public readonly response?: any
+    public readonly response?: unknown
   ) {
     super(message);
-    this.name = "DeepSeekError";
+    this.name = "AIClientError";
   }
 }
 
-export class DeepSeekClient {
-  private readonly baseUrl: string;
-  private readonly timeout: number;
-  private readonly maxRetries: number;
+/**
+ * Generates PR plans from prompts using any configured AI provider
+ */
+export class AIClient {
+  private readonly maxRepairRounds: number;
+  private readonly contextBuilder: ContextBuilder;
+  private readonly prompts: PromptTemplates;
   
   constructor(
-    private readonly apiKey: string,
-    options: DeepSeekOptions = {}
+    private readonly provider: AIProvider,
+    options: AIClientOptions = {}
   ) {
-    this.baseUrl = options.baseUrl || "https://api.deepseek.com/v1";
-    this.timeout = options.timeout || 30000;
-    this.maxRetries = options.maxRetries || 3;
+    this.maxRepairRounds = options.maxRepairRounds ?? 2;
+    this.prompts = options.prompts ?? PromptTemplates.defaults();
+    this.contextBuilder = new ContextBuilder({
+      maxTokens: options.contextTokens ?? getContextBudget(provider.model)
+    });
   }
 
-  async generatePRPlan(prompt: string, context: RepoContext): Promise<PRPlan> {
-    let lastError: Error | undefined;
-    
-    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
-      try {
-        const response = await fetch(`${this.baseUrl}/chat/completions`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${this.apiKey}`,
-            "User-Agent": "AutomatePR/1.0"
-          },
-          body: JSON.stringify({
-            model: "deepseek-r1",
-            messages: [{
-              role: "system",
-              content: this.buildSystemPrompt(context)
-            }, {
-              role: "user",
-              content: prompt
-            }],
-            temperature: 0.2,
-            stream: false,
-            max_tokens: 4000
-          }),
-          timeout: this.timeout
-        });
+  async generatePRPlan(
+    prompt: string,
+    context: RepoContext,
+    options: GenerateOptions = {}
+  ): Promise<PRPlan> {
+    const { plan } = await this.generate(this.buildMessages(prompt, context), options);
+    return plan;
+  }
 
-        if (!response.ok) {
-          throw new DeepSeekError(
-            `API request failed with status ${response.status}`,
-            response.status,
-            await response.json()
-          );
-        }
+  /**
+   * Generate a plan that can be refined with follow-up instructions
+   */
+  async startSession(
+    prompt: string,
+    context: RepoContext,
+    options: GenerateOptions = {}
+  ): Promise<PlanSession> {
+    const messages = this.buildMessages(prompt, context);
+    const initial = await this.generate(messages, options);
+
+    return new PlanSession(
+      conversation => this.generate(conversation, options),
+      messages,
+      initial
+    );
+  }
 
-        const data = await response.json();
-        return this.parseResponse(data);
+  private buildMessages(prompt: string, context: RepoContext): ChatMessage[] {
+    return [{
+      role: "system",
+      content: this.buildSystemPrompt(context, prompt)
+    }, {
+      role: "user",
+      content: prompt
+    }];
+  }
+
+  /**
+   * Run a conversation until the model returns a valid plan, sending
+   * validation errors back for repair
+   */
+  private async generate(
+    conversation: ChatMessage[],
+    options: GenerateOptions
+  ): Promise<GeneratedPlan> {
+    const messages = [...conversation];
+    const repairAttempts: RepairAttempt[] = [];
+
+    for (let round = 0; ; round++) {
+      const { content } = await this.requestCompletion(messages, round, options);
+
+      try {
+        const plan = this.parseResponse(content);
+        return {
+          plan: repairAttempts.length > 0 ? { ...plan, repairAttempts } : plan,
+          content
+        };
       } catch (error) {
-        lastError = error as Error;
-        
-        // Don't retry on authentication errors
-        if (error instanceof DeepSeekError && error.status === 401) {
-          throw error;
-        }
+        const issues = ResponseParser.describeIssues(error);
+        repairAttempts.push({ round, issues, response: content });
 
-        // Last attempt failed
-        if (attempt === this.maxRetries) {
-          throw new DeepSeekError(
-            `Failed to generate PR plan after ${this.maxRetries} attempts: ${lastError.message}`,
-            undefined,
-            lastError
+        if (round >= this.maxRepairRounds) {
+          throw new AIClientError(
+            `Failed to parse ${this.provider.name} response after ${round} repair rounds: ${error instanceof Error ? error.message : String(error)}`,
+            { repairAttempts }
           );
         }
 
-        // Wait before retrying (exponential backoff)
-        await new Promise(resolve => 
-          setTimeout(resolve, Math.pow(2, attempt) * 1000)
-        );
+        options.onProgress?.({ type: "repair", round: round + 1, issues });
+
+        // Feed the invalid output and what was wrong with it back to the model
+        messages.push({
+          role: "assistant",
+          content
+        }, {
+          role: "user",
+          content: this.buildRepairPrompt(issues)
+        });
       }
     }
-
-    // TypeScript type guard
-    throw new Error("Unreachable");
   }
 
-  private buildSystemPrompt(context: RepoContext): string {
-    return `You are a senior software engineer tasked with generating a pull request plan.
-Repository Context:
-- Owner: ${context.owner}
-- Repository: ${context.repo}
-- Branch: ${context.branch}
-- Files: ${context.files.length} files provided
-
-Your task is to analyze the context and generate a detailed pull request plan that includes:
-1. List of files to modify or create
-2. Exact code changes in unified diff format
-3. PR title and description following conventional commits
-4. Suggested reviewers based on file ownership
-
-Please ensure:
-- All code changes are valid and follow the project's style
-- Changes are atomic and focused
-- Description explains the what and why
-- Security-sensitive code is highlighted for review`;
+  /**
+   * Run one model call, checking the budget first and recording its usage
+   */
+  private async requestCompletion(
+    messages: ChatMessage[],
+    round: number,
+    options: GenerateOptions
+  ): Promise<CompletionResult> {
+    const { name, model, maxTokens } = this.provider;
+    const promptTokens = estimateTokens(messages.map(message => message.content).join("\n"));
+    options.usage?.assertWithinBudget(name, model, promptTokens, maxTokens);
+
+    const result = options.onProgress
+      ? await this.streamCompletion(messages, round, options.onProgress)
+      : await this.provider.complete(messages);
+
+    if (options.usage) {
+      if (result.usage) {
+        options.usage.record(name, model, result.usage);
+      } else {
+        // Not every OpenAI-compatible server reports usage
+        const reasoningTokens = estimateTokens(result.reasoning ?? "");
+        options.usage.record(name, model, {
+          promptTokens,
+          completionTokens: estimateTokens(result.content) + reasoningTokens,
+          reasoningTokens
+        }, true);
+      }
+    }
+
+    return result;
   }
 
-  private parseResponse(data: any): PRPlan {
-    try {
-      const content = data.choices?.[0]?.message?.content;
-      if (!content) {
-        throw new Error("Invalid API response format");
+  /**
+   * Consume a streamed completion, reporting deltas and completed files
+   */
+  private async streamCompletion(
+    messages: ChatMessage[],
+    round: number,
+    onProgress: (event: PlanProgressEvent) => void
+  ): Promise<CompletionResult> {
+    const extractor = new IncrementalPlanExtractor();
+    const result: CompletionResult = { content: "" };
+
+    for await (const chunk of this.provider.stream(messages)) {
+      if (chunk.type === "usage") {
+        result.usage = chunk.usage;
+        continue;
       }
 
-      // TODO: Implement proper parsing of the AI response into PRPlan format
-      // For now, return a mock plan
-      return {
-        files: [],
-        pr: {
-          title: "chore: placeholder PR",
-          description: "TODO: Parse AI response",
-          reviewers: []
+      onProgress(chunk);
+
+      if (chunk.type === "reasoning") {
+        result.reasoning = (result.reasoning ?? "") + chunk.delta;
+      } else {
+        result.content += chunk.delta;
+        for (const file of extractor.push(chunk.delta)) {
+          onProgress({ type: "file", file: { path: file.path, action: file.action }, round });
         }
-      };
-    } catch (error) {
-      throw new DeepSeekError(
-        `Failed to parse API response: ${error.message}`,
-        undefined,
-        data
-      );
+      }
     }
+
+    return result;
   }
-} 
\ No newline at end of file
+
+  private buildSystemPrompt(context: RepoContext, prompt: string): string {
+    const repository = this.contextBuilder.build(context, prompt);
+
+    return this.prompts.render("system", buildPromptVariables(context, prompt, repository.text));
+  }
+
+  private buildRepairPrompt(issues: string[]): string {
+    return [
+      "Your previous response did not match the required JSON format:",
+      ...issues.map(issue => `- ${issue}`),
+      "",
+      "Return the corrected plan as a single JSON object inside a ```json fenced code block.",
+      "Keep everything that was already valid unchanged."
+    ].join("\n");
+  }
+
+  private parseResponse(content: string): PRPlan {
+    const response = ResponseParser.parse(content);
+
+    const issues = ResponseParser.findMissingFields(response.files);
+    if (issues.length > 0) {
+      throw new PRAutomatorError("ai", "Incomplete file changes in AI response", { issues });
+    }
+
+    return ResponseParser.toPRPlan(response);
+  }
+}
@@ -0,0 +1,313 @@
+import path from "path";
+import { RepoContext } from "@automate-pr/types";
+import { estimateTokens } from "./tokens";
+import { rankFiles, RankedFile } from "./ranking";
+
+export interface ContextBuilderOptions {
+  /** Token budget for the rendered context */
+  maxTokens: number;
+  /**
+   * Largest share of the budget a single file may take before it is cut down
+   * @default 0.4
+   */
+  maxFileShare?: number;
+}
+
+export interface BuiltContext {
+  text: string;
+  tokens: number;
+  /** Files rendered in full */
+  included: string[];
+  /** Files cut off after their first lines */
+  truncated: string[];
+  /** Files reduced to their top-level declarations */
+  summarized: string[];
+  /** Files only listed by path */
+  omitted: string[];
+}
+
+// Lines shown on each side of the line a review comment is anchored to
+const REVIEW_EXCERPT_LINES = 3;
+
+// Below this, a truncated file shows too little to be useful
+const MIN_TRUNCATED_TOKENS = 200;
+
+const DECLARATION_REGEX =
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var|def|struct|fn|pub\s+fn|func)\b/;
+
+/**
+ * Assembles the repository context sent to the model: project metadata and
+ * conventions followed by the most relevant files that fit the token budget
+ */
+export class ContextBuilder {
+  private readonly maxTokens: number;
+  private readonly maxFileShare: number;
+
+  constructor(options: ContextBuilderOptions) {
+    this.maxTokens = options.maxTokens;
+    this.maxFileShare = options.maxFileShare ?? 0.4;
+  }
+
+  build(context: RepoContext, prompt: string): BuiltContext {
+    const files = context.files
+      .filter(file => file.type === "file")
+      .map(file => ({
+        path: this.relativePath(context.root, file.path),
+        content: file.content
+      }));
+    const perFileLimit = Math.floor(this.maxTokens * this.maxFileShare);
+    const header = [
+      this.renderProject(context),
+      context.pullRequest && this.renderPullRequest(context.pullRequest, perFileLimit, files),
+      context.issue && this.renderIssue(context.issue, perFileLimit)
+    ].filter(Boolean).join("\n\n");
+    const ranked = rankFiles(files, prompt, { recentChanges: context.recentChanges });
+
+    const result: BuiltContext = {
+      text: "",
+      tokens: 0,
+      included: [],
+      truncated: [],
+      summarized: [],
+      omitted: []
+    };
+    const sections: string[] = [];
+    let remaining = this.maxTokens - estimateTokens(header);
+
+    for (const file of ranked) {
+      const limit = Math.min(remaining, perFileLimit);
+      const full = this.renderFile(file.path, file.content);
+      const fullTokens = estimateTokens(full);
+
+      if (fullTokens <= limit) {
+        sections.push(full);
+        result.included.push(file.path);
+        remaining -= fullTokens;
+        continue;
+      }
+
+      // Files with no signal are not worth cutting down to make them fit
+      if (file.score <= 0) {
+        result.omitted.push(file.path);
+        continue;
+      }
+
+      const summary = this.renderSummary(file);
+      const summaryTokens = estimateTokens(summary);
+
+      if (limit >= MIN_TRUNCATED_TOKENS && limit > summaryTokens * 2) {
+        const truncated = this.renderTruncated(file, limit);
+        sections.push(truncated);
+        result.truncated.push(file.path);
+        remaining -= estimateTokens(truncated);
+      } else if (summaryTokens <= limit) {
+        sections.push(summary);
+        result.summarized.push(file.path);
+        remaining -= summaryTokens;
+      } else {
+        result.omitted.push(file.path);
+      }
+    }
+
+    const listing = this.renderListing(result.omitted, remaining);
+
+    result.text = [header, ...sections, listing].filter(Boolean).join("\n\n");
+    result.tokens = estimateTokens(result.text);
+    return result;
+  }
+
+  private renderProject(context: RepoContext): string {
+    const { settings, patterns, dependencies } = context;
+    const yesNo = (value: boolean) => value ? "yes" : "no";
+    const listDependencies = (deps: Record<string, string> = {}) =>
+      Object.entries(deps).map(([name, version]) => `${name}@${version}`).join(", ") || "none";
+
+    const lines = [
+      "## Project",
+      `- Framework: ${context.framework}`,
+      `- Test framework: ${context.testFramework}`,
+      `- Package manager: ${context.packageManager}`,
+      `- TypeScript: ${yesNo(settings.hasTypeScript)}`,
+      `- Linter: ${yesNo(settings.hasLinter)}, formatter: ${yesNo(settings.hasFormatter)}`,
+      `- Monorepo: ${yesNo(settings.isMonorepo)}`,
+      `- Default branch: ${settings.defaultBranch}`,
+      "",
+      "## Conventions",
+      ...(patterns.importStyle ? [`- Import style: ${patterns.importStyle}`] : []),
+      ...(patterns.componentStyle ? [`- Component style: ${patterns.componentStyle}`] : []),
+      ...(patterns.testPattern ? [`- Test files: ${patterns.testPattern}`] : []),
+      "",
+      "## Dependencies",
+      `- Production: ${listDependencies(dependencies.production)}`,
+      `- Development: ${listDependencies(dependencies.development)}`,
+      ...(dependencies.peer ? [`- Peer: ${listDependencies(dependencies.peer)}`] : [])
+    ];
+
+    return lines.join("\n");
+  }
+
+  /**
+   * The pull request being updated, with its diff cut down to `maxTokens`,
+   * and any review comments to address
+   */
+  private renderPullRequest(
+    pr: NonNullable<RepoContext["pullRequest"]>,
+    maxTokens: number,
+    files: { path: string; content: string }[]
+  ): string {
+    const reviews = pr.reviewThreads?.length
+      ? this.renderReviewThreads(pr.reviewThreads, files)
+      : "";
+    const intro = [
+      `## Pull request #${pr.number}: ${pr.title}`,
+      `These changes are pushed to the existing pull request on \`${pr.headBranch}\`. ` +
+        "Files below show its current version. Return a title and description covering the whole pull request after your changes.",
+      "",
+      "### Description",
+      pr.description || "(none)",
+      "",
+      "### Changes so far"
+    ].join("\n");
+
+    const lines = pr.diff.trimEnd().split("\n");
+    let budget = (maxTokens - estimateTokens(intro) - estimateTokens(reviews) - 30) * 4;
+    let kept = 0;
+    while (kept < lines.length && budget - (lines[kept].length + 1) >= 0) {
+      budget -= lines[kept].length + 1;
+      kept++;
+    }
+
+    const diff = [
+      ...lines.slice(0, kept),
+      ...(kept < lines.length ? [`... ${lines.length - kept} more lines truncated`] : [])
+    ].join("\n");
+    return [`${intro}\n\`\`\`diff\n${diff}\n\`\`\``, reviews].filter(Boolean).join("\n\n");
+  }
+
+  /**
+   * The issue the changes resolve and its discussion, cut down to
+   * `maxTokens` from the end so the description and early comments stay
+   */
+  private renderIssue(issue: NonNullable<RepoContext["issue"]>, maxTokens: number): string {
+    const text = [
+      `## Issue #${issue.number}: ${issue.title}`,
+      "Make the changes this issue asks for. The pull request will close it.",
+      ...(issue.labels.length > 0 ? ["", `Labels: ${issue.labels.join(", ")}`] : []),
+      "",
+      "### Description",
+      issue.body || "(none)",
+      ...issue.comments.flatMap(comment => ["", `### Comment by @${comment.author}`, comment.body])
+    ].join("\n");
+
+    const limit = maxTokens * 4;
+    return text.length <= limit
+      ? text
+      : `${text.slice(0, limit)}\n... ${text.length - limit} more characters truncated`;
+  }
+
+  /**
+   * Review comments with the lines they are anchored to
+   */
+  private renderReviewThreads(
+    threads: NonNullable<NonNullable<RepoContext["pullRequest"]>["reviewThreads"]>,
+    files: { path: string; content: string }[]
+  ): string {
+    const sections = threads.map(thread => {
+      const [first] = thread.comments;
+      const location = thread.line ? `${thread.path}:${thread.line}` : thread.path;
+      const lines = [
+        `#### Comment ${first.id} on ${location}`,
+        ...thread.comments.map(comment => `@${comment.author}: ${comment.body}`)
+      ];
+
+      const content = files.find(file => file.path === thread.path)?.content;
+      if (content !== undefined && thread.line) {
+        const fileLines = content.split("\n");
+        const start = Math.max(0, thread.line - 1 - REVIEW_EXCERPT_LINES);
+        const end = Math.min(fileLines.length, thread.line + REVIEW_EXCERPT_LINES);
+        const excerpt = fileLines.slice(start, end)
+          .map((line, index) => `${String(start + index + 1).padStart(4)}${start + index + 1 === thread.line ? ">" : " "} ${line}`);
+        lines.push(`\`\`\`${path.extname(thread.path).slice(1)}`, ...excerpt, "\`\`\`");
+      }
+      return lines.join("\n");
+    });
+
+    return [
+      "### Review comments to address",
+      "Change the code to address every comment below and add a `replies` entry for each, saying briefly what changed.",
+      "",
+      sections.join("\n\n")
+    ].join("\n");
+  }
+
+  private renderFile(filePath: string, content: string, note?: string): string {
+    const language = path.extname(filePath).slice(1);
+    const title = note ? `### ${filePath} (${note})` : `### ${filePath}`;
+    return `${title}\n\`\`\`${language}\n${content}\n\`\`\``;
+  }
+
+  private renderTruncated(file: RankedFile, maxTokens: number): string {
+    const lines = file.content.split("\n");
+    // Leave room for the heading, fences and the truncation marker
+    let budget = (maxTokens - 30) * 4;
+    let kept = 0;
+
+    while (kept < lines.length && budget - (lines[kept].length + 1) >= 0) {
+      budget -= lines[kept].length + 1;
+      kept++;
+    }
+
+    const content = [
+      ...lines.slice(0, kept),
+      `// ... ${lines.length - kept} more lines truncated`
+    ].join("\n");
+
+    return this.renderFile(file.path, content, "truncated");
+  }
+
+  private renderSummary(file: RankedFile): string {
+    const lines = file.content.split("\n");
+    const declarations = lines
+      .filter(line => DECLARATION_REGEX.test(line))
+      .map(line => line.trimEnd());
+
+    const content = [
+      `// ${lines.length} lines, top-level declarations only`,
+      ...declarations
+    ].join("\n");
+
+    return this.renderFile(file.path, content, "summary");
+  }
+
+  private renderListing(paths: string[], maxTokens: number): string {
+    if (paths.length === 0) return "";
+
+    const heading = "### Other files";
+    let budget = maxTokens - estimateTokens(heading) - 10;
+    const listed: string[] = [];
+
+    for (const filePath of [...paths].sort()) {
+      const line = `- ${filePath}`;
+      const tokens = estimateTokens(line + "\n");
+      if (tokens > budget) break;
+      listed.push(line);
+      budget -= tokens;
+    }
+
+    if (listed.length === 0) return "";
+
+    const hidden = paths.length - listed.length;
+    return [
+      heading,
+      ...listed,
+      ...(hidden > 0 ? [`- ... and ${hidden} more`] : [])
+    ].join("\n");
+  }
+
+  private relativePath(root: string, filePath: string): string {
+    const relative = root && (path.isAbsolute(filePath) || filePath.startsWith(root))
+      ? path.relative(root, filePath)
+      : filePath;
+    return relative.split(path.sep).join("/");
+  }
+}
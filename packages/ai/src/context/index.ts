@@ -0,0 +1,10 @@
+export { ContextBuilder } from "./builder";
+export type { BuiltContext, ContextBuilderOptions } from "./builder";
+export { buildImportGraph, rankFiles, tokenize } from "./ranking";
+export type { RankableFile, RankedFile, RankingOptions } from "./ranking";
+export {
+  estimateTokens,
+  getContextBudget,
+  getContextWindow,
+  MODEL_CONTEXT_WINDOWS
+} from "./tokens";
@@ -0,0 +1,158 @@
+import path from "path";
+
+export interface RankableFile {
+  /** Path relative to the repository root */
+  path: string;
+  content: string;
+}
+
+export interface RankedFile extends RankableFile {
+  score: number;
+  reasons: string[];
+}
+
+export interface RankingOptions {
+  /** Paths touched by recent commits, most recent first */
+  recentChanges?: string[];
+}
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "into", "when", "should",
+  "add", "update", "fix", "make", "use", "all", "our", "new", "not", "are", "can",
+  "file", "files", "code", "please", "also"
+]);
+
+const IMPORT_REGEX =
+  /(?:import|export)\s[^'"]*?from\s*['"](\.{1,2}\/[^'"]+)['"]|(?:require|import)\(\s*['"](\.{1,2}\/[^'"]+)['"]\s*\)|import\s+['"](\.{1,2}\/[^'"]+)['"]/g;
+
+const RESOLVE_SUFFIXES = [
+  "",
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  "/index.ts",
+  "/index.tsx",
+  "/index.js"
+];
+
+const PATH_MATCH_SCORE = 5;
+const CONTENT_MATCH_SCORE = 1;
+const RECENT_CHANGE_SCORE = 2;
+const IMPORT_PROXIMITY_SCORE = 3;
+const MAX_IMPORT_DISTANCE = 2;
+
+/**
+ * Split a prompt or path into lowercase words, breaking up camelCase,
+ * kebab-case and snake_case identifiers
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function extractKeywords(prompt: string): string[] {
+  return Array.from(new Set(
+    tokenize(prompt).filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+  ));
+}
+
+/**
+ * Resolve relative imports of each file to other files in the set
+ */
+export function buildImportGraph(files: RankableFile[]): Map<string, Set<string>> {
+  const known = new Set(files.map(file => file.path));
+  const graph = new Map<string, Set<string>>(
+    files.map(file => [file.path, new Set<string>()])
+  );
+
+  for (const file of files) {
+    for (const match of file.content.matchAll(IMPORT_REGEX)) {
+      const specifier = match[1] || match[2] || match[3];
+      const base = path.posix.join(path.posix.dirname(file.path), specifier);
+      const target = RESOLVE_SUFFIXES
+        .map(suffix => base + suffix)
+        .find(candidate => known.has(candidate));
+
+      if (target && target !== file.path) {
+        // Proximity is symmetric: importers matter as much as imports
+        graph.get(file.path)!.add(target);
+        graph.get(target)!.add(file.path);
+      }
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Rank files by how relevant they are likely to be for the prompt
+ */
+export function rankFiles(
+  files: RankableFile[],
+  prompt: string,
+  options: RankingOptions = {}
+): RankedFile[] {
+  const keywords = extractKeywords(prompt);
+  const recent = new Map(
+    (options.recentChanges ?? []).map((file, index) => [file, index])
+  );
+
+  const ranked = new Map<string, RankedFile>(files.map(file => {
+    const pathWords = new Set(tokenize(file.path));
+    const content = file.content.toLowerCase();
+    const reasons: string[] = [];
+    let score = 0;
+
+    for (const keyword of keywords) {
+      if (pathWords.has(keyword)) {
+        score += PATH_MATCH_SCORE;
+        reasons.push(`path matches "${keyword}"`);
+      } else if (content.includes(keyword)) {
+        score += CONTENT_MATCH_SCORE;
+        reasons.push(`mentions "${keyword}"`);
+      }
+    }
+
+    const recency = recent.get(file.path);
+    if (recency !== undefined) {
+      // Most recent changes weigh the most
+      score += RECENT_CHANGE_SCORE * (1 - recency / Math.max(recent.size, 1));
+      reasons.push("recently changed");
+    }
+
+    return [file.path, { ...file, score, reasons }];
+  }));
+
+  // Boost neighbours of files that matched the prompt in the import graph
+  const graph = buildImportGraph(files);
+  const seeds = Array.from(ranked.values())
+    .filter(file => file.reasons.some(reason => !reason.startsWith("recently")));
+  const distances = new Map<string, number>(seeds.map(seed => [seed.path, 0]));
+  let frontier = seeds.map(seed => seed.path);
+
+  for (let distance = 1; distance <= MAX_IMPORT_DISTANCE && frontier.length > 0; distance++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const neighbour of graph.get(current) ?? []) {
+        if (distances.has(neighbour)) continue;
+        distances.set(neighbour, distance);
+        next.push(neighbour);
+
+        const file = ranked.get(neighbour)!;
+        file.score += IMPORT_PROXIMITY_SCORE / distance;
+        file.reasons.push(`imports or is imported by ${current}`);
+      }
+    }
+    frontier = next;
+  }
+
+  return Array.from(ranked.values()).sort((a, b) =>
+    b.score - a.score || a.path.length - b.path.length || a.path.localeCompare(b.path)
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Context window sizes (in tokens) for the models we know about
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "deepseek-r1": 64_000,
+  "deepseek-reasoner": 64_000,
+  "deepseek-chat": 64_000,
+  "deepseek-coder": 128_000,
+  "gpt-4o": 128_000,
+  "gpt-4o-mini": 128_000,
+  "gpt-4.1": 1_000_000,
+  "qwen2.5-coder": 32_768,
+  "llama3": 8_192,
+  "llama3.1": 128_000,
+  "codellama": 16_384
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+// Room left for instructions, the user prompt and the completion itself
+const PROMPT_RESERVE = 2_000;
+const DEFAULT_COMPLETION_TOKENS = 4_000;
+
+/**
+ * Rough token estimate; ~4 characters per token holds well enough for code
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Look up a model's context window, ignoring Ollama-style tags (`model:14b`)
+ */
+export function getContextWindow(model: string): number {
+  const name = model.toLowerCase().split(":")[0];
+  if (MODEL_CONTEXT_WINDOWS[name]) {
+    return MODEL_CONTEXT_WINDOWS[name];
+  }
+
+  // Fall back to the longest known prefix, e.g. "gpt-4o-2024-08-06"
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter(known => name.startsWith(known))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens available for repository context when prompting the given model
+ */
+export function getContextBudget(
+  model: string,
+  completionTokens: number = DEFAULT_COMPLETION_TOKENS
+): number {
+  return Math.max(0, getContextWindow(model) - completionTokens - PROMPT_RESERVE);
+}
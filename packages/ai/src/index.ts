@@ -0,0 +1,66 @@
+export { AIClient, AIClientError } from "./client";
+export type { AIClientOptions, GenerateOptions, PlanProgressEvent } from "./client";
+
+export { ResponseParser } from "./parser";
+
+// Prompt templates
+export {
+  buildPromptVariables,
+  DEFAULT_PROMPT_DIR,
+  DEFAULT_TEMPLATES,
+  PromptTemplates
+} from "./prompts";
+export type { TemplateVariables } from "./prompts";
+
+// Plan refinement
+export { diffPlans, isEmptyPlanDiff, PlanSession } from "./session";
+export type { PlanDiff, PlanFile, PlanIteration } from "./session";
+
+// Repository context
+export {
+  ContextBuilder,
+  estimateTokens,
+  getContextBudget,
+  getContextWindow,
+  rankFiles
+} from "./context";
+export type { BuiltContext, ContextBuilderOptions, RankedFile } from "./context";
+
+// Streaming
+export { IncrementalPlanExtractor } from "./stream/plan-extractor";
+export { readLines, readServerSentEvents } from "./stream/readers";
+
+// Record / replay
+export { Cassette, DEFAULT_CASSETTE_DIR, RecordingProvider } from "./recording";
+export type { CassetteEntry, RecordingMode, RecordingOptions } from "./recording";
+
+// Usage and cost accounting
+export { calculateCost, DEFAULT_PRICES, resolvePrice, UsageTracker } from "./usage";
+export type {
+  ModelPrice,
+  PriceTable,
+  UsageRecord,
+  UsageSummary,
+  UsageTrackerOptions
+} from "./usage";
+
+// Providers
+export {
+  createProvider,
+  DeepSeekProvider,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  AIProviderError
+} from "./providers";
+export type {
+  AIProvider,
+  ChatMessage,
+  CompletionChunk,
+  CompletionResult,
+  ProviderConfig,
+  ProviderName,
+  ProviderOptions,
+  TextChunk,
+  TokenUsage,
+  UsageChunk
+} from "./providers";
@@ -1,5 +1,10 @@
-import { AIResponse, AIResponseSchema } from "./schema/response";
+import { ZodError, ZodIssue } from "zod";
+import { PRPlan } from "@automate-pr/types";
+import { AIResponse, SchemaError, validateAIResponse } from "@automate-pr/schema";
 import { PRAutomatorError } from "@automate-pr/core/error";
+import { FilePatch, formatHunk, newFileContent, parsePatch } from "@automate-pr/core/diff";
+
+const CONVENTIONAL_TITLE_REGEX = /^[a-z]+(?:\([^)]+\))?!?: /;
 
 export class ResponseParser {
   /**
@@ -36,20 +41,15 @@ export class ResponseParser {
         );
       }
 
-      // Validate against schema
-      try {
-        return AIResponseSchema.parse(data);
-      } catch (error) {
-        throw new PRAutomatorError(
-          "ai",
-          "Invalid AI response format",
-          { error }
-        );
-      }
+      // Upgrade older versions and validate against the current schema
+      return validateAIResponse(data, { contentFromDiff: diff => this.newFileContent(diff) });
     } catch (error) {
       if (error instanceof PRAutomatorError) {
         throw error;
       }
+      if (error instanceof SchemaError) {
+        throw new PRAutomatorError("ai", error.message, error.metadata);
+      }
       throw new PRAutomatorError(
         "ai",
         `Failed to parse AI response: ${error.message}`,
@@ -58,6 +58,118 @@ export class ResponseParser {
     }
   }
 
+  /**
+   * Content of a file an older response created through a diff, if the
+   * diff can be read
+   */
+  private static newFileContent(diff: string): string | undefined {
+    try {
+      return newFileContent(diff);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Find file changes missing the field their action depends on
+   */
+  static findMissingFields(files: AIResponse["files"]): string[] {
+    const required = {
+      create: "content",
+      modify: "diff",
+      rename: "oldPath"
+    } as const;
+
+    return files.flatMap((file, index) => {
+      if (file.action === "delete") return [];
+      const field = required[file.action];
+      return file[field] ? [] : [`\`files[${index}].${field}\` missing for ${file.action} of ${file.path}`];
+    });
+  }
+
+  /**
+   * Turn a parse failure into human-readable issues the model can act on
+   */
+  static describeIssues(error: unknown): string[] {
+    if (!(error instanceof PRAutomatorError)) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+
+    const { error: cause, issues } = error.metadata;
+    if (Array.isArray(issues)) {
+      return issues.map(String);
+    }
+    if (cause instanceof ZodError) {
+      return cause.issues.map(issue => this.describeZodIssue(issue));
+    }
+    if (cause instanceof SyntaxError) {
+      return [`${error.message}: ${cause.message}`];
+    }
+
+    return [error.message];
+  }
+
+  private static describeZodIssue(issue: ZodIssue): string {
+    const path = issue.path.reduce<string>(
+      (acc, key) => typeof key === "number" ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key,
+      ""
+    ) || "response";
+
+    switch (issue.code) {
+      case "invalid_type":
+        return issue.received === "undefined"
+          ? `\`${path}\` missing`
+          : `\`${path}\` must be ${issue.expected}, got ${issue.received}`;
+      case "too_big":
+        return issue.type === "string"
+          ? `\`${path}\` exceeded ${issue.maximum} chars`
+          : `\`${path}\` exceeded ${issue.maximum} items`;
+      case "invalid_enum_value":
+        return `\`${path}\` must be one of ${issue.options.join(", ")}, got ${JSON.stringify(issue.received)}`;
+      default:
+        return `\`${path}\` ${issue.message}`;
+    }
+  }
+
+  /**
+   * Map a validated AI response onto the plan consumed by the workflow
+   */
+  static toPRPlan(response: AIResponse): PRPlan {
+    const { files, pr, reviewers = [], replies, metadata } = response;
+
+    // Models are asked for a bare title, but some already prefix it
+    const title = CONVENTIONAL_TITLE_REGEX.test(pr.title)
+      ? pr.title
+      : this.formatCommitMessage(pr.type, pr.scope, pr.breaking, pr.title);
+
+    return {
+      files: files.map(file => ({
+        path: file.path,
+        action: file.action,
+        ...(file.content !== undefined && { content: file.content }),
+        ...(file.diff !== undefined && { diff: file.diff }),
+        ...(file.oldPath && { oldPath: file.oldPath }),
+        ...(file.mode !== undefined && { mode: file.mode })
+      })),
+      pr: {
+        title,
+        description: pr.body,
+        reviewers: reviewers.map(reviewer => reviewer.username),
+        labels: metadata.suggestedLabels,
+        draft: pr.draft
+      },
+      metadata: {
+        confidence: metadata.confidence,
+        reasoning: metadata.reasoning,
+        complexity: metadata.estimatedComplexity,
+        securityConsiderations: metadata.securityConsiderations ?? [],
+        testingRecommendations: metadata.testingRecommendations ?? [],
+        warnings: metadata.warnings ?? []
+      },
+      ...(replies && { replies })
+    };
+  }
+
   /**
    * Parse unified diff format into structured changes
    */
@@ -72,73 +184,37 @@ export class ResponseParser {
     files: string[];
     additions: number;
     deletions: number;
+    patches: FilePatch[];
   } {
-    const chunks: Array<{
-      oldStart: number;
-      oldLines: number;
-      newStart: number;
-      newLines: number;
-      content: string;
-    }> = [];
-
-    const files = new Set<string>();
-    let additions = 0;
-    let deletions = 0;
-
+    let patches: FilePatch[];
     try {
-      // Split diff into chunks
-      const diffChunks = diff.split(/(?=^@@)/m);
-
-      for (const chunk of diffChunks) {
-        // Skip empty chunks
-        if (!chunk.trim()) continue;
-
-        // Parse file names
-        if (chunk.startsWith("---")) {
-          const fileMatch = chunk.match(/^--- a\/(.*)/m);
-          if (fileMatch) {
-            files.add(fileMatch[1]);
-          }
-          continue;
-        }
-
-        // Parse chunk header
-        const headerMatch = chunk.match(
-          /^@@ -(\d+),?(\d+)? \+(\d+),?(\d+)? @@/
-        );
-        if (!headerMatch) continue;
-
-        const [, oldStart, oldLines, newStart, newLines] = headerMatch;
-
-        // Count changes
-        const lines = chunk.split("\n").slice(1);
-        for (const line of lines) {
-          if (line.startsWith("+")) additions++;
-          if (line.startsWith("-")) deletions++;
-        }
-
-        chunks.push({
-          oldStart: parseInt(oldStart, 10),
-          oldLines: oldLines ? parseInt(oldLines, 10) : 1,
-          newStart: parseInt(newStart, 10),
-          newLines: newLines ? parseInt(newLines, 10) : 1,
-          content: chunk
-        });
-      }
-
-      return {
-        chunks,
-        files: Array.from(files),
-        additions,
-        deletions
-      };
+      patches = parsePatch(diff);
     } catch (error) {
-      throw new PRAutomatorError(
-        "ai",
-        `Failed to parse diff: ${error.message}`,
-        { error, diff }
-      );
+      throw new PRAutomatorError("ai", "Failed to parse diff", { error, diff });
+    }
+
+    if (patches.length === 0) {
+      throw new PRAutomatorError("ai", "Failed to parse diff", {
+        diff,
+        reason: "No file changes found"
+      });
     }
+
+    return {
+      chunks: patches.flatMap(patch => patch.hunks.map(hunk => ({
+        oldStart: hunk.oldStart,
+        oldLines: hunk.oldLines,
+        newStart: hunk.newStart,
+        newLines: hunk.newLines,
+        content: formatHunk(hunk)
+      }))),
+      files: [...new Set(patches
+        .map(patch => patch.newPath ?? patch.oldPath)
+        .filter((path): path is string => path !== null))],
+      additions: patches.reduce((total, patch) => total + patch.additions, 0),
+      deletions: patches.reduce((total, patch) => total + patch.deletions, 0),
+      patches
+    };
   }
 
   /**
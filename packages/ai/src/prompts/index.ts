@@ -0,0 +1,4 @@
+export { DEFAULT_TEMPLATES } from "./defaults";
+export { parseTemplate, renderTemplate } from "./template";
+export type { RenderResult, TemplateVariables } from "./template";
+export { buildPromptVariables, DEFAULT_PROMPT_DIR, PromptTemplates } from "./templates";
@@ -0,0 +1,131 @@
+import { PRAutomatorError } from "@automate-pr/core/error";
+
+export type TemplateVariables = Record<string, unknown>;
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; name: string }
+  | { type: "section"; name: string; inverted: boolean; children: TemplateNode[] }
+  | { type: "partial"; name: string };
+
+/**
+ * `{{name}}`, `{{a.b}}`, `{{#name}}`/`{{^name}}` sections closed by `{{/name}}`,
+ * and `{{> partial}}`
+ */
+const TAG_REGEX = /\{\{\s*([#^/>]?)\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Parse a template into a tree, checking that sections are balanced
+ */
+export function parseTemplate(source: string, template = "template"): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [{ name: "", children: root }];
+  let last = 0;
+
+  for (const match of source.matchAll(TAG_REGEX)) {
+    const [tag, sigil, name] = match;
+    const { children } = stack[stack.length - 1];
+
+    if (match.index! > last) {
+      children.push({ type: "text", text: source.slice(last, match.index) });
+    }
+    last = match.index! + tag.length;
+
+    switch (sigil) {
+      case "#":
+      case "^": {
+        const section: TemplateNode = { type: "section", name, inverted: sigil === "^", children: [] };
+        children.push(section);
+        stack.push({ name, children: section.children });
+        break;
+      }
+      case "/":
+        if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+          throw PRAutomatorError.user(
+            `Unexpected {{/${name}}} in prompt template "${template}"`,
+            { template, code: "PROMPT_TEMPLATE_INVALID" }
+          );
+        }
+        stack.pop();
+        break;
+      case ">":
+        children.push({ type: "partial", name });
+        break;
+      default:
+        children.push({ type: "variable", name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw PRAutomatorError.user(
+      `Unclosed section {{#${stack[stack.length - 1].name}}} in prompt template "${template}"`,
+      { template, code: "PROMPT_TEMPLATE_INVALID" }
+    );
+  }
+
+  if (last < source.length) {
+    root.push({ type: "text", text: source.slice(last) });
+  }
+  return root;
+}
+
+export interface RenderResult {
+  text: string;
+  /** Variables referenced outside of a skipped section but not provided */
+  missing: string[];
+}
+
+/**
+ * Render a parsed template. Partials are resolved by name through `partial`.
+ */
+export function renderTemplate(
+  nodes: TemplateNode[],
+  variables: TemplateVariables,
+  partial: (name: string) => TemplateNode[]
+): RenderResult {
+  const missing = new Set<string>();
+
+  const render = (nodes: TemplateNode[]): string => nodes.map(node => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "variable": {
+        const value = lookup(variables, node.name);
+        if (value === undefined || value === null) {
+          missing.add(node.name);
+          return "";
+        }
+        return formatValue(value);
+      }
+      case "section":
+        return isTruthy(lookup(variables, node.name)) !== node.inverted
+          ? render(node.children)
+          : "";
+      case "partial":
+        return render(partial(node.name));
+    }
+  }).join("");
+
+  const text = render(nodes);
+  return { text, missing: [...missing] };
+}
+
+function lookup(variables: TemplateVariables, name: string): unknown {
+  return name.split(".").reduce<unknown>(
+    (value, key) => value !== null && typeof value === "object"
+      ? (value as Record<string, unknown>)[key]
+      : undefined,
+    variables
+  );
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== "";
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "object") return JSON.stringify(value, null, 2);
+  return String(value);
+}
@@ -0,0 +1,154 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { RepoContext } from "@automate-pr/types";
+import { PRAutomatorError } from "@automate-pr/core/error";
+import { DEFAULT_TEMPLATES } from "./defaults";
+import { parseTemplate, renderTemplate, TemplateVariables } from "./template";
+
+export const DEFAULT_PROMPT_DIR = path.join(".automate-pr", "prompts");
+
+const TEMPLATE_EXTENSION = ".md";
+
+interface LoadedTemplate {
+  source: string;
+  /** "default", or the file the template was read from */
+  origin: string;
+}
+
+/**
+ * The effective set of prompt templates: package defaults overlaid with any
+ * `<name>.md` files from a repository's prompts directory
+ */
+export class PromptTemplates {
+  private constructor(private readonly templates: Map<string, LoadedTemplate>) {
+    // Fail on malformed templates and dangling partials up front
+    for (const name of templates.keys()) {
+      this.resolve(name, []);
+    }
+  }
+
+  static defaults(): PromptTemplates {
+    return new PromptTemplates(new Map(
+      Object.entries(DEFAULT_TEMPLATES).map(([name, source]) => [name, { source, origin: "default" }])
+    ));
+  }
+
+  /**
+   * Load overrides from `dir`, relative to the repository root
+   */
+  static async load(root: string, dir: string = DEFAULT_PROMPT_DIR): Promise<PromptTemplates> {
+    const templates = PromptTemplates.defaults().templates;
+    const directory = path.resolve(root, dir);
+
+    let entries: string[];
+    try {
+      entries = await readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new PromptTemplates(templates);
+      }
+      throw PRAutomatorError.system(`Failed to read prompt templates: ${error.message}`, {
+        dir: directory
+      });
+    }
+
+    for (const entry of entries.filter(entry => entry.endsWith(TEMPLATE_EXTENSION)).sort()) {
+      const file = path.join(directory, entry);
+      templates.set(path.basename(entry, TEMPLATE_EXTENSION), {
+        source: await readFile(file, "utf-8"),
+        origin: file
+      });
+    }
+
+    return new PromptTemplates(templates);
+  }
+
+  get names(): string[] {
+    return [...this.templates.keys()];
+  }
+
+  /**
+   * Where a template came from: "default" or the override file's path
+   */
+  origin(name: string): string | undefined {
+    return this.templates.get(name)?.origin;
+  }
+
+  /**
+   * Render a template, failing if any variable it needs is not provided
+   */
+  render(name: string, variables: TemplateVariables): string {
+    const result = renderTemplate(
+      this.resolve(name, []),
+      variables,
+      partial => this.resolve(partial, [name])
+    );
+
+    if (result.missing.length > 0) {
+      throw PRAutomatorError.user(
+        `Prompt template "${name}" uses undefined variables: ${result.missing.join(", ")}`,
+        { template: name, origin: this.origin(name), missing: result.missing, code: "PROMPT_VARIABLES_MISSING" }
+      );
+    }
+
+    return result.text;
+  }
+
+  /**
+   * Parse a template and every partial it includes, rejecting cycles
+   */
+  private resolve(name: string, including: string[]) {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw PRAutomatorError.user(
+        including.length > 0
+          ? `Prompt template "${including[including.length - 1]}" includes unknown partial "${name}"`
+          : `Unknown prompt template "${name}"`,
+        { template: name, code: "PROMPT_TEMPLATE_INVALID" }
+      );
+    }
+    if (including.includes(name)) {
+      throw PRAutomatorError.user(
+        `Prompt template partials include each other: ${[...including, name].join(" > ")}`,
+        { template: name, code: "PROMPT_TEMPLATE_INVALID" }
+      );
+    }
+
+    const nodes = parseTemplate(template.source, name);
+    // Walk nested partials now so errors surface even in skipped sections
+    const visit = (children: typeof nodes) => {
+      for (const node of children) {
+        if (node.type === "partial") this.resolve(node.name, [...including, name]);
+        if (node.type === "section") visit(node.children);
+      }
+    };
+    visit(nodes);
+
+    return nodes;
+  }
+}
+
+/**
+ * Variables available to every template
+ */
+export function buildPromptVariables(
+  context: RepoContext,
+  prompt: string,
+  repository: string
+): TemplateVariables {
+  return {
+    prompt,
+    repository,
+    owner: context.owner,
+    repo: context.repo,
+    branch: context.branch,
+    framework: context.framework,
+    testFramework: context.testFramework,
+    packageManager: context.packageManager,
+    patterns: context.patterns,
+    settings: context.settings,
+    dependencies: Object.keys(context.dependencies.production),
+    devDependencies: Object.keys(context.dependencies.development),
+    recentChanges: context.recentChanges ?? []
+  };
+}
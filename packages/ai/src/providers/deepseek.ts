@@ -0,0 +1,17 @@
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import { ProviderName, ProviderOptions } from "./types";
+
+/**
+ * DeepSeek's hosted API, which follows the OpenAI chat completions format
+ */
+export class DeepSeekProvider extends OpenAICompatibleProvider {
+  readonly name: ProviderName = "deepseek";
+
+  constructor(options: ProviderOptions = {}) {
+    super({
+      ...options,
+      baseUrl: options.baseUrl || "https://api.deepseek.com/v1",
+      model: options.model || "deepseek-r1"
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { DeepSeekProvider } from "./deepseek";
+import { OllamaProvider } from "./ollama";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import { AIProvider, ProviderName, ProviderOptions } from "./types";
+
+export interface ProviderConfig extends ProviderOptions {
+  provider: ProviderName;
+}
+
+/**
+ * Instantiate the provider selected in configuration
+ */
+export function createProvider(config: ProviderConfig): AIProvider {
+  const { provider, ...options } = config;
+
+  switch (provider) {
+    case "deepseek":
+      return new DeepSeekProvider(options);
+    case "openai":
+      return new OpenAICompatibleProvider(options);
+    case "ollama":
+      return new OllamaProvider(options);
+    default:
+      throw new Error(`Unknown AI provider: ${provider}`);
+  }
+}
+
+export { DeepSeekProvider } from "./deepseek";
+export { OllamaProvider } from "./ollama";
+export { OpenAICompatibleProvider } from "./openai-compatible";
+export { AIProviderError } from "./types";
+export type {
+  AIProvider,
+  ChatMessage,
+  CompletionChunk,
+  CompletionResult,
+  ProviderName,
+  ProviderOptions,
+  TextChunk,
+  TokenUsage,
+  UsageChunk
+} from "./types";
@@ -0,0 +1,178 @@
+import fetch, { Response } from "node-fetch";
+import { readLines } from "../stream/readers";
+import { ThinkTagSplitter } from "../stream/think-splitter";
+import { withRetries } from "./retry";
+import {
+  AIProvider,
+  AIProviderError,
+  ChatMessage,
+  CompletionChunk,
+  CompletionResult,
+  ProviderName,
+  ProviderOptions,
+  TextChunk,
+  TokenUsage
+} from "./types";
+
+/** A `/api/chat` response, or one line of a streamed response */
+interface OllamaChatData {
+  message?: { content?: string };
+  done?: boolean;
+  error?: string;
+  /** Only on the final message */
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Local Ollama server, for running without any hosted model
+ */
+export class OllamaProvider implements AIProvider {
+  readonly name: ProviderName = "ollama";
+  readonly model: string;
+  readonly maxTokens: number;
+
+  private readonly baseUrl: string;
+  private readonly temperature: number;
+  private readonly timeout: number;
+  private readonly maxRetries: number;
+
+  constructor(options: ProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl || "http://localhost:11434").replace(/\/$/, "");
+    this.model = options.model || "deepseek-r1";
+    this.temperature = options.temperature ?? 0.2;
+    this.maxTokens = options.maxTokens || 4000;
+    // Local models are slower to respond than hosted ones
+    this.timeout = options.timeout || 120000;
+    this.maxRetries = options.maxRetries || 3;
+  }
+
+  async complete(messages: ChatMessage[]): Promise<CompletionResult> {
+    return withRetries(async () => {
+      const response = await this.request(messages, false);
+
+      const data = (await response.json()) as OllamaChatData;
+      if (!data.message?.content) {
+        throw new AIProviderError("Invalid Ollama response format", undefined, data);
+      }
+
+      const usage = this.parseUsage(data);
+      return {
+        ...this.splitReasoning(data.message.content),
+        ...(usage && { usage })
+      };
+    }, this.maxRetries);
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncGenerator<CompletionChunk> {
+    const response = await withRetries(
+      () => this.request(messages, true),
+      this.maxRetries
+    );
+    const splitter = new ThinkTagSplitter();
+
+    // Ollama streams newline-delimited JSON rather than server-sent events
+    for await (const line of readLines(response.body!)) {
+      if (!line.trim()) continue;
+
+      let data: OllamaChatData;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        throw new AIProviderError("Invalid Ollama stream event", undefined, line);
+      }
+
+      if (data.error) {
+        throw new AIProviderError(`Ollama stream failed: ${data.error}`, undefined, data);
+      }
+
+      if (data.message?.content) {
+        for (const chunk of splitter.push(data.message.content)) {
+          yield chunk;
+        }
+      }
+      if (data.done) {
+        for (const chunk of splitter.flush()) {
+          yield chunk;
+        }
+
+        const usage = this.parseUsage(data);
+        if (usage) {
+          yield { type: "usage", usage };
+        }
+        return;
+      }
+    }
+
+    for (const chunk of splitter.flush()) {
+      yield chunk;
+    }
+  }
+
+  /**
+   * Token counts are only present on the final message of a response
+   */
+  private parseUsage(data: OllamaChatData): TokenUsage | undefined {
+    if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+      return undefined;
+    }
+
+    // Ollama does not count the <think> section separately
+    return {
+      promptTokens: data.prompt_eval_count ?? 0,
+      completionTokens: data.eval_count ?? 0,
+      reasoningTokens: 0
+    };
+  }
+
+  private async request(messages: ChatMessage[], stream: boolean): Promise<Response> {
+    // Streams may run well past the timeout once established, so it only
+    // bounds the wait for response headers
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "AutomatePR/1.0"
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        stream,
+        options: {
+          temperature: this.temperature,
+          num_predict: this.maxTokens
+        }
+      }),
+      signal: stream ? controller.signal : AbortSignal.timeout(this.timeout)
+    }).finally(() => clearTimeout(timer));
+
+    if (!response.ok) {
+      throw new AIProviderError(
+        `Ollama request failed with status ${response.status}`,
+        response.status,
+        await response.text().catch(() => undefined)
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Reasoning models served by Ollama inline their trace in <think> tags
+   */
+  private splitReasoning(content: string): CompletionResult {
+    const splitter = new ThinkTagSplitter();
+    const chunks = [...splitter.push(content), ...splitter.flush()];
+    const join = (type: TextChunk["type"]) =>
+      chunks.filter(chunk => chunk.type === type).map(chunk => chunk.delta).join("");
+
+    const reasoning = join("reasoning").trim();
+    return {
+      content: join("content"),
+      ...(reasoning && { reasoning })
+    };
+  }
+}
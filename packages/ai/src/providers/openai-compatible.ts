@@ -0,0 +1,154 @@
+import fetch, { Response } from "node-fetch";
+import { readServerSentEvents } from "../stream/readers";
+import { withRetries } from "./retry";
+import {
+  AIProvider,
+  AIProviderError,
+  ChatMessage,
+  CompletionChunk,
+  CompletionResult,
+  ProviderName,
+  ProviderOptions,
+  TokenUsage
+} from "./types";
+
+// Compatible servers differ in what they send, so nothing is guaranteed
+interface ChatMessageData {
+  content?: string | null;
+  reasoning_content?: string;
+}
+
+interface UsageData {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+/** A completion, or one event of a streamed completion */
+interface ChatCompletionData {
+  choices?: { message?: ChatMessageData; delta?: ChatMessageData }[];
+  usage?: UsageData | null;
+}
+
+/**
+ * Provider for any endpoint implementing the OpenAI `/chat/completions` API
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name: ProviderName = "openai";
+  readonly model: string;
+  readonly maxTokens: number;
+
+  protected readonly apiKey?: string;
+  protected readonly baseUrl: string;
+  protected readonly temperature: number;
+  protected readonly timeout: number;
+  protected readonly maxRetries: number;
+
+  constructor(options: ProviderOptions = {}) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || "https://api.openai.com/v1").replace(/\/$/, "");
+    this.model = options.model || "gpt-4o-mini";
+    this.temperature = options.temperature ?? 0.2;
+    this.maxTokens = options.maxTokens || 4000;
+    this.timeout = options.timeout || 30000;
+    this.maxRetries = options.maxRetries || 3;
+  }
+
+  async complete(messages: ChatMessage[]): Promise<CompletionResult> {
+    return withRetries(async () => {
+      const response = await this.request(messages, false);
+
+      const data = (await response.json()) as ChatCompletionData;
+      const message = data.choices?.[0]?.message;
+      if (!message?.content) {
+        throw new AIProviderError("Invalid API response format", undefined, data);
+      }
+
+      const usage = this.parseUsage(data.usage);
+      return {
+        content: message.content,
+        ...(message.reasoning_content && { reasoning: message.reasoning_content }),
+        ...(usage && { usage })
+      };
+    }, this.maxRetries);
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncGenerator<CompletionChunk> {
+    // Only establishing the stream is retried; a broken stream is surfaced
+    const response = await withRetries(
+      () => this.request(messages, true),
+      this.maxRetries
+    );
+
+    for await (const payload of readServerSentEvents(response.body!)) {
+      if (payload === "[DONE]") return;
+
+      let data: ChatCompletionData;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        throw new AIProviderError("Invalid stream event", undefined, payload);
+      }
+
+      const delta = data.choices?.[0]?.delta;
+      if (delta?.reasoning_content) {
+        yield { type: "reasoning", delta: delta.reasoning_content };
+      }
+      if (delta?.content) {
+        yield { type: "content", delta: delta.content };
+      }
+
+      // Sent in a final event with no choices when include_usage is set
+      const usage = this.parseUsage(data.usage);
+      if (usage) {
+        yield { type: "usage", usage };
+      }
+    }
+  }
+
+  private parseUsage(usage: UsageData | null | undefined): TokenUsage | undefined {
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0
+    };
+  }
+
+  private async request(messages: ChatMessage[], stream: boolean): Promise<Response> {
+    // Streams may run well past the timeout once established, so it only
+    // bounds the wait for response headers
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "AutomatePR/1.0",
+        ...(stream && { "Accept": "text/event-stream" }),
+        ...(this.apiKey && { "Authorization": `Bearer ${this.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature: this.temperature,
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
+        max_tokens: this.maxTokens
+      }),
+      signal: stream ? controller.signal : AbortSignal.timeout(this.timeout)
+    }).finally(() => clearTimeout(timer));
+
+    if (!response.ok) {
+      throw new AIProviderError(
+        `API request failed with status ${response.status}`,
+        response.status,
+        await response.json().catch(() => undefined)
+      );
+    }
+
+    return response;
+  }
+}
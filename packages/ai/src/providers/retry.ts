@@ -0,0 +1,41 @@
+import { AIProviderError } from "./types";
+
+/**
+ * Run a provider request, retrying failures with exponential backoff
+ */
+export async function withRetries<T>(
+  request: () => Promise<T>,
+  maxRetries: number
+): Promise<T> {
+  let lastError: Error | undefined;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      lastError = error as Error;
+
+      // Don't retry on authentication errors
+      if (error instanceof AIProviderError && error.status === 401) {
+        throw error;
+      }
+
+      // Last attempt failed
+      if (attempt === maxRetries) {
+        throw new AIProviderError(
+          `Request failed after ${maxRetries} attempts: ${lastError.message}`,
+          error instanceof AIProviderError ? error.status : undefined,
+          lastError
+        );
+      }
+
+      // Wait before retrying (exponential backoff)
+      await new Promise(resolve =>
+        setTimeout(resolve, Math.pow(2, attempt) * 1000)
+      );
+    }
+  }
+
+  // TypeScript type guard
+  throw new Error("Unreachable");
+}
@@ -0,0 +1,74 @@
+export type ProviderName = "deepseek" | "openai" | "ollama";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Tokens billed for a single completion, as reported by the provider
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  /** Includes reasoning tokens, which are billed as output */
+  completionTokens: number;
+  reasoningTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  /** Chain-of-thought returned separately by reasoning models */
+  reasoning?: string;
+  usage?: TokenUsage;
+}
+
+export interface TextChunk {
+  type: "reasoning" | "content";
+  delta: string;
+}
+
+/**
+ * Streamed completions report usage once, after the last text delta
+ */
+export interface UsageChunk {
+  type: "usage";
+  usage: TokenUsage;
+}
+
+export type CompletionChunk = TextChunk | UsageChunk;
+
+/**
+ * A chat model backend the AI client can generate plans with
+ */
+export interface AIProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  /** Most completion tokens a single call may produce */
+  readonly maxTokens: number;
+  complete(messages: ChatMessage[]): Promise<CompletionResult>;
+  /**
+   * Stream reasoning and content deltas as the model produces them
+   */
+  stream(messages: ChatMessage[]): AsyncIterable<CompletionChunk>;
+}
+
+export interface ProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeout?: number;
+  maxRetries?: number;
+}
+
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly response?: any
+  ) {
+    super(message);
+    this.name = "AIProviderError";
+  }
+}
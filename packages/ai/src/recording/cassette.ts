@@ -0,0 +1,80 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { PRAutomatorError } from "@automate-pr/core/error";
+import { ChatMessage, CompletionChunk, CompletionResult } from "../providers/types";
+
+export const DEFAULT_CASSETTE_DIR = path.join(".automate-pr", "cassettes");
+
+const CASSETTE_VERSION = 1;
+
+export interface CassetteEntry {
+  version: number;
+  key: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  messages: ChatMessage[];
+  result: CompletionResult;
+  /** Stream deltas, kept so replays reproduce streamed progress */
+  chunks?: CompletionChunk[];
+}
+
+/**
+ * A directory of recorded completions, one JSON file per request
+ */
+export class Cassette {
+  constructor(private readonly dir: string = DEFAULT_CASSETTE_DIR) {}
+
+  /**
+   * Requests are keyed by the full conversation, which embeds both the
+   * repository context and the user prompt
+   */
+  static keyFor(messages: ChatMessage[]): string {
+    return createHash("sha256")
+      .update(JSON.stringify(messages.map(({ role, content }) => ({ role, content }))))
+      .digest("hex")
+      .slice(0, 32);
+  }
+
+  async load(key: string): Promise<CassetteEntry | undefined> {
+    try {
+      const data = await readFile(this.pathFor(key), "utf-8");
+      return JSON.parse(data) as CassetteEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new PRAutomatorError("ai", `Failed to read cassette ${key}: ${message}`, {
+        key,
+        dir: this.dir,
+        error
+      });
+    }
+  }
+
+  async save(entry: Omit<CassetteEntry, "version" | "recordedAt">): Promise<void> {
+    const record: CassetteEntry = {
+      version: CASSETTE_VERSION,
+      recordedAt: new Date().toISOString(),
+      ...entry
+    };
+
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(this.pathFor(entry.key), JSON.stringify(record, null, 2) + "\n");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new PRAutomatorError("ai", `Failed to write cassette ${entry.key}: ${message}`, {
+        key: entry.key,
+        dir: this.dir,
+        error
+      });
+    }
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
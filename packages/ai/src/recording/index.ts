@@ -0,0 +1,4 @@
+export { Cassette, DEFAULT_CASSETTE_DIR } from "./cassette";
+export type { CassetteEntry } from "./cassette";
+export { RecordingProvider } from "./provider";
+export type { RecordingMode, RecordingOptions } from "./provider";
@@ -0,0 +1,126 @@
+import { PRAutomatorError } from "@automate-pr/core/error";
+import {
+  AIProvider,
+  ChatMessage,
+  CompletionChunk,
+  CompletionResult,
+  ProviderName,
+  TextChunk,
+  UsageChunk
+} from "../providers/types";
+import { Cassette, CassetteEntry, DEFAULT_CASSETTE_DIR } from "./cassette";
+
+export type RecordingMode = "record" | "replay";
+
+export interface RecordingOptions {
+  mode: RecordingMode;
+  /** @default .automate-pr/cassettes */
+  cassetteDir?: string;
+}
+
+/**
+ * Wraps a provider to record every completion to a cassette, or to serve
+ * completions from one without touching the network
+ */
+export class RecordingProvider implements AIProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly maxTokens: number;
+
+  private readonly cassette: Cassette;
+  private readonly mode: RecordingMode;
+
+  constructor(
+    private readonly provider: AIProvider,
+    options: RecordingOptions
+  ) {
+    this.name = provider.name;
+    this.model = provider.model;
+    this.maxTokens = provider.maxTokens;
+    this.mode = options.mode;
+    this.cassette = new Cassette(options.cassetteDir ?? DEFAULT_CASSETTE_DIR);
+  }
+
+  async complete(messages: ChatMessage[]): Promise<CompletionResult> {
+    const key = Cassette.keyFor(messages);
+
+    if (this.mode === "replay") {
+      const entry = await this.replay(key);
+      return entry.result;
+    }
+
+    const result = await this.provider.complete(messages);
+    await this.record(key, messages, result);
+    return result;
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncGenerator<CompletionChunk> {
+    const key = Cassette.keyFor(messages);
+
+    if (this.mode === "replay") {
+      const entry = await this.replay(key);
+      for (const chunk of entry.chunks ?? this.toChunks(entry.result)) {
+        yield chunk;
+      }
+      return;
+    }
+
+    const chunks: CompletionChunk[] = [];
+    for await (const chunk of this.provider.stream(messages)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+
+    await this.record(key, messages, this.toResult(chunks), chunks);
+  }
+
+  private async replay(key: string): Promise<CassetteEntry> {
+    const entry = await this.cassette.load(key);
+    if (!entry) {
+      throw new PRAutomatorError(
+        "ai",
+        `No recorded response for request ${key}. Run with --record to capture it.`,
+        { key, code: "CASSETTE_MISS" }
+      );
+    }
+    return entry;
+  }
+
+  private async record(
+    key: string,
+    messages: ChatMessage[],
+    result: CompletionResult,
+    chunks?: CompletionChunk[]
+  ): Promise<void> {
+    await this.cassette.save({
+      key,
+      provider: this.name,
+      model: this.model,
+      messages,
+      result,
+      ...(chunks && { chunks })
+    });
+  }
+
+  private toResult(chunks: CompletionChunk[]): CompletionResult {
+    const text = chunks.filter((chunk): chunk is TextChunk => chunk.type !== "usage");
+    const join = (type: TextChunk["type"]) =>
+      text.filter(chunk => chunk.type === type).map(chunk => chunk.delta).join("");
+
+    const reasoning = join("reasoning");
+    const usage = chunks.find((chunk): chunk is UsageChunk => chunk.type === "usage")?.usage;
+    return {
+      content: join("content"),
+      ...(reasoning && { reasoning }),
+      ...(usage && { usage })
+    };
+  }
+
+  private toChunks(result: CompletionResult): CompletionChunk[] {
+    return [
+      ...(result.reasoning ? [{ type: "reasoning" as const, delta: result.reasoning }] : []),
+      { type: "content", delta: result.content },
+      ...(result.usage ? [{ type: "usage" as const, usage: result.usage }] : [])
+    ];
+  }
+}
@@ -0,0 +1,52 @@
+import { PRPlan } from "@automate-pr/types";
+
+export type PlanFile = PRPlan["files"][number];
+
+export interface PlanDiff {
+  added: PlanFile[];
+  removed: PlanFile[];
+  /** Files present in both plans whose change differs, as in the newer plan */
+  changed: PlanFile[];
+  title?: { from: string; to: string };
+  descriptionChanged: boolean;
+}
+
+/**
+ * Compare two iterations of a plan by file path
+ */
+export function diffPlans(previous: PRPlan, next: PRPlan): PlanDiff {
+  const before = new Map(previous.files.map(file => [file.path, file]));
+  const after = new Map(next.files.map(file => [file.path, file]));
+
+  return {
+    added: next.files.filter(file => !before.has(file.path)),
+    removed: previous.files.filter(file => !after.has(file.path)),
+    changed: next.files.filter(file => {
+      const old = before.get(file.path);
+      return old !== undefined && !isSameChange(old, file);
+    }),
+    ...(previous.pr.title !== next.pr.title && {
+      title: { from: previous.pr.title, to: next.pr.title }
+    }),
+    descriptionChanged: previous.pr.description !== next.pr.description
+  };
+}
+
+/**
+ * Whether a diff between iterations contains no changes at all
+ */
+export function isEmptyPlanDiff(diff: PlanDiff): boolean {
+  return diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0 &&
+    !diff.title &&
+    !diff.descriptionChanged;
+}
+
+function isSameChange(a: PlanFile, b: PlanFile): boolean {
+  return a.action === b.action &&
+    a.content === b.content &&
+    a.diff === b.diff &&
+    a.oldPath === b.oldPath &&
+    a.mode === b.mode;
+}
@@ -0,0 +1,4 @@
+export { diffPlans, isEmptyPlanDiff } from "./diff";
+export type { PlanDiff, PlanFile } from "./diff";
+export { PlanSession } from "./session";
+export type { GeneratedPlan, PlanGenerator, PlanIteration } from "./session";
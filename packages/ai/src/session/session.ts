@@ -0,0 +1,79 @@
+import { PRPlan } from "@automate-pr/types";
+import { PRAutomatorError } from "@automate-pr/core/error";
+import { ChatMessage } from "../providers/types";
+import { diffPlans, PlanDiff } from "./diff";
+
+export interface GeneratedPlan {
+  plan: PRPlan;
+  /** The model output the plan was parsed from */
+  content: string;
+}
+
+export interface PlanIteration {
+  /** Follow-up instruction that produced this plan; absent for the first plan */
+  instruction?: string;
+  plan: PRPlan;
+}
+
+/**
+ * Runs a conversation against the model and parses its final answer
+ */
+export type PlanGenerator = (messages: ChatMessage[]) => Promise<GeneratedPlan>;
+
+/**
+ * A plan under refinement. Each follow-up instruction is sent as another turn
+ * in the same conversation, so the model keeps the repository context and
+ * its previous answer.
+ */
+export class PlanSession {
+  private readonly messages: ChatMessage[];
+  private readonly history: PlanIteration[];
+
+  constructor(
+    private readonly generate: PlanGenerator,
+    messages: ChatMessage[],
+    initial: GeneratedPlan
+  ) {
+    this.messages = [...messages, { role: "assistant", content: initial.content }];
+    this.history = [{ plan: initial.plan }];
+  }
+
+  /**
+   * The latest plan
+   */
+  get plan(): PRPlan {
+    return this.history[this.history.length - 1].plan;
+  }
+
+  get iterations(): readonly PlanIteration[] {
+    return this.history;
+  }
+
+  /**
+   * Ask the model to revise the current plan, returning what changed
+   */
+  async refine(instruction: string): Promise<PlanDiff> {
+    if (!instruction?.trim()) {
+      throw PRAutomatorError.user("Refinement instruction cannot be empty");
+    }
+
+    const turn: ChatMessage = { role: "user", content: this.buildRefinePrompt(instruction) };
+    const next = await this.generate([...this.messages, turn]);
+
+    // Only the accepted answer stays in the conversation, not repair rounds
+    this.messages.push(turn, { role: "assistant", content: next.content });
+
+    const previous = this.plan;
+    this.history.push({ instruction, plan: next.plan });
+    return diffPlans(previous, next.plan);
+  }
+
+  private buildRefinePrompt(instruction: string): string {
+    return [
+      "Revise your plan according to this instruction:",
+      instruction.trim(),
+      "",
+      "Return the complete updated plan, including files that did not change, in the same JSON format."
+    ].join("\n");
+  }
+}
@@ -0,0 +1,107 @@
+import { FileChange } from "@automate-pr/schema";
+
+type Container = {
+  type: "object" | "array";
+  /** Last key seen in this object, used to recognise the `files` array */
+  key?: string;
+  /** Start offset of the container in the buffered text */
+  start: number;
+};
+
+/**
+ * Incrementally scans streamed JSON content and surfaces entries of the
+ * top-level `files` array as soon as each one is complete, long before the
+ * whole response can be parsed.
+ */
+export class IncrementalPlanExtractor {
+  private text = "";
+  private position = 0;
+  private started = false;
+  private inString = false;
+  private escaped = false;
+  private stringStart = 0;
+  private lastString?: string;
+  private readonly stack: Container[] = [];
+
+  /**
+   * Feed a content delta, returning any file entries completed by it
+   */
+  push(delta: string): FileChange[] {
+    this.text += delta;
+    const files: FileChange[] = [];
+
+    if (!this.started) {
+      // Skip any prose or code fence before the JSON object
+      const fence = this.text.indexOf("```");
+      const brace = this.text.indexOf("{", fence === -1 ? 0 : fence);
+      if (brace === -1) return files;
+      this.position = brace;
+      this.started = true;
+    }
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === "\"") {
+          this.inString = false;
+          this.lastString = this.text.slice(this.stringStart + 1, this.position);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case "\"":
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case ":": {
+          const top = this.stack[this.stack.length - 1];
+          if (top?.type === "object") top.key = this.lastString;
+          break;
+        }
+        case "{":
+        case "[":
+          this.stack.push({
+            type: char === "{" ? "object" : "array",
+            start: this.position
+          });
+          break;
+        case "}":
+        case "]": {
+          const closed = this.stack.pop();
+          if (closed && this.isFileEntry(closed)) {
+            const file = this.parseEntry(closed.start);
+            if (file) files.push(file);
+          }
+          break;
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * True for objects directly inside the root object's `files` array
+   */
+  private isFileEntry(container: Container): boolean {
+    if (container.type !== "object" || this.stack.length !== 2) return false;
+
+    const [root, parent] = this.stack;
+    return root.type === "object" && root.key === "files" && parent.type === "array";
+  }
+
+  private parseEntry(start: number): FileChange | undefined {
+    try {
+      const entry = JSON.parse(this.text.slice(start, this.position + 1));
+      return typeof entry?.path === "string" ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Split a byte stream into lines, tolerating chunks that end mid-line
+ */
+export async function* readLines(
+  body: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of body) {
+    buffer += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+/**
+ * Read the `data:` payloads of a server-sent events stream
+ */
+export async function* readServerSentEvents(
+  body: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<string> {
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === "") {
+      // A blank line terminates the event
+      if (data.length > 0) {
+        yield data.join("\n");
+        data = [];
+      }
+      continue;
+    }
+
+    if (line.startsWith("data:")) {
+      data.push(line.slice(5).replace(/^ /, ""));
+    }
+    // Comments (":"), event names and ids carry nothing we need
+  }
+
+  if (data.length > 0) {
+    yield data.join("\n");
+  }
+}
@@ -0,0 +1,71 @@
+import { TextChunk } from "../providers/types";
+
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+/**
+ * Separates inline `<think>...</think>` reasoning from answer content in a
+ * streamed completion, holding back partial tags split across deltas
+ */
+export class ThinkTagSplitter {
+  private buffer = "";
+  private state: "start" | "reasoning" | "content" = "start";
+
+  push(delta: string): TextChunk[] {
+    this.buffer += delta;
+    const chunks: TextChunk[] = [];
+
+    if (this.state === "start") {
+      const trimmed = this.buffer.trimStart();
+      if (trimmed.length < OPEN_TAG.length && OPEN_TAG.startsWith(trimmed)) {
+        return chunks;
+      }
+      if (trimmed.startsWith(OPEN_TAG)) {
+        this.state = "reasoning";
+        this.buffer = trimmed.slice(OPEN_TAG.length);
+      } else {
+        this.state = "content";
+      }
+    }
+
+    if (this.state === "reasoning") {
+      const end = this.buffer.indexOf(CLOSE_TAG);
+      if (end === -1) {
+        // Keep a possible partial closing tag for the next delta
+        const safe = this.buffer.length - (CLOSE_TAG.length - 1);
+        if (safe > 0) {
+          chunks.push({ type: "reasoning", delta: this.buffer.slice(0, safe) });
+          this.buffer = this.buffer.slice(safe);
+        }
+        return chunks;
+      }
+
+      if (end > 0) {
+        chunks.push({ type: "reasoning", delta: this.buffer.slice(0, end) });
+      }
+      this.state = "content";
+      this.buffer = this.buffer.slice(end + CLOSE_TAG.length).trimStart();
+    }
+
+    if (this.buffer) {
+      chunks.push({ type: "content", delta: this.buffer });
+      this.buffer = "";
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Emit whatever is still held back once the stream ends
+   */
+  flush(): TextChunk[] {
+    if (!this.buffer) return [];
+
+    const chunk: TextChunk = {
+      type: this.state === "reasoning" ? "reasoning" : "content",
+      delta: this.buffer
+    };
+    this.buffer = "";
+    return [chunk];
+  }
+}
@@ -0,0 +1,4 @@
+export { calculateCost, DEFAULT_PRICES, resolvePrice } from "./pricing";
+export type { ModelPrice, PriceTable } from "./pricing";
+export { UsageTracker } from "./tracker";
+export type { UsageRecord, UsageSummary, UsageTrackerOptions } from "./tracker";
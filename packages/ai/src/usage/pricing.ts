@@ -0,0 +1,45 @@
+import { ProviderName, TokenUsage } from "../providers/types";
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices keyed by `provider/model`, a bare model name, or `provider/*`
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  "deepseek/deepseek-r1": { input: 0.55, output: 2.19 },
+  "deepseek/deepseek-reasoner": { input: 0.55, output: 2.19 },
+  "deepseek/deepseek-chat": { input: 0.27, output: 1.1 },
+  "openai/gpt-4o": { input: 2.5, output: 10 },
+  "openai/gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "openai/gpt-4.1": { input: 2, output: 8 },
+  "openai/o3-mini": { input: 1.1, output: 4.4 },
+  // Local models cost nothing per token
+  "ollama/*": { input: 0, output: 0 }
+};
+
+/**
+ * Find the price for a model, most specific key first
+ */
+export function resolvePrice(
+  prices: PriceTable,
+  provider: ProviderName,
+  model: string
+): ModelPrice | undefined {
+  return prices[`${provider}/${model}`] ?? prices[model] ?? prices[`${provider}/*`];
+}
+
+/**
+ * Cost of a completion in USD. Reasoning tokens are part of the completion
+ * count, so they are not charged twice.
+ */
+export function calculateCost(usage: Pick<TokenUsage, "promptTokens" | "completionTokens">, price: ModelPrice): number {
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
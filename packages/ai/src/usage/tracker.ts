@@ -0,0 +1,126 @@
+import { PRAutomatorError } from "@automate-pr/core/error";
+import { ProviderName, TokenUsage } from "../providers/types";
+import { calculateCost, DEFAULT_PRICES, PriceTable, resolvePrice } from "./pricing";
+
+export interface UsageRecord extends TokenUsage {
+  provider: ProviderName;
+  model: string;
+  /** Undefined when the model has no known price */
+  costUsd?: number;
+  /** Counted locally because the provider did not report usage */
+  estimated: boolean;
+}
+
+export interface UsageSummary {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  costUsd: number;
+  /** Models that were called but could not be priced */
+  unpriced: string[];
+  estimated: boolean;
+}
+
+export interface UsageTrackerOptions {
+  /**
+   * Overrides merged on top of DEFAULT_PRICES
+   */
+  prices?: PriceTable;
+  /**
+   * Abort before a call that would take the total spend over this amount
+   */
+  budgetUsd?: number;
+}
+
+/**
+ * Accumulates token usage and cost across every model call in a run,
+ * including repair rounds
+ */
+export class UsageTracker {
+  private readonly records: UsageRecord[] = [];
+  private readonly prices: PriceTable;
+  private readonly budgetUsd?: number;
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.prices = { ...DEFAULT_PRICES, ...options.prices };
+    this.budgetUsd = options.budgetUsd;
+  }
+
+  get spentUsd(): number {
+    return this.records.reduce((total, record) => total + (record.costUsd ?? 0), 0);
+  }
+
+  record(
+    provider: ProviderName,
+    model: string,
+    usage: TokenUsage,
+    estimated = false
+  ): UsageRecord {
+    const price = resolvePrice(this.prices, provider, model);
+    const record: UsageRecord = {
+      provider,
+      model,
+      ...usage,
+      ...(price && { costUsd: calculateCost(usage, price) }),
+      estimated
+    };
+
+    this.records.push(record);
+    return record;
+  }
+
+  /**
+   * Throw if a call could take the total spend over the budget. The call is
+   * priced at its worst case, the prompt plus `maxTokens` of output.
+   */
+  assertWithinBudget(provider: ProviderName, model: string, promptTokens: number, maxTokens: number): void {
+    if (this.budgetUsd === undefined) return;
+
+    const price = resolvePrice(this.prices, provider, model);
+    if (!price) {
+      // Spend on an unpriced model would never count against the budget
+      throw PRAutomatorError.user(
+        `An AI budget is set but ${provider}/${model} has no known price; add one to AI_PRICES`,
+        { code: "BUDGET_MODEL_UNPRICED", provider, model }
+      );
+    }
+    const nextCost = calculateCost({ promptTokens, completionTokens: maxTokens }, price);
+    const spent = this.spentUsd;
+
+    if (spent + nextCost > this.budgetUsd) {
+      throw new PRAutomatorError(
+        "ai",
+        `AI budget of $${this.budgetUsd.toFixed(2)} exceeded ` +
+          `($${spent.toFixed(4)} spent, next call needs ~$${nextCost.toFixed(4)})`,
+        { code: "BUDGET_EXCEEDED", budgetUsd: this.budgetUsd, spentUsd: spent }
+      );
+    }
+  }
+
+  summary(): UsageSummary {
+    const unpriced = new Set<string>();
+    const summary: UsageSummary = {
+      calls: this.records.length,
+      promptTokens: 0,
+      completionTokens: 0,
+      reasoningTokens: 0,
+      costUsd: 0,
+      unpriced: [],
+      estimated: false
+    };
+
+    for (const record of this.records) {
+      summary.promptTokens += record.promptTokens;
+      summary.completionTokens += record.completionTokens;
+      summary.reasoningTokens += record.reasoningTokens;
+      summary.costUsd += record.costUsd ?? 0;
+      summary.estimated ||= record.estimated;
+      if (record.costUsd === undefined) {
+        unpriced.add(`${record.provider}/${record.model}`);
+      }
+    }
+
+    return { ...summary, unpriced: [...unpriced] };
+  }
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { CredentialVault, PRAutomatorError } from "@automate-pr/core";
 import { TokenManager } from "../../auth/token-manager";
 
@@ -187,4 +187,68 @@ describe("TokenManager", () => {
       });
     });
   });
-}); 
\ No newline at end of file
+}); 
+describe("TokenManager.fromToken", () => {
+  const epoch = 1_700_000_000;
+
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset();
+    vi.mocked(CredentialVault).mockClear();
+    vi.useFakeTimers({ now: epoch * 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("uses the given token without storing it", async () => {
+    const manager = await TokenManager.fromToken("env-token");
+    const request = vi.fn().mockResolvedValue({ status: 200, headers: {} });
+
+    await manager.executeRequest(request);
+
+    expect(request).toHaveBeenCalledWith("env-token");
+    expect(CredentialVault).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("waits for the reset the response headers announce", async () => {
+    const manager = await TokenManager.fromToken("env-token");
+    const request = vi.fn().mockResolvedValue({
+      status: 200,
+      headers: {
+        "x-ratelimit-limit": "5000",
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": String(epoch + 60)
+      }
+    });
+    await manager.executeRequest(request);
+
+    let done = false;
+    const next = manager.executeRequest(request).then(() => {
+      done = true;
+    });
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(31_000);
+    await next;
+
+    expect(done).toBe(true);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("treats a forbidden response with no requests left as a rate limit", async () => {
+    const forbidden = (remaining: string) => ({
+      response: { status: 403, headers: { "x-ratelimit-remaining": remaining, "x-ratelimit-reset": String(epoch) } }
+    });
+    const exhausted = await TokenManager.fromToken("env-token");
+    const denied = await TokenManager.fromToken("env-token");
+
+    await expect(exhausted.executeRequest(vi.fn().mockRejectedValue(forbidden("0"))))
+      .rejects.toThrow("Rate limit exceeded");
+    await expect(denied.executeRequest(vi.fn().mockRejectedValue(forbidden("4999"))))
+      .rejects.toEqual(forbidden("4999"));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
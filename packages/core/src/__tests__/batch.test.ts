@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { readBatchManifest, runBatch, writeBatchReport } from "../batch";
+import { DEFAULT_RUN_DIR, RunStore } from "../run-store";
+
+describe("batch", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "batch-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const writeManifest = async (yaml: string) => {
+    const file = path.join(dir, "manifest.yml");
+    await writeFile(file, yaml);
+    return file;
+  };
+
+  describe("readBatchManifest", () => {
+    it("expands repositories and prompts into jobs", async () => {
+      const file = await writeManifest([
+        "concurrency: 2",
+        "prompt: Add a license header",
+        "repos:",
+        "  - service-a",
+        "  - path: ../service-b",
+        "    prompt:",
+        "      - Bump the Node version",
+        "      - Enable strict mode"
+      ].join("\n"));
+
+      await expect(readBatchManifest(file)).resolves.toEqual({
+        concurrency: 2,
+        jobs: [
+          { repoPath: path.join(dir, "service-a"), prompt: "Add a license header" },
+          { repoPath: path.resolve(dir, "../service-b"), prompt: "Bump the Node version" },
+          { repoPath: path.resolve(dir, "../service-b"), prompt: "Enable strict mode" }
+        ]
+      });
+    });
+
+    it("needs a prompt for every repository", async () => {
+      const file = await writeManifest("repos:\n  - service-a\n");
+
+      await expect(readBatchManifest(file)).rejects.toThrow(/no prompt for service-a/);
+    });
+
+    it("reports schema errors with their path", async () => {
+      const file = await writeManifest("prompt: x\nconcurrency: 0\nrepos: []\n");
+
+      await expect(readBatchManifest(file)).rejects.toThrow(/Invalid batch manifest .*concurrency/);
+    });
+  });
+
+  describe("runBatch", () => {
+    it("runs at most `concurrency` jobs at once and records failures", async () => {
+      const jobs = ["a", "b", "c", "d"].map(name => ({ repoPath: path.join(dir, name), prompt: `Fix ${name}` }));
+      let active = 0;
+      let peak = 0;
+
+      const report = await runBatch({ concurrency: 2, jobs }, async job => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        if (job.prompt === "Fix c") {
+          throw new Error("Target branch 'main' is protected");
+        }
+        return `https://github.com/acme/${path.basename(job.repoPath)}/pull/1`;
+      });
+
+      expect(peak).toBe(2);
+      expect(report.results.map(result => result.status)).toEqual(["succeeded", "succeeded", "failed", "succeeded"]);
+      expect(report.results[0].url).toBe("https://github.com/acme/a/pull/1");
+      expect(report.results[2]).toMatchObject({
+        error: "Target branch 'main' is protected",
+        runId: expect.any(String)
+      });
+    });
+
+    it("refuses a concurrency that would start no workers", async () => {
+      const jobs = [{ repoPath: path.join(dir, "a"), prompt: "Fix a" }];
+      const execute = vi.fn();
+
+      for (const concurrency of [0, -1, 1.5, Number.NaN]) {
+        await expect(runBatch({ concurrency: 2, jobs }, execute, { concurrency }))
+          .rejects.toThrow("Batch concurrency must be a positive integer");
+      }
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it("checkpoints each job's run in its repository", async () => {
+      const repoPath = path.join(dir, "service");
+      const report = await runBatch(
+        { concurrency: 1, jobs: [{ repoPath, prompt: "Add a header" }] },
+        async (job, run) => {
+          await run.complete("plan");
+          return "https://github.com/acme/service/pull/7";
+        }
+      );
+
+      const run = await new RunStore(path.join(repoPath, DEFAULT_RUN_DIR)).load(report.results[0].runId!);
+      expect(run.state).toMatchObject({ prompt: "Add a header", stage: "plan" });
+    });
+  });
+
+  it("writes the report as JSON", async () => {
+    const file = path.join(dir, "reports", "batch.json");
+    const report = { startedAt: "a", finishedAt: "b", results: [] };
+
+    await writeBatchReport(file, report);
+
+    expect(JSON.parse(await readFile(file, "utf-8"))).toEqual(report);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { applyHunks, parsePatch } from "../../diff";
+
+const source = [
+  "import { a } from \"./a\";",
+  "import { b } from \"./b\";",
+  "",
+  "export function main() {",
+  "  const x = a();",
+  "  const y = b();",
+  "  return x + y;",
+  "}",
+  "",
+  "export function helper() {",
+  "  return 42;",
+  "}",
+  ""
+].join("\n");
+
+function hunks(diff: string) {
+  return parsePatch(diff)[0].hunks;
+}
+
+describe("applyHunks", () => {
+  it("applies hunks at their stated positions", () => {
+    const result = applyHunks(source, hunks([
+      "@@ -4,4 +4,4 @@",
+      " export function main() {",
+      "   const x = a();",
+      "-  const y = b();",
+      "+  const y = b() * 2;",
+      "   return x + y;",
+      "@@ -10,3 +10,4 @@",
+      " export function helper() {",
+      "-  return 42;",
+      "+  // The answer",
+      "+  return 42;",
+      " }"
+    ].join("\n")));
+
+    expect(result.ok).toBe(true);
+    expect(result.hunks).toEqual([
+      { index: 0, applied: true },
+      { index: 1, applied: true }
+    ]);
+    expect(result.content).toContain("  const y = b() * 2;\n");
+    expect(result.content).toContain("  // The answer\n  return 42;\n}\n");
+    expect(result.content.endsWith("}\n")).toBe(true);
+  });
+
+  it("finds hunks whose line numbers are off", () => {
+    const result = applyHunks(source, hunks([
+      "@@ -1,3 +1,3 @@",
+      " export function helper() {",
+      "-  return 42;",
+      "+  return 43;",
+      " }"
+    ].join("\n")));
+
+    expect(result.hunks[0]).toEqual({ index: 0, applied: true, offset: 9 });
+    expect(result.content).toContain("return 43;");
+  });
+
+  it("ignores mismatched outer context within the fuzz factor", () => {
+    const diff = [
+      "@@ -5,3 +5,3 @@",
+      "   const x = compute();",
+      "-  const y = b();",
+      "+  const y = c();",
+      "   return x + y;"
+    ].join("\n");
+
+    const strict = applyHunks(source, hunks(diff), { fuzz: 0 });
+    expect(strict.ok).toBe(false);
+    expect(strict.content).toBe(source);
+
+    const fuzzy = applyHunks(source, hunks(diff), { fuzz: 1 });
+    expect(fuzzy.hunks[0]).toEqual({ index: 0, applied: true, fuzz: 1 });
+    expect(fuzzy.content).toContain("  const x = a();\n  const y = c();\n");
+  });
+
+  it("does not place a hunk once fuzz has trimmed all of its context", () => {
+    const result = applyHunks(source, hunks([
+      "@@ -2,2 +2,3 @@",
+      " totally",
+      "+inserted",
+      " unrelated"
+    ].join("\n")), { fuzz: 2 });
+
+    expect(result.ok).toBe(false);
+    expect(result.hunks[0]).toEqual({
+      index: 0,
+      applied: false,
+      reason: "Context not found: line 2 is \"import { b } from \\\"./b\\\";\", expected \"totally\""
+    });
+    expect(result.content).toBe(source);
+  });
+
+  it("reports which hunks failed and why", () => {
+    const result = applyHunks(source, hunks([
+      "@@ -1,2 +1,2 @@",
+      "-import { a } from \"./a\";",
+      "+import { a } from \"./lib/a\";",
+      " import { b } from \"./b\";",
+      "@@ -6,1 +6,1 @@",
+      "-  const y = missing();",
+      "+  const y = found();"
+    ].join("\n")));
+
+    expect(result.ok).toBe(false);
+    expect(result.hunks[0]).toEqual({ index: 0, applied: true });
+    expect(result.hunks[1]).toMatchObject({ index: 1, applied: false });
+    expect(result.hunks[1].reason).toBe(
+      "Context not found: line 6 is \"  const y = b();\", expected \"  const y = missing();\""
+    );
+    expect(result.content).toContain("./lib/a");
+  });
+
+  it("respects the maximum offset", () => {
+    const diff = "@@ -1 +1 @@\n-  return 42;\n+  return 0;";
+
+    expect(applyHunks(source, hunks(diff), { maxOffset: 5 }).ok).toBe(false);
+    expect(applyHunks(source, hunks(diff), { maxOffset: 10 }).ok).toBe(true);
+  });
+
+  it("can ignore whitespace differences", () => {
+    const diff = "@@ -11 +11 @@\n-\treturn 42;\n+\treturn 7;";
+
+    expect(applyHunks(source, hunks(diff)).ok).toBe(false);
+    expect(applyHunks(source, hunks(diff), { ignoreWhitespace: true }).content)
+      .toContain("\treturn 7;\n");
+  });
+
+  it("handles missing newlines at end of file", () => {
+    const diff = [
+      "@@ -1,2 +1,2 @@",
+      " first",
+      "-second",
+      "\\ No newline at end of file",
+      "+changed"
+    ].join("\n");
+
+    expect(applyHunks("first\nsecond", hunks(diff)).content).toBe("first\nchanged\n");
+    expect(applyHunks("", hunks("@@ -0,0 +1 @@\n+only\n\\ No newline at end of file")).content)
+      .toBe("only");
+  });
+});
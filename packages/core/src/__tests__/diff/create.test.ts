@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { applyHunks, createPatch, diffLines, parsePatch } from "../../diff";
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe("diffLines", () => {
+  it("returns no hunks for identical content", () => {
+    expect(diffLines("a\nb\n", "a\nb\n")).toEqual([]);
+  });
+
+  it("surrounds changes with context and merges nearby ones", () => {
+    const before = lines(20);
+    const after = [...before];
+    after[4] = "changed 5";
+    after[9] = "changed 10";
+    after[18] = "changed 19";
+
+    const hunks = diffLines(`${before.join("\n")}\n`, `${after.join("\n")}\n`);
+
+    expect(hunks.map(({ oldStart, oldLines, newStart, newLines }) => [oldStart, oldLines, newStart, newLines]))
+      .toEqual([[2, 12, 2, 12], [16, 5, 16, 5]]);
+    expect(hunks[0].lines.filter(line => line.type !== "context")).toEqual([
+      { type: "delete", content: "line 5" },
+      { type: "add", content: "changed 5" },
+      { type: "delete", content: "line 10" },
+      { type: "add", content: "changed 10" }
+    ]);
+  });
+
+  it("uses empty ranges for created and deleted files", () => {
+    expect(diffLines("", "a\nb\n")[0]).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2 });
+    expect(diffLines("a\n", "")[0]).toMatchObject({ oldStart: 1, oldLines: 1, newStart: 0, newLines: 0 });
+  });
+
+  it("marks a missing final newline", () => {
+    expect(diffLines("a\nb", "a\nb\n")[0].lines).toEqual([
+      { type: "context", content: "a" },
+      { type: "delete", content: "b", noNewline: true },
+      { type: "add", content: "b" }
+    ]);
+  });
+});
+
+describe("createPatch", () => {
+  it("produces a patch that parses and applies back", () => {
+    const before = `${lines(30).join("\n")}\n`;
+    const after = before.replace("line 3\n", "").replace("line 25", "line twenty-five");
+
+    const patch = createPatch("src/a.ts", "src/a.ts", before, after);
+    const [parsed] = parsePatch(patch);
+
+    expect(patch.split("\n").slice(0, 4)).toEqual([
+      "diff --git a/src/a.ts b/src/a.ts",
+      "--- a/src/a.ts",
+      "+++ b/src/a.ts",
+      "@@ -1,6 +1,5 @@"
+    ]);
+    expect(parsed).toMatchObject({ type: "modify", additions: 1, deletions: 2 });
+    expect(applyHunks(before, parsed.hunks).content).toBe(after);
+  });
+
+  it("describes created files and pure renames", () => {
+    expect(createPatch(null, "src/new.ts", "", "x\n")).toBe([
+      "diff --git a/src/new.ts b/src/new.ts",
+      "--- /dev/null",
+      "+++ b/src/new.ts",
+      "@@ -0,0 +1 @@",
+      "+x"
+    ].join("\n"));
+    expect(createPatch("src/old.ts", "src/new.ts", "x\n", "x\n")).toBe([
+      "diff --git a/src/old.ts b/src/new.ts",
+      "rename from src/old.ts",
+      "rename to src/new.ts"
+    ].join("\n"));
+  });
+});
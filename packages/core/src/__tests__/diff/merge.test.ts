@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { matchLines, merge3 } from "../../diff";
+
+const base = ["a", "b", "c", "d", "e", ""].join("\n");
+
+describe("merge3", () => {
+  it("combines changes to different regions", () => {
+    const ours = base.replace("b", "B");
+    const theirs = base.replace("e", "E\nf");
+
+    expect(merge3(base, ours, theirs)).toEqual({
+      content: "a\nB\nc\nd\nE\nf\n",
+      conflicts: [],
+      clean: true
+    });
+  });
+
+  it("accepts identical changes from both sides", () => {
+    const changed = base.replace("c", "C");
+
+    expect(merge3(base, changed, changed).content).toBe(changed);
+  });
+
+  it("marks overlapping changes as conflicts", () => {
+    const result = merge3(base, base.replace("c", "ours"), base.replace("c", "theirs"), {
+      ours: "mine",
+      theirs: "main"
+    });
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual([{ line: 3, base: ["c"], ours: ["ours"], theirs: ["theirs"] }]);
+    expect(result.content).toBe([
+      "a",
+      "b",
+      "<<<<<<< mine",
+      "ours",
+      "||||||| base",
+      "c",
+      "=======",
+      "theirs",
+      ">>>>>>> main",
+      "d",
+      "e",
+      ""
+    ].join("\n"));
+  });
+
+  it("treats files added on both sides as a conflict", () => {
+    const result = merge3("", "export const a = 1;\n", "export const a = 2;\n");
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].base).toEqual([]);
+  });
+
+  it("keeps deletions from one side", () => {
+    expect(merge3(base, base.replace("d\n", ""), base).content).toBe("a\nb\nc\ne\n");
+  });
+
+  it("terminates conflict sides missing a final newline", () => {
+    const result = merge3("x", "y", "z");
+
+    expect(result.content).toBe("<<<<<<< ours\ny\n||||||| base\nx\n=======\nz\n>>>>>>> theirs\n");
+  });
+});
+
+describe("matchLines", () => {
+  it("finds a longest common subsequence", () => {
+    expect(matchLines(["a", "b", "c", "a", "b", "b", "a"], ["c", "b", "a", "b", "a", "c"]))
+      .toHaveLength(4);
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect } from "vitest";
+import { DiffParseError, formatHunk, parsePatch } from "../../diff";
+
+describe("parsePatch", () => {
+  it("parses a multi-file git patch", () => {
+    const patches = parsePatch([
+      "diff --git a/src/index.ts b/src/index.ts",
+      "index 83db48f..bf269f4 100644",
+      "--- a/src/index.ts",
+      "+++ b/src/index.ts",
+      "@@ -1,3 +1,3 @@ export function main() {",
+      " const a = 1;",
+      "-const b = 2;",
+      "+const b = 3;",
+      " const c = 4;",
+      "@@ -10,2 +10,3 @@",
+      " return a;",
+      "+// done",
+      " }",
+      "diff --git a/src/new.ts b/src/new.ts",
+      "new file mode 100644",
+      "index 0000000..e69de29",
+      "--- /dev/null",
+      "+++ b/src/new.ts",
+      "@@ -0,0 +1,2 @@",
+      "+export const created = true;",
+      "+export default created;",
+      "diff --git a/src/old.ts b/src/old.ts",
+      "deleted file mode 100755",
+      "index e69de29..0000000",
+      "--- a/src/old.ts",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-export const removed = true;",
+      ""
+    ].join("\n"));
+
+    expect(patches).toHaveLength(3);
+
+    const [modified, created, deleted] = patches;
+    expect(modified).toMatchObject({
+      type: "modify",
+      oldPath: "src/index.ts",
+      newPath: "src/index.ts",
+      oldHash: "83db48f",
+      newHash: "bf269f4",
+      oldMode: 0o100644,
+      additions: 2,
+      deletions: 1
+    });
+    expect(modified.hunks).toHaveLength(2);
+    expect(modified.hunks[0]).toMatchObject({
+      oldStart: 1,
+      oldLines: 3,
+      newStart: 1,
+      newLines: 3,
+      section: "export function main() {"
+    });
+    expect(modified.hunks[0].lines.map(line => line.type)).toEqual([
+      "context", "delete", "add", "context"
+    ]);
+
+    expect(created).toMatchObject({ type: "create", oldPath: null, newPath: "src/new.ts", newMode: 0o100644 });
+    expect(created.hunks[0].lines).toHaveLength(2);
+
+    expect(deleted).toMatchObject({ type: "delete", oldPath: "src/old.ts", newPath: null, oldMode: 0o100755 });
+    expect(deleted.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 1, newLines: 0 });
+  });
+
+  it("parses renames and copies with a similarity index", () => {
+    const patches = parsePatch([
+      "diff --git a/lib/util.ts b/src/util.ts",
+      "similarity index 92%",
+      "rename from lib/util.ts",
+      "rename to src/util.ts",
+      "index 1111111..2222222 100644",
+      "--- a/lib/util.ts",
+      "+++ b/src/util.ts",
+      "@@ -1 +1 @@",
+      "-export const version = 1;",
+      "+export const version = 2;",
+      "diff --git a/a.ts b/b.ts",
+      "similarity index 100%",
+      "copy from a.ts",
+      "copy to b.ts"
+    ].join("\n"));
+
+    expect(patches[0]).toMatchObject({
+      type: "rename",
+      oldPath: "lib/util.ts",
+      newPath: "src/util.ts",
+      similarity: 92
+    });
+    expect(patches[0].hunks).toHaveLength(1);
+    expect(patches[1]).toMatchObject({ type: "copy", oldPath: "a.ts", newPath: "b.ts", similarity: 100, hunks: [] });
+  });
+
+  it("parses mode changes and binary files", () => {
+    const patches = parsePatch([
+      "diff --git a/bin/run b/bin/run",
+      "old mode 100644",
+      "new mode 100755",
+      "diff --git a/logo.png b/logo.png",
+      "index 3333333..4444444 100644",
+      "Binary files a/logo.png and b/logo.png differ",
+      "diff --git a/icon.png b/icon.png",
+      "new file mode 100644",
+      "index 0000000..5555555",
+      "GIT binary patch",
+      "literal 12",
+      "zcmZ?wbhEHbRA^vu",
+      "",
+      "literal 0",
+      "HcmV?d00001",
+      ""
+    ].join("\n"));
+
+    expect(patches).toHaveLength(3);
+    expect(patches[0]).toMatchObject({ type: "modify", oldMode: 0o100644, newMode: 0o100755, hunks: [] });
+    expect(patches[1]).toMatchObject({ type: "modify", binary: true, newPath: "logo.png" });
+    expect(patches[2]).toMatchObject({ type: "create", binary: true, newPath: "icon.png", hunks: [] });
+  });
+
+  it("tracks missing newlines at end of file", () => {
+    const [patch] = parsePatch([
+      "--- a/README.md",
+      "+++ b/README.md",
+      "@@ -1,2 +1,2 @@",
+      " # Title",
+      "-old line",
+      "\\ No newline at end of file",
+      "+new line",
+      "\\ No newline at end of file"
+    ].join("\n"));
+
+    expect(patch.hunks[0].lines).toEqual([
+      { type: "context", content: "# Title" },
+      { type: "delete", content: "old line", noNewline: true },
+      { type: "add", content: "new line", noNewline: true }
+    ]);
+  });
+
+  it("handles plain multi-file diffs and bare hunks", () => {
+    const patches = parsePatch([
+      "--- a/one.ts\t2024-01-01 00:00:00",
+      "+++ b/one.ts\t2024-01-02 00:00:00",
+      "@@ -1 +1 @@",
+      "-1",
+      "+2",
+      "--- a/two.ts",
+      "+++ b/two.ts",
+      "@@ -1 +1 @@",
+      "-3",
+      "+4"
+    ].join("\n"));
+
+    expect(patches.map(patch => patch.newPath)).toEqual(["one.ts", "two.ts"]);
+    expect(parsePatch("@@ -1 +1 @@\n-old\n+new")).toMatchObject([
+      { type: "modify", oldPath: null, newPath: null, additions: 1, deletions: 1 }
+    ]);
+  });
+
+  it("does not count file headers as changes", () => {
+    const [patch] = parsePatch([
+      "--- a/config.ts",
+      "+++ b/config.ts",
+      "@@ -1,2 +1,2 @@",
+      "--- a/ separator",
+      "+++ b/ separator",
+      " keep"
+    ].join("\n"));
+
+    expect(patch.additions).toBe(1);
+    expect(patch.deletions).toBe(1);
+  });
+
+  it("starts the next file when a hunk over-counts its lines", () => {
+    const patches = parsePatch([
+      "--- a/x.ts",
+      "+++ b/x.ts",
+      "@@ -1,4 +1,4 @@",
+      "-x",
+      "+X",
+      "--- a/y.ts",
+      "+++ b/y.ts",
+      "@@ -1 +1 @@",
+      "-y",
+      "+Y"
+    ].join("\n"));
+
+    expect(patches.map(patch => patch.newPath)).toEqual(["x.ts", "y.ts"]);
+    expect(patches[0].hunks).toHaveLength(1);
+    expect(patches[0].hunks[0]).toMatchObject({
+      oldLines: 1,
+      newLines: 1,
+      lines: [{ type: "delete", content: "x" }, { type: "add", content: "X" }]
+    });
+    expect(patches[1].hunks[0].lines).toEqual([
+      { type: "delete", content: "y" },
+      { type: "add", content: "Y" }
+    ]);
+  });
+
+  it("recomputes hunk counts that do not match the lines", () => {
+    const [patch] = parsePatch([
+      "--- a/src/app.ts",
+      "+++ b/src/app.ts",
+      "@@ -1,2 +1,2 @@",
+      " const app = create();",
+      "",
+      "-app.listen(80);",
+      "+app.listen(8080);",
+      " export default app;"
+    ].join("\n"));
+
+    expect(patch.hunks[0]).toMatchObject({ oldLines: 4, newLines: 4 });
+    expect(patch.hunks[0].lines[1]).toEqual({ type: "context", content: "" });
+  });
+
+  it("ignores commit messages and signatures in format-patch output", () => {
+    const patches = parsePatch([
+      "From 1234567 Mon Sep 17 00:00:00 2001",
+      "Subject: [PATCH] Fix the thing",
+      "",
+      "- bullet in the commit message",
+      "---",
+      " src/a.ts | 2 +-",
+      "",
+      "diff --git a/src/a.ts b/src/a.ts",
+      "--- a/src/a.ts",
+      "+++ b/src/a.ts",
+      "@@ -1 +1 @@",
+      "-a",
+      "+b",
+      "-- ",
+      "2.43.0"
+    ].join("\n"));
+
+    expect(patches).toHaveLength(1);
+    expect(patches[0]).toMatchObject({ additions: 1, deletions: 1 });
+  });
+
+  it("rejects malformed hunk headers", () => {
+    expect(() => parsePatch("--- a/x\n+++ b/x\n@@ -a +b @@\n")).toThrow(DiffParseError);
+  });
+});
+
+describe("formatHunk", () => {
+  it("round-trips a parsed hunk", () => {
+    const text = [
+      "@@ -3,2 +3,3 @@ class App",
+      " a",
+      "+b",
+      " c",
+      "\\ No newline at end of file"
+    ].join("\n");
+
+    expect(formatHunk(parsePatch(text)[0].hunks[0])).toBe(text);
+  });
+});
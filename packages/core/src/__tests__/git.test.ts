@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { exec } from "child_process";
+import { access, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import { GitOperations } from "../git";
+
+const execAsync = promisify(exec);
+
+describe("GitOperations", () => {
+  let dir: string;
+  let repoPath: string;
+  let remotePath: string;
+
+  const git = async (command: string, cwd = repoPath) =>
+    (await execAsync(`git ${command}`, { cwd })).stdout.trim();
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "git-ops-"));
+    repoPath = path.join(dir, "repo");
+    remotePath = path.join(dir, "remote.git");
+    await git(`init -q --bare ${remotePath}`, dir);
+    await git(`init -q -b main ${repoPath}`, dir);
+    await git("config user.name test");
+    await git("config user.email test@example.com");
+    await git(`remote add origin ${remotePath}`);
+    await writeFile(path.join(repoPath, "README.md"), "# Demo\n");
+    await writeFile(path.join(repoPath, "old.ts"), "export {};\n");
+    await git("add -A");
+    await git("commit -q -m init");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("commits and pushes a new branch without touching the working copy", async () => {
+    await writeFile(path.join(repoPath, "README.md"), "# Work in progress\n");
+
+    const sha = await new GitOperations(repoPath).applyChanges([
+      { path: "src/health.ts", operation: "create", content: "export const ok = true;\n" },
+      { path: "old.ts", operation: "delete" }
+    ], "ai-pr/health");
+
+    expect(await git("rev-parse --abbrev-ref HEAD")).toBe("main");
+    expect(await git("status --porcelain")).toBe("M README.md");
+    await expect(readFile(path.join(repoPath, "README.md"), "utf-8")).resolves.toBe("# Work in progress\n");
+
+    expect(await git("rev-parse ai-pr/health", remotePath)).toBe(sha);
+    expect(await git("rev-parse ai-pr/health")).toBe(sha);
+    expect(await git(`ls-tree -r --name-only ${sha}`)).toBe("README.md\nsrc/health.ts");
+    expect(await git(`log -1 --format=%B ${sha}`)).toBe(
+      "Update 2 files\n\n- Add src/health.ts\n- Remove old.ts"
+    );
+    expect(await git("worktree list")).not.toContain("automate-pr-");
+    await expect(access(path.join(repoPath, ".git", "staging"))).rejects.toThrow();
+  });
+
+  it("adds to an existing branch with the given message", async () => {
+    const operations = new GitOperations(repoPath);
+    const first = await operations.applyChanges(
+      [{ path: "a.ts", operation: "create", content: "a\n" }],
+      "feature"
+    );
+
+    const second = await operations.applyChanges(
+      [{ path: "a.ts", operation: "modify", content: "b\n" }],
+      "feature",
+      { message: "fix: use b", author: { name: "Bot", email: "bot@example.com" } }
+    );
+
+    expect(await git(`rev-parse ${second}^`)).toBe(first);
+    expect(await git(`log -1 --format=%an%n%s ${second}`)).toBe("Bot\nfix: use b");
+    expect(await git(`show ${second}:a.ts`)).toBe("b");
+  });
+
+  it("commits symlinks as links", async () => {
+    const sha = await new GitOperations(repoPath).applyChanges([
+      { path: "docs/README.md", operation: "create", content: "../README.md", mode: "120000" }
+    ], "feature");
+
+    expect(await git(`ls-tree ${sha} docs/README.md`)).toMatch(/^120000 blob /);
+    expect(await git(`show ${sha}:docs/README.md`)).toBe("../README.md");
+  });
+
+  it("reports why the changes failed when the worktree cannot be removed", async () => {
+    const operations = new GitOperations(repoPath);
+    const remove = operations.removeWorktree.bind(operations);
+    vi.spyOn(operations, "removeWorktree").mockImplementation(async worktree => {
+      await remove(worktree);
+      throw new Error("Permission denied");
+    });
+
+    await expect(operations.applyChanges([{ path: "a.ts", operation: "modify" }], "feature"))
+      .rejects.toThrow("Missing content for modify operation on a.ts");
+  });
+
+  it("leaves the branch alone on a dry run", async () => {
+    const head = await git("rev-parse HEAD");
+
+    await expect(new GitOperations(repoPath).applyChanges(
+      [{ path: "a.ts", operation: "create", content: "a\n" }],
+      "feature",
+      { dryRun: true }
+    )).resolves.toBe(head);
+
+    await expect(git("rev-parse --verify -q refs/heads/feature")).rejects.toThrow();
+    expect(await git("ls-remote --heads origin")).toBe("");
+  });
+
+  it("reads paths from the plan without passing them through a shell", async () => {
+    const marker = path.join(dir, "pwned");
+    const operations = new GitOperations(repoPath);
+
+    await expect(operations.getFileAt("HEAD", `src/$(touch ${marker}).ts`)).resolves.toBeNull();
+    await expect(access(marker)).rejects.toThrow();
+    await expect(operations.getFileAt("HEAD", "README.md")).resolves.toBe("# Demo\n");
+  });
+
+  it("refuses to move the branch checked out in the working copy", async () => {
+    await expect(new GitOperations(repoPath).applyChanges(
+      [{ path: "a.ts", operation: "create", content: "a\n" }],
+      "main"
+    )).rejects.toThrow("Branch main is checked out; switch to another branch first");
+  });
+});
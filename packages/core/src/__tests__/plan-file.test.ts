@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { fingerprintContext, PlanFile, readPlanFile, writePlanFile } from "../plan-file";
+import { createTestContext } from "../../../../vitest.setup";
+
+const planFile: PlanFile = {
+  version: 1,
+  createdAt: "2024-03-01T12:00:00.000Z",
+  prompt: "Add a health check",
+  repository: { owner: "test-owner", repo: "test-repo" },
+  baseBranch: "main",
+  baseSha: "0000000base",
+  fingerprint: "abc",
+  plan: {
+    files: [{ path: "src/health.ts", action: "create", content: "export {};\n" }],
+    pr: { title: "feat: add health check", description: "Adds it", reviewers: [] }
+  },
+  findings: [{ type: "license", level: "warning", message: "Found license-related keyword: license" }]
+};
+
+describe("plan files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "plan-files-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips through disk", async () => {
+    const file = path.join(dir, "plan.json");
+    await writePlanFile(file, planFile);
+
+    expect(await readPlanFile(file)).toEqual(planFile);
+  });
+
+  it("rejects other versions", async () => {
+    const file = path.join(dir, "plan.json");
+    await writeFile(file, JSON.stringify({ ...planFile, version: 2 }));
+
+    await expect(readPlanFile(file)).rejects.toThrow(/Unsupported plan file version 2/);
+  });
+
+  it("reports what is wrong with an invalid file", async () => {
+    const file = path.join(dir, "plan.json");
+    await writeFile(file, JSON.stringify({ ...planFile, plan: { ...planFile.plan, files: [{ path: "a" }] } }));
+
+    await expect(readPlanFile(file)).rejects.toThrow(/Invalid plan file .*plan\.files\.0\.action Required/);
+  });
+
+  it("rejects paths outside the repository", async () => {
+    const file = path.join(dir, "plan.json");
+    const files = [
+      { path: "../outside.ts", action: "create", content: "" },
+      { path: "src/moved.ts", action: "rename", oldPath: "/etc/passwd" }
+    ];
+    await writeFile(file, JSON.stringify({ ...planFile, plan: { ...planFile.plan, files } }));
+
+    await expect(readPlanFile(file)).rejects.toThrow(
+      /plan\.files\.0\.path must be a relative path inside the repository.*plan\.files\.1\.oldPath must be/
+    );
+  });
+
+  it("fingerprints contexts independently of the checkout path", () => {
+    const context = createTestContext();
+
+    expect(fingerprintContext({ ...context, root: "/elsewhere" })).toBe(fingerprintContext(context));
+    expect(fingerprintContext({ ...context, baseSha: "1234567" })).not.toBe(fingerprintContext(context));
+  });
+
+  it("fingerprints the same repository checked out at different roots alike", () => {
+    const checkout = (root: string, branch: string) => ({
+      ...createTestContext(),
+      root,
+      branch,
+      files: [{ path: path.join(root, "src", "index.ts"), content: "export {};\n", size: 11, type: "file" as const }]
+    });
+
+    expect(fingerprintContext(checkout("/home/alice/repo", "main")))
+      .toBe(fingerprintContext(checkout("/ci/workspace/repo", "ai-pr/health")));
+    expect(fingerprintContext(checkout("/home/alice/repo", "main")))
+      .not.toBe(fingerprintContext({ ...checkout("/home/alice/repo", "main"), files: [] }));
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { loadPlugins } from "../../plugins";
+
+describe("loadPlugins", () => {
+  let root: string;
+
+  const writeConfig = async (config: unknown) => {
+    await mkdir(path.join(root, ".automate-pr"), { recursive: true });
+    await writeFile(path.join(root, ".automate-pr", "config.json"), JSON.stringify(config));
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "plugins-"));
+    await mkdir(path.join(root, "tools"));
+    await writeFile(
+      path.join(root, "tools", "jira.mjs"),
+      "export default options => ({ name: `jira:${options.project}`, hooks: {} });\n"
+    );
+    await writeFile(
+      path.join(root, "tools", "policy.mjs"),
+      "export default { name: \"policy\", rules: [] };\n"
+    );
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("loads nothing without a config file", async () => {
+    await expect(loadPlugins(root)).resolves.toEqual([]);
+  });
+
+  it("loads plugin objects and factories in config order", async () => {
+    await writeConfig({
+      plugins: [
+        { module: "./tools/jira.mjs", options: { project: "ABC" } },
+        "./tools/policy.mjs"
+      ]
+    });
+
+    const plugins = await loadPlugins(root);
+
+    expect(plugins.map(plugin => plugin.name)).toEqual(["jira:ABC", "policy"]);
+  });
+
+  it("reports modules that cannot be loaded", async () => {
+    await writeConfig({ plugins: ["./tools/missing.mjs"] });
+
+    await expect(loadPlugins(root)).rejects.toThrow(/Failed to load plugin \.\/tools\/missing\.mjs/);
+  });
+
+  it("rejects modules that do not export a plugin", async () => {
+    await writeFile(path.join(root, "tools", "empty.mjs"), "export default {};\n");
+    await writeConfig({ plugins: ["./tools/empty.mjs"] });
+
+    await expect(loadPlugins(root)).rejects.toThrow("Plugin ./tools/empty.mjs does not export a plugin with a name");
+  });
+
+  it("validates the config file", async () => {
+    await writeConfig({ plugins: [42] });
+
+    await expect(loadPlugins(root)).rejects.toThrow(/Invalid config .*config\.json: plugins\.0/);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { RunStore } from "../run-store";
+
+describe("RunStore", () => {
+  let dir: string;
+  let runs: RunStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "runs-"));
+    runs = new RunStore(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists every finished stage", async () => {
+    const run = await runs.start("Add a health check");
+    await run.complete("plan");
+    await run.complete("prepare");
+    await run.fail(new Error("Service unavailable"));
+
+    const loaded = await runs.load(run.id);
+
+    expect(loaded.state).toMatchObject({
+      prompt: "Add a health check",
+      status: "failed",
+      stage: "prepare",
+      error: "Service unavailable"
+    });
+    expect(loaded.completed("plan")).toBe(true);
+    expect(loaded.completed("prepare")).toBe(true);
+    expect(loaded.completed("branch")).toBe(false);
+  });
+
+  it("clears the error once the run moves on", async () => {
+    const run = await runs.start("Add a health check");
+    await run.fail(new Error("Service unavailable"));
+    await run.complete("plan");
+
+    const { state } = await runs.load(run.id);
+    expect(state.status).toBe("running");
+    expect(state.error).toBeUndefined();
+  });
+
+  it("reports unknown runs", async () => {
+    await expect(runs.load("missing")).rejects.toMatchObject({
+      type: "user",
+      metadata: expect.objectContaining({ code: "RUN_NOT_FOUND" })
+    });
+  });
+
+  it("rejects ids that are not plain names", async () => {
+    await expect(runs.load("../plan")).rejects.toThrow("Invalid run id ../plan");
+  });
+});
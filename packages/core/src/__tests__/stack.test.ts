@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { groupOf, partitionPlan } from "../stack";
+
+const file = (path: string, content = "") => ({ path, action: "modify" as const, content });
+
+describe("groupOf", () => {
+  it("groups monorepo files by package and others by top-level directory", () => {
+    expect(groupOf("packages/core/src/workflow.ts")).toBe("packages/core");
+    expect(groupOf("apps/cli/src/index.ts")).toBe("apps/cli");
+    expect(groupOf("src/utils/format.ts")).toBe("src");
+    expect(groupOf("README.md")).toBe(".");
+  });
+});
+
+describe("partitionPlan", () => {
+  it("keeps groups together and packs small ones into the same chunk", () => {
+    const files = [
+      file("docs/a.md"),
+      file("src/a.ts"),
+      file("src/b.ts"),
+      file("docs/b.md"),
+      file("README.md")
+    ];
+
+    expect(partitionPlan(files, 3)).toEqual([[0, 3], [1, 2, 4]]);
+  });
+
+  it("orders packages after the packages they import", () => {
+    const files = [
+      file("apps/cli/src/index.ts", "import { PRWorkflow } from \"@automate-pr/core\";\n"),
+      file("packages/core/src/workflow.ts", "import { helper } from \"../../utils/src/helper\";\n"),
+      file("packages/utils/src/helper.ts", "export const helper = 1;\n")
+    ];
+
+    expect(partitionPlan(files, 1)).toEqual([[2], [1], [0]]);
+  });
+
+  it("reads imports from the lines a diff adds", () => {
+    const files = [
+      {
+        path: "apps/web/src/page.ts",
+        action: "modify" as const,
+        diff: "--- a/apps/web/src/page.ts\n+++ b/apps/web/src/page.ts\n@@ -1 +1,2 @@\n+import { api } from \"@acme/api\";\n const page = 1;\n"
+      },
+      file("packages/api/src/index.ts")
+    ];
+
+    expect(partitionPlan(files, 1)).toEqual([[1], [0]]);
+  });
+
+  it("keeps plan order for import cycles", () => {
+    const files = [
+      file("packages/a/index.ts", "import \"@scope/b\";"),
+      file("packages/b/index.ts", "import \"@scope/a\";")
+    ];
+
+    expect(partitionPlan(files, 1)).toEqual([[0], [1]]);
+  });
+
+  it("slices groups larger than a chunk and packs the remainder", () => {
+    const files = [
+      ...["a", "b", "c", "d", "e"].map(name => file(`src/${name}.ts`)),
+      file("test/a.test.ts")
+    ];
+
+    expect(partitionPlan(files, 2)).toEqual([[0, 1], [2, 3], [4, 5]]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { exec } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import { describeFailures, detectVerifyCommands, verifyChanges, VerifyOptions } from "../verify";
+
+const execAsync = promisify(exec);
+
+const context: VerifyOptions["context"] = {
+  packageManager: "npm",
+  testFramework: "none",
+  settings: {
+    hasWorkflows: false,
+    hasTypeScript: false,
+    hasLinter: false,
+    hasFormatter: false,
+    defaultBranch: "main",
+    isMonorepo: false
+  }
+};
+
+describe("detectVerifyCommands", () => {
+  it("runs the repository's scripts in order", () => {
+    const scripts = { test: "vitest run", lint: "eslint .", "type-check": "tsc", build: "tsup" };
+
+    expect(detectVerifyCommands(scripts, { ...context, packageManager: "pnpm" })).toEqual([
+      { step: "build", command: "pnpm run build" },
+      { step: "typecheck", command: "pnpm run type-check" },
+      { step: "lint", command: "pnpm run lint" },
+      { step: "test", command: "pnpm run test" }
+    ]);
+  });
+
+  it("falls back to the detected tools", () => {
+    const scripts = { test: "echo \"Error: no test specified\" && exit 1" };
+
+    expect(detectVerifyCommands(scripts, {
+      packageManager: "bun",
+      testFramework: "vitest",
+      settings: { ...context.settings, hasTypeScript: true, hasLinter: true }
+    })).toEqual([
+      { step: "typecheck", command: "bunx tsc --noEmit" },
+      { step: "lint", command: "bunx eslint ." },
+      { step: "test", command: "bunx vitest run" }
+    ]);
+  });
+});
+
+describe("verifyChanges", () => {
+  let repoPath: string;
+
+  const git = async (command: string) => (await execAsync(`git ${command}`, { cwd: repoPath })).stdout.trim();
+
+  beforeEach(async () => {
+    repoPath = await mkdtemp(path.join(tmpdir(), "verify-"));
+    await writeFile(path.join(repoPath, "package.json"), JSON.stringify({
+      scripts: { test: "node test.js" }
+    }));
+    await writeFile(path.join(repoPath, "test.js"), [
+      "const { answer } = require(\"./answer\");",
+      "if (answer !== 42) { console.error(`expected 42, got ${answer}`); process.exit(1); }"
+    ].join("\n"));
+    await writeFile(path.join(repoPath, "answer.js"), "exports.answer = 41;\n");
+    await git("init -q");
+    await git("add -A");
+    await git("-c user.name=test -c user.email=test@example.com commit -q -m init");
+  });
+
+  afterEach(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("runs the checks on the changes without touching the working copy", async () => {
+    const failed = await verifyChanges(repoPath, [], { base: "HEAD", context, timeoutMs: 30000 });
+    const passed = await verifyChanges(
+      repoPath,
+      [{ action: "modify", path: "answer.js", content: "exports.answer = 42;\n" }],
+      { base: "HEAD", context, timeoutMs: 30000 }
+    );
+
+    expect(failed).toMatchObject({
+      passed: false,
+      results: [{ step: "test", command: "npm run test", passed: false, exitCode: 1, timedOut: false }]
+    });
+    expect(failed.results[0].output).toContain("expected 42, got 41");
+    expect(describeFailures(failed)).toContain("### test: `npm run test` (exit code 1)");
+    expect(passed).toMatchObject({ passed: true, results: [{ step: "test", passed: true }] });
+
+    await expect(readFile(path.join(repoPath, "answer.js"), "utf-8")).resolves.toBe("exports.answer = 41;\n");
+    await expect(git("status --porcelain")).resolves.toBe("");
+    await expect(git("worktree list")).resolves.not.toContain("automate-pr-");
+  });
+
+  it("checks symlinks as links", async () => {
+    const report = await verifyChanges(repoPath, [
+      { action: "create", path: "lib/answer.js", content: "exports.answer = 42;\n" },
+      { action: "modify", path: "answer.js", content: "lib/answer.js", mode: "120000" }
+    ], { base: "HEAD", context, timeoutMs: 30000 });
+
+    expect(report).toMatchObject({ passed: true, results: [{ step: "test", passed: true }] });
+  });
+
+  it("stops commands that run too long", async () => {
+    await writeFile(path.join(repoPath, "test.js"), "setTimeout(() => {}, 60000);\n");
+    await git("-c user.name=test -c user.email=test@example.com commit -q -am slow");
+
+    const report = await verifyChanges(repoPath, [], { base: "HEAD", context, timeoutMs: 500 });
+
+    expect(report.results[0]).toMatchObject({ passed: false, timedOut: true });
+  });
+});
@@ -0,0 +1,1132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { AIClient, AIProvider, RecordingProvider } from "@automate-pr/ai";
+import { IssueInfo, PullRequestInfo } from "@automate-pr/types";
+import { Config } from "../config";
+import { PRWorkflow, WorkflowGitHub } from "../workflow";
+import { GitOperations } from "../git";
+import { MergeConflictError } from "../diff";
+import { RepoAnalyzer } from "../repo-analyzer";
+import { RunStore } from "../run-store";
+import { WorkflowPlugin } from "../plugins";
+import { verifyChanges } from "../verify";
+import { createTestContext } from "../../../../vitest.setup";
+
+vi.mock("../git");
+vi.mock("../repo-analyzer");
+vi.mock("../verify", async importOriginal => ({
+  ...await importOriginal<typeof import("../verify")>(),
+  verifyChanges: vi.fn()
+}));
+
+const config: Config = {
+  GITHUB_TOKEN: "x".repeat(40),
+  AI_PROVIDER: "ollama",
+  AI_TEMPERATURE: 0.2,
+  AI_MAX_TOKENS: 4000,
+  DEFAULT_BRANCH: "main",
+  SAFETY_CHECKS: true,
+  GITHUB_API_URL: "https://api.github.com",
+  MAX_FILES_PER_PR: 50,
+  PATCH_FUZZ: 2,
+  PR_DRAFT_BY_DEFAULT: true,
+  VERIFY_CHANGES: false,
+  VERIFY_FIX_ROUNDS: 1,
+  VERIFY_TIMEOUT_MS: 600000,
+  VERIFY_ON_FAILURE: "draft",
+  LOG_LEVEL: "info"
+};
+
+const aiResponse = {
+  files: [
+    {
+      path: "src/health.ts",
+      action: "create",
+      content: "export const health = () => \"ok\";\n"
+    }
+  ],
+  pr: {
+    title: "add health check endpoint",
+    body: "Adds a health check used by the load balancer",
+    type: "feat",
+    breaking: false
+  },
+  reviewers: [],
+  metadata: {
+    confidence: 0.9,
+    reasoning: "Small additive change",
+    suggestedLabels: ["enhancement"],
+    estimatedComplexity: "low"
+  }
+};
+
+function createGitHub() {
+  return {
+    createBranch: vi.fn().mockResolvedValue(undefined),
+    commitFiles: vi.fn().mockResolvedValue(undefined),
+    createPullRequest: vi.fn().mockResolvedValue(42),
+    getBranchProtection: vi.fn().mockResolvedValue(false),
+    getFileContent: vi.fn().mockResolvedValue(null),
+    getBranchSha: vi.fn().mockResolvedValue("1111111aaaaaaa"),
+    deleteBranch: vi.fn().mockResolvedValue(true),
+    getPullRequest: vi.fn(),
+    findPullRequest: vi.fn(),
+    getPullRequestDiff: vi.fn(),
+    updatePullRequest: vi.fn().mockResolvedValue(undefined),
+    getReviewThreads: vi.fn().mockResolvedValue([]),
+    getIssue: vi.fn(),
+    replyToReviewComment: vi.fn().mockResolvedValue(undefined)
+  } satisfies WorkflowGitHub;
+}
+
+describe("PRWorkflow", () => {
+  let cassetteDir: string;
+  const live: AIProvider = {
+    name: "deepseek",
+    model: "deepseek-r1",
+    maxTokens: 4000,
+    complete: vi.fn(),
+    stream: vi.fn()
+  };
+
+  beforeEach(async () => {
+    cassetteDir = await mkdtemp(path.join(tmpdir(), "workflow-cassettes-"));
+
+    const { owner, repo, branch, root, ...analysis } = createTestContext();
+    vi.mocked(RepoAnalyzer.prototype.analyze).mockResolvedValue({ root, ...analysis });
+    vi.mocked(GitOperations.prototype.getRepoContext).mockResolvedValue({ owner, repo, branch, root });
+    vi.mocked(GitOperations.prototype.getRecentlyChangedFiles).mockResolvedValue([]);
+  });
+
+  afterEach(async () => {
+    await rm(cassetteDir, { recursive: true, force: true });
+    vi.mocked(live.complete).mockReset();
+  });
+
+  it("creates a PR end-to-end from a recorded model response", async () => {
+    // Record once against the "live" model...
+    vi.mocked(live.complete).mockResolvedValueOnce({
+      content: "```json\n" + JSON.stringify(aiResponse) + "\n```"
+    });
+    const recorder = new AIClient(new RecordingProvider(live, { mode: "record", cassetteDir }));
+    await new PRWorkflow(config, createGitHub(), recorder, "/test/repo")
+      .createPR("Add a health check");
+
+    // ...then replay the whole run offline
+    const github = createGitHub();
+    const player = new AIClient(new RecordingProvider(live, { mode: "replay", cassetteDir }));
+    const url = await new PRWorkflow(config, github, player, "/test/repo")
+      .createPR("Add a health check");
+
+    expect(url).toBe("https://github.com/test-owner/test-repo/pull/42");
+    expect(live.complete).toHaveBeenCalledTimes(1);
+    expect(github.commitFiles).toHaveBeenCalledWith(
+      expect.stringMatching(/^ai-pr\/add-a-health-check-/),
+      "feat: apply AI-generated changes",
+      [{ action: "create", path: "src/health.ts", content: "export const health = () => \"ok\";\n" }]
+    );
+    expect(github.createPullRequest).toHaveBeenCalledWith(expect.objectContaining({
+      title: "feat: add health check endpoint",
+      labels: ["enhancement"]
+    }));
+  });
+
+  it("fails when the prompt was never recorded", async () => {
+    const player = new AIClient(new RecordingProvider(live, { mode: "replay", cassetteDir }));
+    const workflow = new PRWorkflow(config, createGitHub(), player, "/test/repo");
+
+    await expect(workflow.createPR("Something new")).rejects.toThrow(/No recorded response/);
+  });
+
+  it("applies the plan accepted after refinement", async () => {
+    const withTest = {
+      ...aiResponse,
+      files: [
+        ...aiResponse.files,
+        { path: "src/health.test.ts", action: "create", content: "it.todo(\"health\");\n" }
+      ]
+    };
+    vi.mocked(live.complete)
+      .mockResolvedValueOnce({ content: "```json\n" + JSON.stringify(aiResponse) + "\n```" })
+      .mockResolvedValueOnce({ content: "```json\n" + JSON.stringify(withTest) + "\n```" });
+
+    const github = createGitHub();
+    const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+    await workflow.createPR("Add a health check", {
+      refine: async session => {
+        expect(github.createBranch).not.toHaveBeenCalled();
+        await session.refine("also add a test");
+      }
+    });
+
+    const [, , files] = github.commitFiles.mock.calls[0];
+    expect(files.map((file: { path: string }) => file.path)).toEqual([
+      "src/health.ts",
+      "src/health.test.ts"
+    ]);
+  });
+
+  it("does not touch GitHub when the plan is rejected", async () => {
+    vi.mocked(live.complete)
+      .mockResolvedValueOnce({ content: "```json\n" + JSON.stringify(aiResponse) + "\n```" });
+
+    const github = createGitHub();
+    const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+    await expect(workflow.createPR("Add a health check", {
+      refine: async () => {
+        throw new Error("Plan rejected");
+      }
+    })).rejects.toThrow(/Plan rejected/);
+    expect(github.createBranch).not.toHaveBeenCalled();
+  });
+
+  it("applies diffs to the file on the base branch", async () => {
+    const modify = {
+      ...aiResponse,
+      files: [{
+        path: "src/server.ts",
+        action: "modify",
+        diff: "@@ -2,2 +2,2 @@\n const app = express();\n-app.listen(80);\n+app.listen(8080);"
+      }]
+    };
+    vi.mocked(live.complete)
+      .mockResolvedValue({ content: "```json\n" + JSON.stringify(modify) + "\n```" });
+
+    const github = createGitHub();
+    github.getFileContent.mockResolvedValue("import express from \"express\";\nconst app = express();\napp.listen(80);\n");
+    const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+    await workflow.createPR("Change the port");
+
+    expect(github.getFileContent).toHaveBeenCalledWith("src/server.ts", "1111111aaaaaaa");
+    expect(github.commitFiles.mock.calls[0][2]).toEqual([{
+      action: "modify",
+      path: "src/server.ts",
+      content: "import express from \"express\";\nconst app = express();\napp.listen(8080);\n"
+    }]);
+
+    // A diff that no longer matches fails before anything is pushed
+    github.getFileContent.mockResolvedValue("const app = fastify();\napp.listen(3000);\n");
+    github.createBranch.mockClear();
+
+    await expect(workflow.createPR("Change the port")).rejects.toThrow(
+      /Failed to apply 1 of 1 hunks to src\/server.ts: hunk 1: /
+    );
+    expect(github.createBranch).not.toHaveBeenCalled();
+  });
+
+  it("commits deletions, renames and mode changes with the rest of the plan", async () => {
+    const changes = {
+      ...aiResponse,
+      files: [
+        { path: "src/legacy.ts", action: "delete" },
+        { path: "src/routes/health.ts", action: "rename", oldPath: "src/health.ts" },
+        { path: "scripts/release.sh", action: "modify", diff: "diff --git a/scripts/release.sh b/scripts/release.sh\nold mode 100644\nnew mode 100755" },
+        { path: "bin/cli", action: "create", content: "#!/usr/bin/env node\n", mode: 755 }
+      ]
+    };
+    vi.mocked(live.complete)
+      .mockResolvedValue({ content: "```json\n" + JSON.stringify(changes) + "\n```" });
+
+    const github = createGitHub();
+    github.getFileContent.mockResolvedValue("#!/bin/sh\n");
+    await new PRWorkflow(config, github, new AIClient(live), "/test/repo")
+      .createPR("Reorganise scripts");
+
+    expect(github.commitFiles).toHaveBeenCalledTimes(1);
+    expect(github.commitFiles.mock.calls[0][2]).toEqual([
+      { action: "delete", path: "src/legacy.ts" },
+      { action: "rename", oldPath: "src/health.ts", path: "src/routes/health.ts" },
+      { action: "mode", path: "scripts/release.sh", mode: "100755" },
+      { action: "create", path: "bin/cli", content: "#!/usr/bin/env node\n", mode: "100755" }
+    ]);
+  });
+
+  it("rejects file modes GitHub cannot store", async () => {
+    const plan = {
+      ...aiResponse,
+      files: [{ path: "bin/cli", action: "create", content: "#!/bin/sh\\n", mode: 777 }]
+    };
+    vi.mocked(live.complete)
+      .mockResolvedValue({ content: "```json\n" + JSON.stringify(plan) + "\n```" });
+
+    const github = createGitHub();
+    await expect(
+      new PRWorkflow(config, github, new AIClient(live), "/test/repo").createPR("Add a CLI")
+    ).rejects.toThrow("Unsupported file mode 777 for bin/cli");
+    expect(github.createBranch).not.toHaveBeenCalled();
+  });
+
+  describe("previewPR", () => {
+    const plan = {
+      ...aiResponse,
+      files: [
+        ...aiResponse.files,
+        {
+          path: "src/server.ts",
+          action: "modify",
+          diff: "@@ -1,2 +1,3 @@\n const app = express();\n+app.get(\"/health\", health);\n app.listen(80);"
+        },
+        { path: "src/legacy.ts", action: "delete" }
+      ]
+    };
+
+    beforeEach(() => {
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(plan) + "\n```" });
+    });
+
+    it("renders the full result without changing the remote", async () => {
+      const github = createGitHub();
+      github.getFileContent.mockImplementation(async (file: string) => file === "src/server.ts"
+        ? "const app = express();\napp.listen(80);\n"
+        : "export {};\n");
+
+      const preview = await new PRWorkflow(config, github, new AIClient(live), "/test/repo")
+        .previewPR("Add a health check");
+
+      expect(github.createBranch).not.toHaveBeenCalled();
+      expect(github.commitFiles).not.toHaveBeenCalled();
+      expect(github.createPullRequest).not.toHaveBeenCalled();
+
+      expect(preview.branch).toMatch(/^ai-pr\/add-a-health-check-/);
+      expect(preview.pullRequest).toMatchObject({
+        title: "feat: add health check endpoint",
+        headBranch: preview.branch,
+        baseBranch: "main",
+        isDraft: true,
+        labels: ["enhancement"]
+      });
+      expect(preview.files.map(({ path, action, additions, deletions }) => [path, action, additions, deletions]))
+        .toEqual([
+          ["src/health.ts", "create", 1, 0],
+          ["src/server.ts", "modify", 1, 0],
+          ["src/legacy.ts", "delete", 0, 1]
+        ]);
+      expect(preview.files[1].diff).toContain("+app.get(\"/health\", health);");
+      expect(preview.stats).toEqual({ files: 3, additions: 2, deletions: 1 });
+      expect(preview.findings).toEqual([]);
+    });
+
+    it("reports findings that would block the PR", async () => {
+      const secret = {
+        ...aiResponse,
+        files: [{
+          path: "src/config.ts",
+          action: "create",
+          content: `export const token = "${"a".repeat(40)}";\n`
+        }]
+      };
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(secret) + "\n```" });
+      const github = createGitHub();
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      const preview = await workflow.previewPR("Add config");
+      expect(preview.findings).toEqual([
+        expect.objectContaining({ type: "secret", level: "error", file: "src/config.ts", line: 1 })
+      ]);
+
+      await expect(workflow.createPR("Add config")).rejects.toThrow(/Potential secret found in code \(src\/config.ts:1\)/);
+      expect(github.createBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("plan files", () => {
+    beforeEach(() => {
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(aiResponse) + "\n```" });
+    });
+
+    it("applies a saved plan without calling the model again", async () => {
+      const github = createGitHub();
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      const plan = await workflow.planPR("Add a health check");
+      expect(plan).toMatchObject({
+        version: 1,
+        prompt: "Add a health check",
+        repository: { owner: "test-owner", repo: "test-repo" },
+        baseBranch: "main",
+        plan: { pr: { title: "feat: add health check endpoint" } },
+        findings: []
+      });
+      expect(github.createBranch).not.toHaveBeenCalled();
+
+      const url = await workflow.applyPlan(JSON.parse(JSON.stringify(plan)));
+
+      expect(url).toBe("https://github.com/test-owner/test-repo/pull/42");
+      expect(live.complete).toHaveBeenCalledTimes(1);
+      expect(github.commitFiles.mock.calls[0][2]).toEqual([
+        { action: "create", path: "src/health.ts", content: "export const health = () => \"ok\";\n" }
+      ]);
+    });
+
+    it("flags plans generated from a different repository state", async () => {
+      const workflow = new PRWorkflow(config, createGitHub(), new AIClient(live), "/test/repo");
+      const plan = await workflow.planPR("Add a health check");
+
+      const preview = await workflow.previewPlan({ ...plan, fingerprint: "stale" });
+
+      expect(preview.findings).toEqual([
+        expect.objectContaining({ level: "warning", rule: "stale-plan" })
+      ]);
+    });
+
+    it("refuses plans for another repository", async () => {
+      const github = createGitHub();
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+      const plan = await workflow.planPR("Add a health check");
+
+      await expect(workflow.applyPlan({ ...plan, repository: { owner: "someone", repo: "else" } }))
+        .rejects.toThrow("Plan was generated for someone/else, not test-owner/test-repo");
+      expect(github.createBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updating a pull request", () => {
+    const pullRequest: PullRequestInfo = {
+      number: 12,
+      title: "feat: longer sessions",
+      description: "Raises the session timeout",
+      headBranch: "ai-pr/longer-sessions",
+      baseBranch: "main",
+      headSha: "2222222bbbbbbb",
+      state: "open",
+      merged: false,
+      fromFork: false,
+      url: "https://github.com/test-owner/test-repo/pull/12"
+    };
+    const session = "export const SESSION_TIMEOUT = 5;\n";
+
+    function createPRGitHub() {
+      const github = createGitHub();
+      github.getPullRequest.mockResolvedValue(pullRequest);
+      github.findPullRequest.mockResolvedValue(pullRequest);
+      github.getBranchSha.mockResolvedValue(pullRequest.headSha);
+      github.getPullRequestDiff.mockResolvedValue(
+        "diff --git a/src/session.ts b/src/session.ts\n--- a/src/session.ts\n+++ b/src/session.ts\n" +
+        "@@ -1 +1 @@\n-export const SESSION_TIMEOUT = 1;\n+export const SESSION_TIMEOUT = 5;\n"
+      );
+      github.getFileContent.mockImplementation(async (filePath: string, ref: string) =>
+        filePath === "src/session.ts" && ref === pullRequest.headSha ? session : null);
+      return github;
+    }
+
+    beforeEach(() => {
+      const followUp = {
+        ...aiResponse,
+        files: [{
+          path: "src/session.ts",
+          action: "modify",
+          diff: "@@ -1 +1,2 @@\n export const SESSION_TIMEOUT = 5;\n+export const SESSION_UNIT = \"minutes\";"
+        }],
+        pr: { ...aiResponse.pr, title: "longer sessions with explicit units" }
+      };
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(followUp) + "\n```" });
+    });
+
+    it("pushes a follow-up commit to the pull request's branch", async () => {
+      const github = createPRGitHub();
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      const url = await workflow.createPR("Name the timeout unit", { pullRequest: 12 });
+
+      expect(url).toBe("https://github.com/test-owner/test-repo/pull/12");
+      const request = JSON.stringify(vi.mocked(live.complete).mock.calls[0][0]);
+      expect(request).toContain("Pull request #12: feat: longer sessions");
+      expect(request).toContain("export const SESSION_TIMEOUT = 5;");
+      expect(github.createBranch).not.toHaveBeenCalled();
+      expect(github.commitFiles).toHaveBeenCalledWith("ai-pr/longer-sessions", expect.any(String), [{
+        action: "modify",
+        path: "src/session.ts",
+        content: "export const SESSION_TIMEOUT = 5;\nexport const SESSION_UNIT = \"minutes\";\n"
+      }]);
+      expect(github.createPullRequest).not.toHaveBeenCalled();
+      expect(github.updatePullRequest).toHaveBeenCalledWith(12, expect.objectContaining({
+        title: "feat: longer sessions with explicit units",
+        description: expect.stringContaining("Original prompt: \"Name the timeout unit\"")
+      }));
+    });
+
+    it("finds the pull request from its branch", async () => {
+      const github = createPRGitHub();
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      const preview = await workflow.previewPR("Name the timeout unit", { pullRequest: "ai-pr/longer-sessions" });
+
+      expect(github.findPullRequest).toHaveBeenCalledWith("ai-pr/longer-sessions");
+      expect(preview).toMatchObject({ branch: "ai-pr/longer-sessions", pullRequestNumber: 12 });
+
+      github.findPullRequest.mockResolvedValue(null);
+      await expect(workflow.previewPR("Name the timeout unit", { pullRequest: "feature/gone" }))
+        .rejects.toThrow("No open pull request from branch 'feature/gone'");
+    });
+
+    it("refuses closed pull requests", async () => {
+      const github = createPRGitHub();
+      github.getPullRequest.mockResolvedValue({ ...pullRequest, state: "closed", merged: true });
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      await expect(workflow.createPR("Name the timeout unit", { pullRequest: 12 }))
+        .rejects.toThrow("Pull request #12 is merged");
+      expect(live.complete).not.toHaveBeenCalled();
+    });
+
+    it("addresses review comments and replies to each thread", async () => {
+      const github = createPRGitHub();
+      github.getReviewThreads.mockResolvedValue([
+        {
+          path: "src/session.ts",
+          line: 1,
+          resolved: false,
+          comments: [{ id: 501, author: "alice", body: "What unit is the timeout in?" }]
+        },
+        {
+          path: "src/session.ts",
+          line: 1,
+          resolved: true,
+          comments: [{ id: 400, author: "bob", body: "Typo" }]
+        }
+      ]);
+      const addressed = {
+        ...aiResponse,
+        files: [{
+          path: "src/session.ts",
+          action: "modify",
+          diff: "@@ -1 +1,2 @@\n export const SESSION_TIMEOUT = 5;\n+export const SESSION_UNIT = \"minutes\";"
+        }],
+        replies: [
+          { comment: 501, body: "Added SESSION_UNIT next to the timeout" },
+          { comment: 999, body: "Not a thread" }
+        ]
+      };
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(addressed) + "\n```" });
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      // Plain updates do not answer review comments
+      const preview = await workflow.previewPR("Name the timeout unit", { pullRequest: 12 });
+      expect(preview.plan.replies).toEqual([]);
+      expect(preview.findings).toContainEqual(expect.objectContaining({
+        message: "Reply to unknown review comment 501 was dropped"
+      }));
+
+      await workflow.addressReviewComments(12);
+
+      const request = JSON.stringify(vi.mocked(live.complete).mock.calls[1][0]);
+      expect(request).toContain("Comment 501 on src/session.ts:1");
+      expect(request).not.toContain("Comment 400");
+      expect(github.commitFiles).toHaveBeenCalledWith("ai-pr/longer-sessions", expect.any(String), [
+        expect.objectContaining({ path: "src/session.ts" })
+      ]);
+      expect(github.replyToReviewComment).toHaveBeenCalledTimes(1);
+      expect(github.replyToReviewComment).toHaveBeenCalledWith(12, 501, "Added SESSION_UNIT next to the timeout");
+    });
+
+    it("needs an unresolved review comment", async () => {
+      const github = createPRGitHub();
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      await expect(workflow.addressReviewComments(12))
+        .rejects.toThrow("Pull request #12 has no unresolved review comments");
+      expect(live.complete).not.toHaveBeenCalled();
+    });
+
+    it("keeps the branch when a run that added to it is abandoned", async () => {
+      const github = createPRGitHub();
+      github.updatePullRequest.mockRejectedValueOnce(new Error("Service unavailable"));
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+      const run = await new RunStore(path.join(cassetteDir, "runs")).start("Name the timeout unit");
+      await expect(workflow.createPR("Name the timeout unit", { pullRequest: 12, run })).rejects.toThrow();
+
+      await expect(workflow.abandon(run)).resolves.toBe(false);
+      expect(github.deleteBranch).not.toHaveBeenCalled();
+    });
+
+    it("does not repeat replies when a run is resumed", async () => {
+      const github = createPRGitHub();
+      github.getReviewThreads.mockResolvedValue([501, 502].map(id => ({
+        path: "src/session.ts",
+        line: 1,
+        resolved: false,
+        comments: [{ id, author: "alice", body: "What unit is the timeout in?" }]
+      })));
+      github.replyToReviewComment
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error("Service unavailable"));
+      const addressed = {
+        ...aiResponse,
+        replies: [
+          { comment: 501, body: "Added SESSION_UNIT" },
+          { comment: 502, body: "Minutes, now named" }
+        ]
+      };
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(addressed) + "\n```" });
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+      const runs = new RunStore(path.join(cassetteDir, "runs"));
+      const run = await runs.start("Address review comments");
+
+      await expect(workflow.addressReviewComments(12, { run })).rejects.toThrow("Service unavailable");
+      expect((await runs.load(run.id)).state.repliedComments).toEqual([501]);
+
+      await workflow.resume(await runs.load(run.id));
+
+      expect(github.replyToReviewComment.mock.calls.map(call => call[1])).toEqual([501, 502, 502]);
+      expect((await runs.load(run.id)).state).toMatchObject({ status: "completed", repliedComments: [501, 502] });
+    });
+  });
+
+  describe("resolving an issue", () => {
+    const issue: IssueInfo = {
+      number: 123,
+      title: "Health check for the load balancer",
+      body: "The load balancer needs an endpoint that answers without touching the database.",
+      labels: ["ops", "enhancement"],
+      milestone: 4,
+      state: "open",
+      isPullRequest: false,
+      comments: [{ author: "octocat", body: "It should return plain text." }],
+      url: "https://github.com/test-owner/test-repo/issues/123"
+    };
+
+    const issueBranch = expect.stringMatching(/^ai-pr\/123-health-check-for-the-load-balancer-[a-z0-9]+$/);
+
+    beforeEach(() => {
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(aiResponse) + "\n```" });
+    });
+
+    it("opens a PR named after the issue that closes it", async () => {
+      const github = createGitHub();
+      github.getIssue.mockResolvedValue(issue);
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      await workflow.createPRFromIssue(123);
+
+      const request = JSON.stringify(vi.mocked(live.complete).mock.calls[0][0]);
+      expect(request).toContain("Issue #123: Health check for the load balancer");
+      expect(request).toContain("It should return plain text.");
+      expect(github.createBranch).toHaveBeenCalledWith("main", issueBranch);
+      const [params] = github.createPullRequest.mock.calls[0];
+      expect(params).toMatchObject({
+        headBranch: issueBranch,
+        labels: ["enhancement", "ops"],
+        milestone: 4
+      });
+      expect(params.description).toContain("Adds a health check used by the load balancer\n\nCloses #123");
+    });
+
+    it("gives each run for the same issue its own branch", async () => {
+      const github = createGitHub();
+      github.getIssue.mockResolvedValue(issue);
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+      const now = vi.spyOn(Date, "now").mockReturnValueOnce(1_000).mockReturnValueOnce(2_000);
+
+      try {
+        await workflow.createPRFromIssue(123);
+        await workflow.createPRFromIssue(123);
+      } finally {
+        now.mockRestore();
+      }
+
+      const [[, first], [, second]] = github.createBranch.mock.calls;
+      expect(first).toBe("ai-pr/123-health-check-for-the-load-balancer-rs");
+      expect(second).toBe("ai-pr/123-health-check-for-the-load-balancer-1jk");
+    });
+
+    it("refuses pull requests and closed issues", async () => {
+      const github = createGitHub();
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      github.getIssue.mockResolvedValueOnce({ ...issue, isPullRequest: true });
+      await expect(workflow.createPRFromIssue(123)).rejects.toThrow("#123 is a pull request, not an issue");
+      github.getIssue.mockResolvedValueOnce({ ...issue, state: "closed" });
+      await expect(workflow.createPRFromIssue(123)).rejects.toThrow("Issue #123 is closed");
+      expect(live.complete).not.toHaveBeenCalled();
+    });
+
+    it("resolves the same issue when a run is resumed before planning", async () => {
+      const github = createGitHub();
+      github.getIssue.mockRejectedValueOnce(new Error("Service unavailable")).mockResolvedValue(issue);
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+      const runs = new RunStore(path.join(cassetteDir, "runs"));
+      const run = await runs.start("Resolve issue #123", { issue: 123 });
+      await expect(workflow.createPRFromIssue(123, { run })).rejects.toThrow("Service unavailable");
+
+      await workflow.resume(await runs.load(run.id));
+
+      expect(github.createBranch).toHaveBeenCalledWith("main", issueBranch);
+    });
+  });
+
+  describe("plugins", () => {
+    beforeEach(() => {
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(aiResponse) + "\n```" });
+    });
+
+    it("runs stage hooks and adds PR body sections", async () => {
+      const github = createGitHub();
+      const calls: string[] = [];
+      const jira: WorkflowPlugin = {
+        name: "jira",
+        hooks: {
+          beforeContext: event => {
+            calls.push("beforeContext");
+            event.prompt += "\n\nTicket OPS-12: the load balancer polls /health";
+          },
+          afterPlan: event => {
+            calls.push("afterPlan");
+            event.plan.pr.labels = [...event.plan.pr.labels ?? [], "jira"];
+          },
+          beforeValidate: () => {
+            calls.push("beforeValidate");
+          },
+          beforeCommit: event => {
+            calls.push("beforeCommit");
+            event.preview.pullRequest.title = `[OPS-12] ${event.preview.pullRequest.title}`;
+          },
+          afterPR: event => {
+            calls.push(`afterPR ${event.url}`);
+          }
+        },
+        sections: () => [{ title: "Jira", body: "Resolves [OPS-12](https://jira.example.com/browse/OPS-12)" }]
+      };
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo", [jira]);
+
+      await workflow.createPR("Add a health check");
+
+      expect(calls).toEqual([
+        "beforeContext",
+        "afterPlan",
+        "beforeValidate",
+        "beforeCommit",
+        "afterPR https://github.com/test-owner/test-repo/pull/42"
+      ]);
+      expect(JSON.stringify(vi.mocked(live.complete).mock.calls[0][0])).toContain("Ticket OPS-12");
+      expect(github.createPullRequest).toHaveBeenCalledWith(expect.objectContaining({
+        title: "[OPS-12] feat: add health check endpoint",
+        labels: expect.arrayContaining(["jira"]),
+        description: expect.stringContaining("### Jira\nResolves [OPS-12]")
+      }));
+      expect(github.createBranch.mock.calls[0][1]).toMatch(/^ai-pr\/add-a-health-check-/);
+    });
+
+    it("blocks the PR on findings from plugin rules", async () => {
+      const github = createGitHub();
+      const policy: WorkflowPlugin = {
+        name: "policy",
+        rules: [{
+          id: "no-health-checks",
+          description: "Health checks live in the platform repo",
+          validate: async change => change.path.includes("health")
+            ? [{ type: "quality", level: "error", message: "Health checks are owned by platform", file: change.path }]
+            : []
+        }]
+      };
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo", [policy]);
+
+      await expect(workflow.createPR("Add a health check"))
+        .rejects.toThrow("Health checks are owned by platform (src/health.ts)");
+      expect(github.createBranch).not.toHaveBeenCalled();
+    });
+
+    it("stops before pushing when a hook throws", async () => {
+      const github = createGitHub();
+      const policy: WorkflowPlugin = {
+        name: "policy",
+        hooks: {
+          beforeCommit: () => {
+            throw new Error("Change freeze until Monday");
+          }
+        }
+      };
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo", [policy]);
+
+      await expect(workflow.createPR("Add a health check"))
+        .rejects.toThrow("Plugin policy failed in beforeCommit: Change freeze until Monday");
+      expect(github.createBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("checkpointed runs", () => {
+    let runs: RunStore;
+
+    beforeEach(() => {
+      runs = new RunStore(path.join(cassetteDir, "runs"));
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(aiResponse) + "\n```" });
+    });
+
+    it("resumes after the last finished stage without calling the model again", async () => {
+      const github = createGitHub();
+      github.commitFiles.mockRejectedValueOnce(new Error("Service unavailable"));
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+      const run = await runs.start("Add a health check");
+
+      await expect(workflow.createPR("Add a health check", { run })).rejects.toThrow("Service unavailable");
+      const failed = await runs.load(run.id);
+      expect(failed.state).toMatchObject({ status: "failed", stage: "branch", error: "Service unavailable" });
+
+      const url = await workflow.resume(failed);
+
+      expect(url).toBe("https://github.com/test-owner/test-repo/pull/42");
+      expect(live.complete).toHaveBeenCalledTimes(1);
+      expect(github.createBranch).toHaveBeenCalledTimes(1);
+      expect(github.commitFiles).toHaveBeenCalledTimes(2);
+      expect(github.commitFiles.mock.calls[1][0]).toBe(failed.state.preview?.branch);
+      expect((await runs.load(run.id)).state).toMatchObject({ status: "completed", stage: "pull-request", prUrl: url });
+    });
+
+    it("regenerates nothing when the run stopped after planning", async () => {
+      const github = createGitHub();
+      github.getBranchProtection.mockResolvedValueOnce(true);
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+      const run = await runs.start("Add a health check");
+
+      await expect(workflow.createPR("Add a health check", { run })).rejects.toThrow(/is protected/);
+      expect(run.state.stage).toBe("plan");
+
+      await workflow.resume(await runs.load(run.id));
+
+      expect(live.complete).toHaveBeenCalledTimes(1);
+      expect(github.createPullRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("deletes the pushed branch when a run is abandoned", async () => {
+      const github = createGitHub();
+      github.createPullRequest.mockRejectedValueOnce(new Error("Validation Failed"));
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+      const run = await runs.start("Add a health check");
+      await expect(workflow.createPR("Add a health check", { run })).rejects.toThrow("Validation Failed");
+
+      await expect(workflow.abandon(run)).resolves.toBe(true);
+
+      expect(github.deleteBranch).toHaveBeenCalledWith(run.state.preview?.branch);
+      expect((await runs.load(run.id)).state.status).toBe("abandoned");
+      await expect(workflow.resume(run)).rejects.toThrow(`Run ${run.id} was abandoned`);
+    });
+
+    it("leaves runs that opened their PR alone", async () => {
+      const github = createGitHub();
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+      const run = await runs.start("Add a health check");
+      await workflow.createPR("Add a health check", { run });
+
+      await expect(workflow.abandon(run)).rejects.toThrow(/already opened .*pull\/42; close the pull request instead/);
+      expect(github.deleteBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stacked pull requests", () => {
+    const large = {
+      ...aiResponse,
+      files: [
+        { path: "apps/api/src/health.ts", action: "create", content: "import { ok } from \"@acme/core\";\n" },
+        { path: "packages/core/src/ok.ts", action: "create", content: "export const ok = 1;\n" },
+        { path: "packages/core/src/index.ts", action: "create", content: "export * from \"./ok\";\n" }
+      ]
+    };
+    const stackConfig = { ...config, MAX_FILES_PER_PR: 2 };
+
+    beforeEach(() => {
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(large) + "\n```" });
+    });
+
+    it("splits plans with too many files into PRs based on each other", async () => {
+      const github = createGitHub();
+      github.createPullRequest.mockResolvedValueOnce(42).mockResolvedValueOnce(43);
+      const workflow = new PRWorkflow(stackConfig, github, new AIClient(live), "/test/repo");
+
+      const url = await workflow.createPR("Add a health check");
+
+      expect(url).toBe("https://github.com/test-owner/test-repo/pull/42");
+      const [[, bottom], [base, top]] = github.createBranch.mock.calls;
+      expect(github.createBranch.mock.calls[0][0]).toBe("main");
+      expect(bottom).toMatch(/^ai-pr\/add-a-health-check-.*\/part-1$/);
+      expect(base).toBe(bottom);
+      expect(top).toMatch(/\/part-2$/);
+      expect(github.commitFiles.mock.calls.map(([branch, , changes]) => [branch, changes.map(change => change.path)]))
+        .toEqual([
+          [bottom, ["packages/core/src/ok.ts", "packages/core/src/index.ts"]],
+          [top, ["apps/api/src/health.ts"]]
+        ]);
+      expect(github.createPullRequest).toHaveBeenCalledWith(expect.objectContaining({
+        title: "feat: add health check endpoint (2/2)",
+        headBranch: top,
+        baseBranch: bottom
+      }));
+      expect(github.updatePullRequest).toHaveBeenCalledWith(43, {
+        description: expect.stringContaining("1. #42 feat: add health check endpoint (1/2)\n2. #43 feat: add health check endpoint (2/2) 👈 this PR")
+      });
+    });
+
+    it("resumes a stack from the first part that did not finish", async () => {
+      const github = createGitHub();
+      github.commitFiles.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error("Service unavailable"));
+      const workflow = new PRWorkflow(stackConfig, github, new AIClient(live), "/test/repo");
+      const runs = new RunStore(path.join(cassetteDir, "runs"));
+      const run = await runs.start("Add a health check");
+
+      await expect(workflow.createPR("Add a health check", { run })).rejects.toThrow("Service unavailable");
+      expect(run.state.stack).toEqual({ branches: 2, committed: 1, pullRequests: [] });
+      await workflow.resume(await runs.load(run.id));
+
+      expect(github.createBranch).toHaveBeenCalledTimes(2);
+      expect(github.commitFiles).toHaveBeenCalledTimes(3);
+      expect(github.commitFiles.mock.calls[2][0]).toBe(github.createBranch.mock.calls[1][1]);
+      expect(github.createPullRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it("deletes every branch of the stack when its run is abandoned", async () => {
+      const github = createGitHub();
+      github.createPullRequest.mockRejectedValueOnce(new Error("Validation Failed"));
+      const workflow = new PRWorkflow(stackConfig, github, new AIClient(live), "/test/repo");
+      const run = await new RunStore(path.join(cassetteDir, "runs")).start("Add a health check");
+      await expect(workflow.createPR("Add a health check", { run })).rejects.toThrow("Validation Failed");
+
+      await workflow.abandon(run);
+
+      expect(github.deleteBranch.mock.calls.map(([branch]) => branch))
+        .toEqual(github.createBranch.mock.calls.map(([, branch]) => branch));
+    });
+  });
+
+  describe("when the base branch moved during generation", () => {
+    const original = "const port = 80;\nconst host = \"localhost\";\n\nlisten(port, host);\n";
+    const plan = {
+      ...aiResponse,
+      files: [{
+        path: "src/server.ts",
+        action: "modify",
+        diff: "@@ -1,2 +1,2 @@\n-const port = 80;\n+const port = 8080;\n const host = \"localhost\";"
+      }]
+    };
+
+    beforeEach(() => {
+      vi.mocked(GitOperations.prototype.getHeadSha).mockResolvedValue("0000000base");
+      vi.mocked(GitOperations.prototype.getFileAt).mockResolvedValue(original);
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(plan) + "\n```" });
+    });
+
+    it("merges the plan onto the new head", async () => {
+      const github = createGitHub();
+      github.getFileContent.mockResolvedValue(original.replace("listen(port, host)", "serve(port, host)"));
+
+      await new PRWorkflow(config, github, new AIClient(live), "/test/repo")
+        .createPR("Change the port");
+
+      expect(GitOperations.prototype.getFileAt).toHaveBeenCalledWith("0000000base", "src/server.ts");
+      expect(github.commitFiles.mock.calls[0][2]).toEqual([{
+        action: "modify",
+        path: "src/server.ts",
+        content: "const port = 8080;\nconst host = \"localhost\";\n\nserve(port, host);\n"
+      }]);
+    });
+
+    it("reports conflicting changes instead of overwriting them", async () => {
+      const github = createGitHub();
+      github.getFileContent.mockResolvedValue(original.replace("80", "3000"));
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      const error = await workflow.createPR("Change the port").catch(error => error);
+
+      expect(error.cause).toBeInstanceOf(MergeConflictError);
+      expect(error.cause.files).toEqual([{
+        path: "src/server.ts",
+        conflicts: [{
+          line: 1,
+          base: ["const port = 80;"],
+          ours: ["const port = 8080;"],
+          theirs: ["const port = 3000;"]
+        }]
+      }]);
+      expect(github.createBranch).not.toHaveBeenCalled();
+    });
+
+    it("can commit conflict markers to a draft PR", async () => {
+      const github = createGitHub();
+      github.getFileContent.mockResolvedValue(original.replace("80", "3000"));
+
+      await new PRWorkflow({ ...config, PR_DRAFT_BY_DEFAULT: false }, github, new AIClient(live), "/test/repo")
+        .createPR("Change the port", { onConflict: "markers" });
+
+      expect(github.commitFiles.mock.calls[0][2][0].content).toBe([
+        "<<<<<<< AI changes",
+        "const port = 8080;",
+        "||||||| base 0000000",
+        "const port = 80;",
+        "=======",
+        "const port = 3000;",
+        ">>>>>>> main 1111111",
+        "const host = \"localhost\";",
+        "",
+        "listen(port, host);",
+        ""
+      ].join("\n"));
+      expect(github.createPullRequest).toHaveBeenCalledWith(expect.objectContaining({
+        isDraft: true,
+        description: expect.stringContaining("- `src/server.ts` (line 1)")
+      }));
+    });
+  });
+
+  describe("deleting a file the base branch changed", () => {
+    const original = "const port = 80;\n";
+    const plan = { ...aiResponse, files: [{ path: "src/server.ts", action: "delete" }] };
+
+    beforeEach(() => {
+      vi.mocked(GitOperations.prototype.getHeadSha).mockResolvedValue("0000000base");
+      vi.mocked(GitOperations.prototype.getFileAt).mockResolvedValue(original);
+      vi.mocked(live.complete)
+        .mockResolvedValue({ content: "```json\n" + JSON.stringify(plan) + "\n```" });
+    });
+
+    it("reports the newer commits instead of deleting them", async () => {
+      const github = createGitHub();
+      github.getFileContent.mockResolvedValue("const port = 3000;\n");
+      const workflow = new PRWorkflow(config, github, new AIClient(live), "/test/repo");
+
+      const error = await workflow.createPR("Remove the server").catch(error => error);
+
+      expect(error.cause).toBeInstanceOf(MergeConflictError);
+      expect(error.cause.files).toEqual([{
+        path: "src/server.ts",
+        conflicts: [{ line: 1, base: ["const port = 80;"], ours: [], theirs: ["const port = 3000;"] }]
+      }]);
+      expect(github.createBranch).not.toHaveBeenCalled();
+    });
+
+    it("keeps the file with conflict markers when asked to", async () => {
+      const github = createGitHub();
+      github.getFileContent.mockResolvedValue("const port = 3000;\n");
+
+      await new PRWorkflow(config, github, new AIClient(live), "/test/repo")
+        .createPR("Remove the server", { onConflict: "markers" });
+
+      expect(github.commitFiles.mock.calls[0][2]).toEqual([{
+        action: "modify",
+        path: "src/server.ts",
+        content: [
+          "<<<<<<< AI changes",
+          "||||||| base 0000000",
+          "const port = 80;",
+          "=======",
+          "const port = 3000;",
+          ">>>>>>> main 1111111",
+          ""
+        ].join("\n")
+      }]);
+    });
+
+    it("deletes it when it did not change", async () => {
+      const github = createGitHub();
+      github.getFileContent.mockResolvedValue(original);
+
+      await new PRWorkflow(config, github, new AIClient(live), "/test/repo")
+        .createPR("Remove the server");
+
+      expect(github.commitFiles.mock.calls[0][2]).toEqual([{ action: "delete", path: "src/server.ts" }]);
+    });
+  });
+
+  describe("verifying the changes", () => {
+    const verifyConfig: Config = {
+      ...config,
+      PR_DRAFT_BY_DEFAULT: false,
+      VERIFY_FIX_ROUNDS: 1,
+      VERIFY_TIMEOUT_MS: 60000,
+      VERIFY_ON_FAILURE: "draft"
+    };
+    const fixed = {
+      ...aiResponse,
+      files: [{ path: "src/health.ts", action: "create", content: "export const health = (): string => \"ok\";\n" }]
+    };
+    const result = (step: "typecheck" | "test", passed: boolean) => ({
+      step,
+      command: `npm run ${step}`,
+      passed,
+      exitCode: passed ? 0 : 2,
+      timedOut: false,
+      durationMs: 10,
+      output: passed ? "" : "src/health.ts(1,14): error TS7010: 'health' lacks a return-type annotation"
+    });
+    const passing = { passed: true, results: [result("typecheck", true), result("test", true)], fixRounds: 0 };
+    const failing = { passed: false, results: [result("typecheck", false), result("test", true)], fixRounds: 0 };
+
+    beforeEach(() => {
+      vi.mocked(verifyChanges).mockReset();
+      vi.mocked(live.complete)
+        .mockResolvedValueOnce({ content: "```json\n" + JSON.stringify(aiResponse) + "\n```" })
+        .mockResolvedValueOnce({ content: "```json\n" + JSON.stringify(fixed) + "\n```" });
+    });
+
+    it("asks the model to fix failed checks and opens the PR with the results", async () => {
+      vi.mocked(verifyChanges).mockResolvedValueOnce(failing).mockResolvedValueOnce(passing);
+      const github = createGitHub();
+      const workflow = new PRWorkflow(verifyConfig, github, new AIClient(live), "/test/repo");
+
+      await workflow.createPR("Add a health check", { verify: true });
+
+      expect(verifyChanges).toHaveBeenCalledWith("/test/repo", [expect.objectContaining({ path: "src/health.ts" })], {
+        base: "1111111aaaaaaa",
+        context: expect.objectContaining({ packageManager: "npm" }),
+        timeoutMs: 60000
+      });
+      expect(JSON.stringify(vi.mocked(live.complete).mock.calls[1][0])).toContain("error TS7010");
+      expect(github.commitFiles.mock.calls[0][2]).toEqual([
+        expect.objectContaining({ content: "export const health = (): string => \"ok\";\n" })
+      ]);
+      const [params] = github.createPullRequest.mock.calls[0];
+      expect(params.isDraft).toBe(false);
+      expect(params.description).toContain(
+        "### Verification\n- ✅ typecheck: `npm run typecheck`\n- ✅ test: `npm run test`\n\nThe model revised the changes once after failed checks."
+      );
+    });
+
+    it("opens a draft when the checks still fail", async () => {
+      vi.mocked(verifyChanges).mockResolvedValue(failing);
+      const github = createGitHub();
+      const workflow = new PRWorkflow(verifyConfig, github, new AIClient(live), "/test/repo");
+
+      const preview = await workflow.previewPR("Add a health check", { verify: true });
+
+      expect(live.complete).toHaveBeenCalledTimes(2);
+      expect(preview.pullRequest.isDraft).toBe(true);
+      expect(preview.verification).toMatchObject({ passed: false, fixRounds: 1 });
+      expect(preview.findings).toEqual([
+        expect.objectContaining({ level: "warning", message: "Verification failed: typecheck", rule: "verify" })
+      ]);
+    });
+
+    it("blocks the PR when failures are configured to", async () => {
+      vi.mocked(verifyChanges).mockResolvedValue(failing);
+      const github = createGitHub();
+      const workflow = new PRWorkflow(
+        { ...verifyConfig, VERIFY_FIX_ROUNDS: 0, VERIFY_ON_FAILURE: "block" },
+        github,
+        new AIClient(live),
+        "/test/repo"
+      );
+
+      await expect(workflow.createPR("Add a health check", { verify: true }))
+        .rejects.toThrow("Validation failed with blocking issues: Verification failed: typecheck");
+      expect(live.complete).toHaveBeenCalledTimes(1);
+      expect(github.createBranch).not.toHaveBeenCalled();
+    });
+
+    it("leaves the changes alone unless enabled", async () => {
+      await new PRWorkflow(verifyConfig, createGitHub(), new AIClient(live), "/test/repo")
+        .createPR("Add a health check");
+
+      expect(verifyChanges).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { CredentialVault, PRAutomatorError } from "@automate-pr/core";
+import { PRAutomatorError } from "@automate-pr/core";
 
 interface TokenInfo {
   access_token: string;
@@ -12,24 +12,74 @@ interface RateLimitInfo {
   reset: number; // Unix timestamp in seconds
 }
 
+interface ErrorResponse {
+  status?: number;
+  headers?: Record<string, string | number | undefined>;
+}
+
+/**
+ * The HTTP response an Octokit or fetch error carries, if any
+ */
+function responseOf(error: unknown): ErrorResponse | undefined {
+  if (typeof error !== "object" || error === null || !("response" in error)) return undefined;
+  const { response } = error;
+  return typeof response === "object" && response !== null ? response as ErrorResponse : undefined;
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Where token information is kept. `CredentialVault` persists it to disk.
+ */
+export interface TokenStore {
+  get(key: string): string | undefined;
+  set(key: string, value: string): Promise<void>;
+}
+
+/**
+ * Keeps token information for the life of the process only
+ */
+export class MemoryTokenStore implements TokenStore {
+  private readonly values = new Map<string, string>();
+
+  get(key: string): string | undefined {
+    return this.values.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+}
+
 /**
  * Manages GitHub access tokens with refresh and rate limiting
  */
 export class TokenManager {
   private static readonly TOKEN_INFO_KEY = "github.token_info";
-  private static readonly RATE_LIMIT_KEY = "github.rate_limit";
   private static readonly MIN_TOKEN_LIFETIME = 5 * 60 * 1000; // 5 minutes in ms
   private static readonly DEFAULT_BACKOFF = 1000; // 1 second
 
-  private readonly vault: CredentialVault;
+  private readonly vault: TokenStore;
   private rateLimitInfo?: RateLimitInfo;
   private lastRequest: number = 0;
   private backoffDelay: number = TokenManager.DEFAULT_BACKOFF;
 
-  constructor(vault: CredentialVault) {
+  constructor(vault: TokenStore) {
     this.vault = vault;
   }
 
+  /**
+   * Manage a token from configuration, e.g. `GITHUB_TOKEN`, without
+   * writing it anywhere
+   */
+  static async fromToken(accessToken: string): Promise<TokenManager> {
+    const manager = new TokenManager(new MemoryTokenStore());
+    await manager.storeToken(accessToken);
+    return manager;
+  }
+
   /**
    * Get a valid access token, refreshing if necessary
    */
@@ -86,10 +136,12 @@ export class TokenManager {
       this.backoffDelay = TokenManager.DEFAULT_BACKOFF;
       
       // Update rate limit info from response headers
-      await this.updateRateLimitInfo();
+      this.updateRateLimitInfo(result);
 
       return result;
     } catch (error) {
+      this.updateRateLimitInfo(responseOf(error));
+
       if (this.isRateLimitError(error)) {
         // Increase backoff exponentially
         this.backoffDelay *= 2;
@@ -187,31 +239,17 @@ export class TokenManager {
   /**
    * Update rate limit information from response headers
    */
-  private async updateRateLimitInfo(): Promise<void> {
-    try {
-      const response = await fetch("https://api.github.com/rate_limit", {
-        headers: {
-          "Accept": "application/json",
-          "Authorization": `Bearer ${await this.getToken()}`
-        }
-      });
-
-      if (!response.ok) return;
-
-      const data = await response.json();
-      this.rateLimitInfo = {
-        limit: parseInt(data.resources.core.limit),
-        remaining: parseInt(data.resources.core.remaining),
-        reset: parseInt(data.resources.core.reset)
-      };
-
-      await this.vault.set(
-        TokenManager.RATE_LIMIT_KEY,
-        JSON.stringify(this.rateLimitInfo)
-      );
-    } catch {
-      // Ignore rate limit check errors
-    }
+  private updateRateLimitInfo(response: unknown): void {
+    const headers = (response as { headers?: Record<string, string | number | undefined> } | undefined)?.headers;
+    const remaining = headers?.["x-ratelimit-remaining"];
+    const reset = headers?.["x-ratelimit-reset"];
+    if (remaining === undefined || reset === undefined) return;
+
+    this.rateLimitInfo = {
+      limit: Number(headers?.["x-ratelimit-limit"] ?? 0),
+      remaining: Number(remaining),
+      reset: Number(reset)
+    };
   }
 
   /**
@@ -242,16 +280,17 @@ export class TokenManager {
   /**
    * Check if error is due to rate limiting
    */
-  private isRateLimitError(error: any): boolean {
-    return error?.response?.status === 429 ||
-           error?.message?.includes("rate limit");
+  private isRateLimitError(error: unknown): boolean {
+    const response = responseOf(error);
+    // GitHub answers 403 rather than 429 once the primary limit is used up
+    const exhausted = response?.status === 403 && Number(response.headers?.["x-ratelimit-remaining"]) === 0;
+    return response?.status === 429 || exhausted || messageOf(error).includes("rate limit");
   }
 
   /**
    * Check if error is due to authentication
    */
-  private isAuthError(error: any): boolean {
-    return error?.response?.status === 401 ||
-           error?.message?.includes("Unauthorized");
+  private isAuthError(error: unknown): boolean {
+    return responseOf(error)?.status === 401 || messageOf(error).includes("Unauthorized");
   }
 } 
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { parse } from "yaml";
+import { z } from "zod";
+import { PRAutomatorError } from "./error";
+import { DEFAULT_RUN_DIR, Run, RunStore } from "./run-store";
+
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+export const DEFAULT_BATCH_REPORT = path.join(".automate-pr", "batch-report.json");
+
+const PromptsSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+const BatchManifestSchema = z.object({
+  concurrency: z.number().int().positive().default(DEFAULT_BATCH_CONCURRENCY),
+  /** Prompts for repositories that do not list their own */
+  prompt: PromptsSchema.optional(),
+  repos: z.array(z.union([
+    z.string().min(1),
+    z.object({ path: z.string().min(1), prompt: PromptsSchema.optional() })
+  ])).min(1)
+});
+
+/**
+ * One prompt to run against one repository
+ */
+export interface BatchJob {
+  /** Local checkout, resolved against the manifest's directory */
+  repoPath: string;
+  prompt: string;
+}
+
+export interface BatchManifest {
+  concurrency: number;
+  jobs: BatchJob[];
+}
+
+export interface BatchResult extends BatchJob {
+  status: "succeeded" | "failed";
+  url?: string;
+  /** Why the job failed */
+  error?: string;
+  /** Checkpointed in the repository, for `resume` or `abandon` */
+  runId?: string;
+  durationMs: number;
+}
+
+export interface BatchReport {
+  startedAt: string;
+  finishedAt: string;
+  results: BatchResult[];
+}
+
+export interface BatchOptions {
+  /** Overrides the manifest's concurrency */
+  concurrency?: number;
+  /** Called as each job finishes, in completion order */
+  onResult?: (result: BatchResult) => void;
+}
+
+/**
+ * Read a YAML manifest listing repositories and the prompts to run on
+ * each. A repository without prompts of its own gets the manifest's.
+ */
+export async function readBatchManifest(filePath: string): Promise<BatchManifest> {
+  let data: unknown;
+  try {
+    data = parse(await readFile(filePath, "utf-8"));
+  } catch (error) {
+    throw PRAutomatorError.user(`Failed to read batch manifest ${filePath}: ${error.message}`, {
+      path: filePath,
+      error
+    });
+  }
+
+  const result = BatchManifestSchema.safeParse(data);
+  if (!result.success) {
+    throw PRAutomatorError.user(
+      `Invalid batch manifest ${filePath}: ${result.error.issues
+        .map(issue => `${issue.path.join(".")} ${issue.message}`)
+        .join("; ")}`,
+      { path: filePath, error: result.error }
+    );
+  }
+
+  const manifest = result.data;
+  const dir = path.dirname(filePath);
+  const jobs = manifest.repos.flatMap(entry => {
+    const repo = typeof entry === "string" ? { path: entry } : entry;
+    const prompts = repo.prompt ?? manifest.prompt;
+    if (!prompts) {
+      throw PRAutomatorError.user(
+        `Invalid batch manifest ${filePath}: no prompt for ${repo.path}`,
+        { path: filePath, repo: repo.path }
+      );
+    }
+    return [prompts].flat().map(prompt => ({ repoPath: path.resolve(dir, repo.path), prompt }));
+  });
+  return { concurrency: manifest.concurrency, jobs };
+}
+
+/**
+ * Run every job of a manifest, at most `concurrency` at a time. Each job
+ * gets a run checkpointed in its repository; failures are recorded in
+ * the report instead of stopping the batch.
+ */
+export async function runBatch(
+  manifest: BatchManifest,
+  execute: (job: BatchJob, run: Run) => Promise<string>,
+  options: BatchOptions = {}
+): Promise<BatchReport> {
+  const concurrency = options.concurrency ?? manifest.concurrency;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw PRAutomatorError.user(`Batch concurrency must be a positive integer, got ${concurrency}`, {
+      concurrency
+    });
+  }
+
+  const startedAt = new Date().toISOString();
+  const { jobs } = manifest;
+  const results: BatchResult[] = new Array(jobs.length);
+
+  const runJob = async (job: BatchJob): Promise<BatchResult> => {
+    const started = Date.now();
+    let run: Run | undefined;
+    try {
+      run = await new RunStore(path.join(job.repoPath, DEFAULT_RUN_DIR)).start(job.prompt);
+      const url = await execute(job, run);
+      return { ...job, status: "succeeded", url, runId: run.id, durationMs: Date.now() - started };
+    } catch (error) {
+      return {
+        ...job,
+        status: "failed",
+        error: error.message,
+        ...(run && { runId: run.id }),
+        durationMs: Date.now() - started
+      };
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const index = next++;
+      results[index] = await runJob(jobs[index]);
+      options.onResult?.(results[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, worker));
+
+  return { startedAt, finishedAt: new Date().toISOString(), results };
+}
+
+export async function writeBatchReport(filePath: string, report: BatchReport): Promise<void> {
+  try {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(report, null, 2) + "\n");
+  } catch (error) {
+    throw PRAutomatorError.system(`Failed to write batch report ${filePath}: ${error.message}`, {
+      path: filePath,
+      error
+    });
+  }
+}
@@ -3,16 +3,45 @@ import { config } from "dotenv";
 import path from "path";
 
 const Schema = z.object({
-  DEEPSEEK_API_KEY: z.string().min(20),
+  DEEPSEEK_API_KEY: z.string().min(20).optional(),
   GITHUB_TOKEN: z.string().min(40),
+  // AI provider selection
+  AI_PROVIDER: z.enum(["deepseek", "openai", "ollama"]).default("deepseek"),
+  AI_MODEL: z.string().optional(),
+  AI_BASE_URL: z.string().url().optional(),
+  AI_API_KEY: z.string().optional(),
+  AI_TEMPERATURE: z.number().min(0).max(2).default(0.2),
+  AI_MAX_TOKENS: z.number().int().positive().default(4000),
+  AI_CONTEXT_TOKENS: z.number().int().positive().optional(),
+  // Cost accounting: USD per million tokens, keyed by "provider/model"
+  AI_PRICES: z.record(z.object({
+    input: z.number().min(0),
+    output: z.number().min(0)
+  })).optional(),
+  AI_BUDGET_USD: z.number().positive().optional(),
   DEFAULT_BRANCH: z.string().default("main"),
   SAFETY_CHECKS: z.boolean().default(true),
   // Additional useful configurations
   GITHUB_API_URL: z.string().url().default("https://api.github.com"),
   MAX_FILES_PER_PR: z.number().int().positive().default(50),
+  // Context lines a diff hunk may ignore when it does not match exactly
+  PATCH_FUZZ: z.number().int().min(0).default(2),
   PR_DRAFT_BY_DEFAULT: z.boolean().default(true),
+  // Run the repository's build, type-check, lint and tests on the changes
+  VERIFY_CHANGES: z.boolean().default(false),
+  // Times the model is asked to fix failed checks before giving up
+  VERIFY_FIX_ROUNDS: z.number().int().min(0).default(1),
+  VERIFY_TIMEOUT_MS: z.number().int().positive().default(600000),
+  // Whether failed checks stop the PR or open it as a draft
+  VERIFY_ON_FAILURE: z.enum(["block", "draft"]).default("draft"),
   LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info")
-});
+}).refine(
+  config => config.AI_PROVIDER === "ollama" || !!(config.AI_API_KEY || config.DEEPSEEK_API_KEY),
+  {
+    message: "AI_API_KEY (or DEEPSEEK_API_KEY) is required unless AI_PROVIDER is ollama",
+    path: ["AI_API_KEY"]
+  }
+);
 
 export type Config = z.infer<typeof Schema>;
 
@@ -41,7 +70,16 @@ export function loadConfig(options: ConfigOptions = {}): Config {
     // Convert string "true"/"false" to boolean
     SAFETY_CHECKS: process.env.SAFETY_CHECKS === "true" || process.env.SAFETY_CHECKS === undefined,
     PR_DRAFT_BY_DEFAULT: process.env.PR_DRAFT_BY_DEFAULT === "true" || process.env.PR_DRAFT_BY_DEFAULT === undefined,
-    MAX_FILES_PER_PR: process.env.MAX_FILES_PER_PR ? parseInt(process.env.MAX_FILES_PER_PR) : undefined
+    MAX_FILES_PER_PR: process.env.MAX_FILES_PER_PR ? parseInt(process.env.MAX_FILES_PER_PR) : undefined,
+    PATCH_FUZZ: process.env.PATCH_FUZZ ? parseInt(process.env.PATCH_FUZZ) : undefined,
+    VERIFY_CHANGES: process.env.VERIFY_CHANGES === "true",
+    VERIFY_FIX_ROUNDS: process.env.VERIFY_FIX_ROUNDS ? parseInt(process.env.VERIFY_FIX_ROUNDS) : undefined,
+    VERIFY_TIMEOUT_MS: process.env.VERIFY_TIMEOUT_MS ? parseInt(process.env.VERIFY_TIMEOUT_MS) : undefined,
+    AI_TEMPERATURE: process.env.AI_TEMPERATURE ? parseFloat(process.env.AI_TEMPERATURE) : undefined,
+    AI_MAX_TOKENS: process.env.AI_MAX_TOKENS ? parseInt(process.env.AI_MAX_TOKENS) : undefined,
+    AI_CONTEXT_TOKENS: process.env.AI_CONTEXT_TOKENS ? parseInt(process.env.AI_CONTEXT_TOKENS) : undefined,
+    AI_PRICES: process.env.AI_PRICES ? parseJson("AI_PRICES", process.env.AI_PRICES) : undefined,
+    AI_BUDGET_USD: process.env.AI_BUDGET_USD ? parseFloat(process.env.AI_BUDGET_USD) : undefined
   };
 
   try {
@@ -51,6 +89,12 @@ export function loadConfig(options: ConfigOptions = {}): Config {
       const missingVars = error.issues
         .filter(issue => issue.code === "invalid_type" && issue.received === "undefined")
         .map(issue => issue.path.join("."));
+
+      if (missingVars.length === 0) {
+        throw new Error(
+          `Invalid configuration: ${error.issues.map(issue => issue.message).join(", ")}`
+        );
+      }
       
       throw new Error(
         `Missing required environment variables: ${missingVars.join(", ")}\n` +
@@ -59,4 +103,12 @@ export function loadConfig(options: ConfigOptions = {}): Config {
     }
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+function parseJson(name: string, value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`Invalid configuration: ${name} must be valid JSON`);
+  }
+}
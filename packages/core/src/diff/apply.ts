@@ -0,0 +1,226 @@
+import { PRAutomatorError } from "../error";
+import { DiffLine, Hunk } from "./types";
+
+export interface ApplyOptions {
+  /**
+   * How many leading and trailing context lines of a hunk may be ignored
+   * when it does not match exactly, like `patch --fuzz`
+   * @default 2
+   */
+  fuzz?: number;
+  /**
+   * How far (in lines) from its stated position a hunk may be found
+   * @default unlimited
+   */
+  maxOffset?: number;
+  /**
+   * Compare lines with all whitespace runs collapsed
+   * @default false
+   */
+  ignoreWhitespace?: boolean;
+}
+
+export interface HunkResult {
+  /** Index of the hunk in the patch */
+  index: number;
+  applied: boolean;
+  /** Lines between the stated and the actual position */
+  offset?: number;
+  /** Context lines ignored on each side to make the hunk match */
+  fuzz?: number;
+  /** Why the hunk could not be applied */
+  reason?: string;
+}
+
+export interface PatchResult {
+  content: string;
+  hunks: HunkResult[];
+  /** Every hunk applied */
+  ok: boolean;
+}
+
+export class PatchApplyError extends PRAutomatorError {
+  constructor(
+    message: string,
+    public readonly failures: HunkResult[],
+    metadata?: Record<string, unknown>
+  ) {
+    super("validation", message, { ...metadata, failures, source: "diff" });
+  }
+}
+
+interface SearchOptions {
+  fuzz: number;
+  maxOffset: number;
+  /** First line a hunk may touch */
+  floor: number;
+  normalize: (line: string) => string;
+}
+
+interface Match {
+  /** Where the hunk's trimmed body starts */
+  position: number;
+  fuzz: number;
+  /** Context lines trimmed from the start and end */
+  before: number;
+  after: number;
+}
+
+/**
+ * Apply hunks to file content. Hunks that do not match are skipped and
+ * reported, so the result may be partial; check `ok`.
+ */
+export function applyHunks(source: string, hunks: Hunk[], options: ApplyOptions = {}): PatchResult {
+  const search: Omit<SearchOptions, "floor"> = {
+    fuzz: options.fuzz ?? 2,
+    maxOffset: options.maxOffset ?? Infinity,
+    normalize: options.ignoreWhitespace
+      ? line => line.trim().replace(/\s+/g, " ")
+      : line => line.replace(/\s+$/, "")
+  };
+
+  const lines = source.split("\n");
+  let trailingNewline = source.endsWith("\n");
+  if (source === "" || trailingNewline) lines.pop();
+
+  const results: HunkResult[] = [];
+  // Net lines added by applied hunks, and the offset of the last one, which
+  // usually holds for the hunks after it as well
+  let delta = 0;
+  let drift = 0;
+  let floor = 0;
+
+  hunks.forEach((hunk, index) => {
+    const stated = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta;
+    const expected = Math.max(0, stated + drift);
+    const match = findMatch(lines, hunk, expected, { ...search, floor });
+
+    if (!match) {
+      results.push({
+        index,
+        applied: false,
+        reason: describeMismatch(lines, hunk, expected, search.normalize)
+      });
+      return;
+    }
+
+    const body = hunk.lines.slice(match.before, hunk.lines.length - match.after);
+    const removed = body.filter(line => line.type !== "add").length;
+    const added = body.filter(line => line.type !== "delete");
+    const reachesEnd = match.position + removed === lines.length;
+
+    // Context keeps the file's own text, which may differ in whitespace
+    const replacement: string[] = [];
+    let cursor = match.position;
+    for (const line of body) {
+      if (line.type === "context") replacement.push(lines[cursor++]);
+      if (line.type === "delete") cursor++;
+      if (line.type === "add") replacement.push(line.content);
+    }
+    lines.splice(match.position, removed, ...replacement);
+
+    if (reachesEnd && added.length > 0) {
+      trailingNewline = !added[added.length - 1].noNewline;
+    }
+
+    const offset = match.position - match.before - stated;
+    results.push({
+      index,
+      applied: true,
+      ...(offset !== 0 && { offset }),
+      ...(match.fuzz > 0 && { fuzz: match.fuzz })
+    });
+
+    drift = offset;
+    delta += added.length - removed;
+    floor = match.position + replacement.length;
+  });
+
+  return {
+    content: lines.join("\n") + (trailingNewline && lines.length > 0 ? "\n" : ""),
+    hunks: results,
+    ok: results.every(result => result.applied)
+  };
+}
+
+/**
+ * Find the position closest to `expected` where the hunk matches, trying
+ * exact context first and then dropping context lines up to the fuzz factor
+ */
+function findMatch(lines: string[], hunk: Hunk, expected: number, options: SearchOptions): Match | undefined {
+  const anchored = hunk.lines.some(line => line.type !== "add");
+  let trimmed = -1;
+
+  for (let fuzz = 0; fuzz <= options.fuzz; fuzz++) {
+    const { before, after } = trimContext(hunk.lines, fuzz);
+    if (before + after === trimmed) continue;
+    trimmed = before + after;
+
+    const old = hunk.lines
+      .slice(before, hunk.lines.length - after)
+      .filter(line => line.type !== "add")
+      .map(line => options.normalize(line.content));
+    const start = expected + before;
+
+    if (old.length === 0) {
+      // Only a pure insertion may go in without anything to match; a hunk
+      // whose context was all trimmed away could land anywhere
+      if (anchored) break;
+      const position = Math.min(Math.max(start, options.floor), lines.length);
+      return { position, fuzz, before, after };
+    }
+
+    const fits = (position: number) => position >= options.floor &&
+      position + old.length <= lines.length &&
+      old.every((line, i) => options.normalize(lines[position + i]) === line);
+
+    for (let distance = 0; distance <= options.maxOffset; distance++) {
+      const below = start + distance;
+      const above = start - distance;
+      if (below > lines.length - old.length && above < options.floor) break;
+
+      if (fits(below)) return { position: below, fuzz, before, after };
+      if (distance > 0 && fits(above)) return { position: above, fuzz, before, after };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Number of leading and trailing context lines to ignore at a fuzz factor
+ */
+function trimContext(lines: DiffLine[], fuzz: number): { before: number; after: number } {
+  let before = 0;
+  while (before < fuzz && lines[before]?.type === "context") before++;
+
+  let after = 0;
+  while (after < fuzz && lines.length - after - 1 > before &&
+    lines[lines.length - after - 1].type === "context") after++;
+
+  return { before, after };
+}
+
+/**
+ * Explain why a hunk does not apply at its expected position
+ */
+function describeMismatch(
+  lines: string[],
+  hunk: Hunk,
+  expected: number,
+  normalize: (line: string) => string
+): string {
+  const old = hunk.lines.filter(line => line.type !== "add").map(line => line.content);
+
+  if (expected + old.length > lines.length) {
+    return `Hunk expects ${old.length} lines at line ${expected + 1}, but the file has ${lines.length} lines`;
+  }
+
+  const mismatch = old.findIndex((line, i) => normalize(lines[expected + i]) !== normalize(line));
+  if (mismatch === -1) {
+    return `Hunk at line ${expected + 1} overlaps a previously applied hunk`;
+  }
+
+  return `Context not found: line ${expected + mismatch + 1} is ${JSON.stringify(lines[expected + mismatch])}, ` +
+    `expected ${JSON.stringify(old[mismatch])}`;
+}
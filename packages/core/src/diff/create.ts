@@ -0,0 +1,123 @@
+import { matchLines } from "./merge";
+import { formatHunk } from "./parser";
+import { DiffLine, Hunk } from "./types";
+
+export interface CreatePatchOptions {
+  /**
+   * Unchanged lines shown around each change
+   * @default 3
+   */
+  context?: number;
+}
+
+interface Line {
+  content: string;
+  noNewline: boolean;
+}
+
+interface Edit extends DiffLine {
+  /** Zero-based positions in the old and new file before this line */
+  oldIndex: number;
+  newIndex: number;
+}
+
+/**
+ * Compute the hunks that turn `oldContent` into `newContent`
+ */
+export function diffLines(
+  oldContent: string,
+  newContent: string,
+  options: CreatePatchOptions = {}
+): Hunk[] {
+  const context = options.context ?? 3;
+  const a = splitLines(oldContent);
+  const b = splitLines(newContent);
+  // A missing final newline makes an otherwise equal line differ
+  const key = (line: Line) => line.noNewline ? `${line.content}\0` : line.content;
+  const matches = matchLines(a.map(key), b.map(key));
+
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [matchA, matchB] of [...matches, [a.length, b.length]]) {
+    while (i < matchA) edits.push({ type: "delete", ...a[i], oldIndex: i++, newIndex: j });
+    while (j < matchB) edits.push({ type: "add", ...b[j], oldIndex: i, newIndex: j++ });
+    if (matchA < a.length) edits.push({ type: "context", ...a[i], oldIndex: i++, newIndex: j++ });
+  }
+
+  const changed = edits.flatMap((edit, index) => edit.type === "context" ? [] : [index]);
+  const hunks: Hunk[] = [];
+  for (let start = 0; start < changed.length;) {
+    let end = start;
+    while (end + 1 < changed.length && changed[end + 1] - changed[end] <= context * 2) end++;
+
+    const slice = edits.slice(
+      Math.max(0, changed[start] - context),
+      Math.min(edits.length, changed[end] + context + 1)
+    );
+    hunks.push(toHunk(slice));
+    start = end + 1;
+  }
+  return hunks;
+}
+
+/**
+ * Unified diff between two versions of a file, with git-style headers.
+ * A null path marks a created or deleted file.
+ */
+export function createPatch(
+  oldPath: string | null,
+  newPath: string | null,
+  oldContent: string,
+  newContent: string,
+  options: CreatePatchOptions = {}
+): string {
+  const hunks = diffLines(oldContent, newContent, options);
+  const header = [`diff --git a/${oldPath ?? newPath} b/${newPath ?? oldPath}`];
+  if (oldPath && newPath && oldPath !== newPath) {
+    header.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+  }
+  if (hunks.length > 0) {
+    header.push(
+      oldPath ? `--- a/${oldPath}` : "--- /dev/null",
+      newPath ? `+++ b/${newPath}` : "+++ /dev/null"
+    );
+  }
+
+  return [...header, ...hunks.map(formatHunk)].join("\n");
+}
+
+function toHunk(edits: Edit[]): Hunk {
+  const oldLines = edits.filter(edit => edit.type !== "add").length;
+  const newLines = edits.filter(edit => edit.type !== "delete").length;
+  // Empty ranges point at the line before them, as in `git diff`
+  const start = (index: number, count: number) => count === 0 ? index : index + 1;
+
+  return {
+    oldStart: start(edits[0].oldIndex, oldLines),
+    oldLines,
+    newStart: start(edits[0].newIndex, newLines),
+    newLines,
+    lines: edits.map(({ type, content, noNewline }) => ({
+      type,
+      content,
+      ...(noNewline && { noNewline })
+    }))
+  };
+}
+
+function splitLines(text: string): Line[] {
+  if (text === "") {
+    return [];
+  }
+
+  const lines = text.split("\n");
+  const noNewline = lines[lines.length - 1] !== "";
+  if (!noNewline) {
+    lines.pop();
+  }
+  return lines.map((content, index) => ({
+    content,
+    noNewline: noNewline && index === lines.length - 1
+  }));
+}
@@ -0,0 +1,8 @@
+export { applyHunks, PatchApplyError } from "./apply";
+export type { ApplyOptions, HunkResult, PatchResult } from "./apply";
+export { createPatch, diffLines } from "./create";
+export type { CreatePatchOptions } from "./create";
+export { matchLines, merge3, MergeConflictError } from "./merge";
+export type { FileConflicts, MergeConflict, MergeLabels, MergeResult } from "./merge";
+export { DiffParseError, formatHunk, newFileContent, parsePatch } from "./parser";
+export type { DiffLine, DiffLineType, FilePatch, FilePatchType, Hunk } from "./types";
@@ -0,0 +1,222 @@
+import { PRAutomatorError } from "../error";
+
+export interface MergeLabels {
+  ours?: string;
+  base?: string;
+  theirs?: string;
+}
+
+export interface MergeConflict {
+  /** 1-based line of the `<<<<<<<` marker in the merged content */
+  line: number;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+export interface MergeResult {
+  /** Merged text, with conflict markers where both sides changed the same lines */
+  content: string;
+  conflicts: MergeConflict[];
+  clean: boolean;
+}
+
+export interface FileConflicts {
+  path: string;
+  conflicts: MergeConflict[];
+}
+
+export class MergeConflictError extends PRAutomatorError {
+  constructor(
+    public readonly files: FileConflicts[],
+    metadata?: Record<string, unknown>
+  ) {
+    super(
+      "validation",
+      `${files.length} file(s) changed on the base branch conflict with the plan: ` +
+        files.map(file => `${file.path} (line ${file.conflicts.map(conflict => conflict.line).join(", ")})`).join(", "),
+      { ...metadata, files, source: "diff" }
+    );
+  }
+}
+
+/**
+ * Three-way merge of two descendants of `base`, line by line like `git
+ * merge-file --diff3`. Regions changed on only one side take that side;
+ * regions changed differently on both sides become conflicts.
+ */
+export function merge3(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = {}
+): MergeResult {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+  const toOurs = new Map(matchLines(baseLines, ourLines));
+  const toTheirs = new Map(matchLines(baseLines, theirLines));
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  for (;;) {
+    // Lines unchanged on both sides
+    while (i < baseLines.length && toOurs.get(i) === j && toTheirs.get(i) === k) {
+      output.push(baseLines[i++]);
+      j++;
+      k++;
+    }
+
+    // The changed region runs up to the next line both sides kept
+    let next = i;
+    while (next < baseLines.length && !(toOurs.has(next) && toTheirs.has(next))) next++;
+    const ourEnd = next < baseLines.length ? toOurs.get(next)! : ourLines.length;
+    const theirEnd = next < baseLines.length ? toTheirs.get(next)! : theirLines.length;
+
+    const region = {
+      base: baseLines.slice(i, next),
+      ours: ourLines.slice(j, ourEnd),
+      theirs: theirLines.slice(k, theirEnd)
+    };
+
+    if (sameLines(region.ours, region.theirs) || sameLines(region.base, region.theirs)) {
+      output.push(...region.ours);
+    } else if (sameLines(region.base, region.ours)) {
+      output.push(...region.theirs);
+    } else {
+      conflicts.push({
+        line: output.length + 1,
+        base: region.base.map(stripNewline),
+        ours: region.ours.map(stripNewline),
+        theirs: region.theirs.map(stripNewline)
+      });
+      output.push(
+        `<<<<<<< ${labels.ours ?? "ours"}\n`,
+        ...terminate(region.ours),
+        `||||||| ${labels.base ?? "base"}\n`,
+        ...terminate(region.base),
+        "=======\n",
+        ...terminate(region.theirs),
+        `>>>>>>> ${labels.theirs ?? "theirs"}\n`
+      );
+    }
+
+    i = next;
+    j = ourEnd;
+    k = theirEnd;
+    if (i >= baseLines.length && j >= ourLines.length && k >= theirLines.length) break;
+  }
+
+  return {
+    content: output.join(""),
+    conflicts,
+    clean: conflicts.length === 0
+  };
+}
+
+/**
+ * Pairs of indices of equal lines in a longest common subsequence of `a`
+ * and `b`, in increasing order
+ */
+export function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const matches: Array<[number, number]> = [];
+  for (let index = 0; index < start; index++) {
+    matches.push([index, index]);
+  }
+  for (const [x, y] of myers(a.slice(start, endA), b.slice(start, endB))) {
+    matches.push([x + start, y + start]);
+  }
+  for (let index = 0; index < a.length - endA; index++) {
+    matches.push([endA + index, endB + index]);
+  }
+  return matches;
+}
+
+/**
+ * Myers' O(ND) shortest edit script, returning the matched lines
+ */
+function myers(a: string[], b: string[]): Array<[number, number]> {
+  if (a.length === 0 || b.length === 0) return [];
+
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Only diagonals -d-1..d+1 are read at step d, so that is all we keep
+  const trace: Int32Array[] = [];
+
+  search:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= a.length && y >= b.length) break search;
+    }
+  }
+
+  const matches: Array<[number, number]> = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const at = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      matches.push([--x, --y]);
+    }
+    if (d > 0) {
+      x = previousX;
+      y = previousY;
+    }
+  }
+
+  return matches.reverse();
+}
+
+/**
+ * Split into lines that keep their terminator, so a missing final newline
+ * counts as a change
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+function terminate(lines: string[]): string[] {
+  if (lines.length === 0 || lines[lines.length - 1].endsWith("\n")) return lines;
+  return [...lines.slice(0, -1), `${lines[lines.length - 1]}\n`];
+}
+
+function stripNewline(line: string): string {
+  return line.replace(/\n$/, "");
+}
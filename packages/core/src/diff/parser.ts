@@ -0,0 +1,291 @@
+import { PRAutomatorError } from "../error";
+import { DiffLine, FilePatch, Hunk } from "./types";
+
+export class DiffParseError extends PRAutomatorError {
+  constructor(message: string, metadata?: Record<string, unknown>) {
+    super("validation", message, { ...metadata, source: "diff" });
+  }
+}
+
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const GIT_HEADER_REGEX = /^diff --git ("?a\/.+?"?) ("?b\/.+"?)$/;
+const DEV_NULL = "/dev/null";
+
+/**
+ * Parse a unified diff, plain or as produced by `git diff`/`git format-patch`,
+ * into one entry per file. Text outside of file sections (commit messages,
+ * model commentary) is ignored.
+ *
+ * Hunk line counts written by models are frequently wrong, so a hunk extends
+ * over every following line that looks like hunk content and its counts are
+ * recomputed from the lines actually present.
+ */
+export function parsePatch(diff: string): FilePatch[] {
+  return new PatchParser(diff).parse();
+}
+
+class PatchParser {
+  private readonly lines: string[];
+  private readonly patches: FilePatch[] = [];
+  private file: FilePatch | null = null;
+  private hunk: Hunk | null = null;
+  private remaining = { old: 0, new: 0 };
+  private inBinaryPatch = false;
+
+  constructor(diff: string) {
+    this.lines = diff.split("\n").map(line => line.replace(/\r$/, ""));
+  }
+
+  parse(): FilePatch[] {
+    for (let i = 0; i < this.lines.length; i++) {
+      const line = this.lines[i];
+
+      if (this.hunk && this.addHunkLine(line, i)) continue;
+      this.finishHunk();
+
+      if (line.startsWith("diff --git ")) {
+        const match = line.match(GIT_HEADER_REGEX);
+        this.startFile(
+          match ? stripPrefix(unquote(match[1])) : null,
+          match ? stripPrefix(unquote(match[2])) : null
+        );
+        continue;
+      }
+
+      if (this.inBinaryPatch) continue;
+
+      if (line.startsWith("@@")) {
+        this.startHunk(line, i);
+        continue;
+      }
+
+      if (line.startsWith("--- ") && this.lines[i + 1]?.startsWith("+++ ")) {
+        this.applyPathHeaders(line, this.lines[++i]);
+        continue;
+      }
+
+      if (this.file) {
+        applyExtendedHeader(this.file, line);
+        this.inBinaryPatch = line === "GIT binary patch";
+      }
+    }
+
+    this.finishHunk();
+    return this.patches;
+  }
+
+  private startFile(oldPath: string | null, newPath: string | null): FilePatch {
+    this.finishHunk();
+    this.inBinaryPatch = false;
+    this.file = {
+      type: "modify",
+      oldPath,
+      newPath,
+      binary: false,
+      hunks: [],
+      additions: 0,
+      deletions: 0
+    };
+    this.patches.push(this.file);
+    return this.file;
+  }
+
+  private startHunk(line: string, index: number): void {
+    const match = line.match(HUNK_HEADER_REGEX);
+    if (!match) {
+      throw new DiffParseError(`Malformed hunk header on line ${index + 1}: ${line}`, {
+        line: index + 1
+      });
+    }
+
+    // Models often send a bare hunk for a file named elsewhere in the plan
+    const file = this.file ?? this.startFile(null, null);
+    const [, oldStart, oldLines, newStart, newLines, section] = match;
+    this.hunk = {
+      oldStart: parseInt(oldStart, 10),
+      oldLines: oldLines === undefined ? 1 : parseInt(oldLines, 10),
+      newStart: parseInt(newStart, 10),
+      newLines: newLines === undefined ? 1 : parseInt(newLines, 10),
+      ...(section && { section }),
+      lines: []
+    };
+    this.remaining = { old: this.hunk.oldLines, new: this.hunk.newLines };
+    file.hunks.push(this.hunk);
+  }
+
+  /**
+   * Consume a line belonging to the open hunk; false when the hunk has ended
+   */
+  private addHunkLine(line: string, index: number): boolean {
+    const hunk = this.hunk!;
+    const file = this.file!;
+
+    if (line.startsWith("\\")) {
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous) previous.noNewline = true;
+      return true;
+    }
+
+    const counted = this.remaining.old > 0 || this.remaining.new > 0;
+    const isLast = index === this.lines.length - 1;
+    // Models often strip the single space from blank context lines
+    const marker = line === "" && counted && !isLast ? " " : line[0];
+    if (marker !== " " && marker !== "+" && marker !== "-") {
+      return false;
+    }
+    // A header for the next file closes the hunk even if its counts promised
+    // more lines. Within the counts a `---`/`+++` pair can also be content,
+    // so it only counts as a header when a hunk follows it.
+    const isFileHeader = line.startsWith("--- ") && this.lines[index + 1]?.startsWith("+++ ");
+    if (isFileHeader && (!counted || this.lines[index + 2]?.startsWith("@@"))) return false;
+    // Past the declared counts, a signature separator ends the patch too
+    if (!counted && line === "-- ") return false;
+
+    const entry: DiffLine = {
+      type: marker === "+" ? "add" : marker === "-" ? "delete" : "context",
+      content: line.slice(1)
+    };
+    hunk.lines.push(entry);
+
+    if (entry.type !== "add") this.remaining.old--;
+    if (entry.type !== "delete") this.remaining.new--;
+    if (entry.type === "add") file.additions++;
+    if (entry.type === "delete") file.deletions++;
+    return true;
+  }
+
+  private finishHunk(): void {
+    if (!this.hunk) return;
+    this.hunk.oldLines = this.hunk.lines.filter(line => line.type !== "add").length;
+    this.hunk.newLines = this.hunk.lines.filter(line => line.type !== "delete").length;
+    this.hunk = null;
+  }
+
+  /**
+   * `---`/`+++` lines, which open a file section in plain unified diffs
+   */
+  private applyPathHeaders(oldLine: string, newLine: string): void {
+    const file = this.file && this.file.hunks.length === 0 && !this.file.binary
+      ? this.file
+      : this.startFile(null, null);
+    const oldPath = parsePathHeader(oldLine);
+    const newPath = parsePathHeader(newLine);
+
+    if (oldPath === null) {
+      file.type = "create";
+      file.oldPath = null;
+    } else if (file.type !== "create") {
+      file.oldPath = oldPath;
+    }
+
+    if (newPath === null) {
+      file.type = "delete";
+      file.newPath = null;
+    } else if (file.type !== "delete") {
+      file.newPath = newPath;
+    }
+  }
+}
+
+/**
+ * Git's extended header lines between `diff --git` and the first hunk,
+ * each with what it says about the file
+ */
+const EXTENDED_HEADERS: Array<[RegExp, (file: FilePatch, match: RegExpMatchArray) => void]> = [
+  [/^new file mode (\d+)$/, (file, match) => {
+    file.type = "create";
+    file.oldPath = null;
+    file.newMode = parseInt(match[1], 8);
+  }],
+  [/^deleted file mode (\d+)$/, (file, match) => {
+    file.type = "delete";
+    file.newPath = null;
+    file.oldMode = parseInt(match[1], 8);
+  }],
+  [/^old mode (\d+)$/, (file, match) => {
+    file.oldMode = parseInt(match[1], 8);
+  }],
+  [/^new mode (\d+)$/, (file, match) => {
+    file.newMode = parseInt(match[1], 8);
+  }],
+  [/^similarity index (\d+)%$/, (file, match) => {
+    file.similarity = parseInt(match[1], 10);
+  }],
+  [/^(rename|copy) from (.+)$/, (file, match) => {
+    file.type = match[1] as "rename" | "copy";
+    file.oldPath = unquote(match[2]);
+  }],
+  [/^(rename|copy) to (.+)$/, (file, match) => {
+    file.type = match[1] as "rename" | "copy";
+    file.newPath = unquote(match[2]);
+  }],
+  [/^index ([0-9a-f]+)\.\.([0-9a-f]+)(?: (\d+))?$/, (file, match) => {
+    file.oldHash = match[1];
+    file.newHash = match[2];
+    if (match[3]) {
+      file.oldMode ??= parseInt(match[3], 8);
+      file.newMode ??= parseInt(match[3], 8);
+    }
+  }],
+  [/^GIT binary patch$|^Binary files .* differ$/, file => {
+    file.binary = true;
+  }]
+];
+
+function applyExtendedHeader(file: FilePatch, line: string): void {
+  for (const [pattern, apply] of EXTENDED_HEADERS) {
+    const match = line.match(pattern);
+    if (match) {
+      apply(file, match);
+      return;
+    }
+  }
+}
+
+/**
+ * Path from a `---`/`+++` line, or null for /dev/null
+ */
+function parsePathHeader(line: string): string | null {
+  // Drop the timestamp some tools append after a tab
+  const raw = unquote(line.slice(4).split("\t")[0].trim());
+  return raw === DEV_NULL ? null : stripPrefix(raw);
+}
+
+function stripPrefix(path: string): string {
+  return path.replace(/^[ab]\//, "");
+}
+
+function unquote(path: string): string {
+  if (!path.startsWith("\"") || !path.endsWith("\"")) return path;
+  return path.slice(1, -1).replace(/\\(["\\])/g, "$1").replace(/\\t/g, "\t").replace(/\\n/g, "\n");
+}
+
+/**
+ * Content of the file a patch creates from nothing: the added lines of its
+ * first file. Undefined when it adds none.
+ */
+export function newFileContent(diff: string): string | undefined {
+  const lines = parsePatch(diff)[0]?.hunks
+    .flatMap(hunk => hunk.lines)
+    .filter(line => line.type === "add")
+    .map(line => line.content);
+  return lines?.length ? `${lines.join("\n")}\n` : undefined;
+}
+
+/**
+ * Render a hunk back to unified diff text
+ */
+export function formatHunk(hunk: Hunk): string {
+  const range = (start: number, count: number) => count === 1 ? `${start}` : `${start},${count}`;
+  const header = `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@` +
+    (hunk.section ? ` ${hunk.section}` : "");
+  const markers = { context: " ", add: "+", delete: "-" };
+
+  return [
+    header,
+    ...hunk.lines.flatMap(line => [
+      markers[line.type] + line.content,
+      ...(line.noNewline ? ["\\ No newline at end of file"] : [])
+    ])
+  ].join("\n");
+}
@@ -0,0 +1,40 @@
+export type DiffLineType = "context" | "add" | "delete";
+
+export interface DiffLine {
+  type: DiffLineType;
+  /** Line text without the leading marker */
+  content: string;
+  /** Followed by `\ No newline at end of file` */
+  noNewline?: boolean;
+}
+
+export interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the closing `@@`, usually the enclosing function */
+  section?: string;
+  lines: DiffLine[];
+}
+
+export type FilePatchType = "create" | "modify" | "delete" | "rename" | "copy";
+
+export interface FilePatch {
+  type: FilePatchType;
+  /** Null for created files, or when the diff has no file headers */
+  oldPath: string | null;
+  /** Null for deleted files, or when the diff has no file headers */
+  newPath: string | null;
+  oldMode?: number;
+  newMode?: number;
+  /** Percentage from `similarity index` on renames and copies */
+  similarity?: number;
+  /** Abbreviated blob hashes from the `index` line */
+  oldHash?: string;
+  newHash?: string;
+  binary: boolean;
+  hunks: Hunk[];
+  additions: number;
+  deletions: number;
+}
@@ -1,10 +1,12 @@
 import { PRAutomatorError } from "./error";
-import { exec } from "child_process";
+import { exec, execFile } from "child_process";
 import { promisify } from "util";
 import { promises as fs } from "fs";
+import { tmpdir } from "os";
 import path from "path";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface CodeChange {
   path: string;
@@ -22,6 +24,15 @@ export interface GitOperationOptions {
   };
   dryRun?: boolean;
   noVerify?: boolean;
+  /** Generated from the changes when omitted */
+  message?: string;
+  /**
+   * Commit a new branch starts from
+   * @default "HEAD"
+   */
+  base?: string;
+  /** @default "origin" */
+  remote?: string;
 }
 
 export class GitError extends PRAutomatorError {
@@ -34,34 +45,40 @@ export class GitOperations {
   constructor(private readonly repoPath: string) {}
 
   /**
-   * Apply a set of changes to a branch atomically
+   * Commit a set of changes to a branch and push it. The commit is made in
+   * a temporary worktree, so the working copy, its checked-out branch and
+   * any uncommitted work in it are left alone. The branch is created from
+   * `base` if it does not exist. Returns the new commit's SHA, or the
+   * branch's current SHA for a dry run.
    */
   async applyChanges(
     changes: CodeChange[],
     branch: string,
     options: GitOperationOptions = {}
-  ): Promise<void> {
+  ): Promise<string> {
     try {
-      // Validate branch exists
-      await this.checkBranchExists(branch);
-
-      // Switch to branch
-      await this.checkout(branch);
-
-      // Create temporary staging area
-      const stagingDir = await this.createStagingArea();
+      await this.checkNotCheckedOut(branch);
+      const start = await this.resolveBranch(branch) ?? options.base ?? "HEAD";
 
+      const dir = await this.createWorktree(start);
       try {
-        // Apply changes to staging
-        await this.stageChanges(changes, stagingDir);
-
-        // Commit changes
-        if (!options.dryRun) {
-          await this.commitStagedChanges(branch, options);
+        await this.stageChanges(changes, dir);
+        if (options.dryRun) {
+          return await this.revParse("HEAD", dir);
         }
+
+        const sha = await this.commitStagedChanges(dir, changes, options);
+        await this.git([
+          "push",
+          ...(options.noVerify ? ["--no-verify"] : []),
+          options.remote ?? "origin",
+          `${sha}:refs/heads/${branch}`
+        ], dir);
+        await this.git(["update-ref", `refs/heads/${branch}`, sha], this.repoPath);
+        return sha;
       } finally {
-        // Cleanup
-        await fs.rm(stagingDir, { recursive: true, force: true });
+        // A worktree left behind must not hide why the changes failed
+        await this.removeWorktree(dir).catch(() => undefined);
       }
     } catch (error) {
       throw new GitError(
@@ -71,58 +88,66 @@ export class GitOperations {
     }
   }
 
-  private async checkBranchExists(branch: string): Promise<void> {
-    try {
-      await execAsync(`git show-ref --verify refs/heads/${branch}`, {
-        cwd: this.repoPath
-      });
-    } catch {
-      throw new GitError(`Branch ${branch} does not exist`);
+  /**
+   * Moving the branch under its checkout would make the committed changes
+   * show up reverted in the working copy
+   */
+  private async checkNotCheckedOut(branch: string): Promise<void> {
+    const { stdout } = await execAsync("git worktree list --porcelain", { cwd: this.repoPath });
+    if (stdout.split("\n").includes(`branch refs/heads/${branch}`)) {
+      throw new GitError(`Branch ${branch} is checked out; switch to another branch first`);
     }
   }
 
-  private async checkout(branch: string): Promise<void> {
+  private async resolveBranch(branch: string): Promise<string | null> {
     try {
-      await execAsync(`git checkout ${branch}`, { cwd: this.repoPath });
-    } catch (error) {
-      throw new GitError(`Failed to checkout branch ${branch}`, {
-        branch,
-        error: error.message
-      });
+      return await this.revParse(`refs/heads/${branch}`, this.repoPath);
+    } catch {
+      return null;
     }
   }
 
-  private async createStagingArea(): Promise<string> {
-    const stagingDir = path.join(this.repoPath, ".git", "staging");
-    await fs.mkdir(stagingDir, { recursive: true });
-    return stagingDir;
+  private async revParse(ref: string, cwd: string): Promise<string> {
+    const { stdout } = await this.git(["rev-parse", "--verify", `${ref}^{commit}`], cwd);
+    return stdout.trim();
   }
 
   private async stageChanges(
     changes: CodeChange[],
-    stagingDir: string
+    dir: string
   ): Promise<void> {
     for (const change of changes) {
-      const targetPath = path.join(this.repoPath, change.path);
-      const stagingPath = path.join(stagingDir, change.path);
+      const targetPath = path.join(dir, change.path);
 
-      await fs.mkdir(path.dirname(stagingPath), { recursive: true });
+      if (change.oldPath) {
+        await this.git(["rm", "-q", "--", change.oldPath], dir);
+      }
 
       switch (change.operation) {
         case "create":
         case "modify":
-          if (!change.content) {
+          if (change.content === undefined) {
             throw new GitError(
               `Missing content for ${change.operation} operation on ${change.path}`
             );
           }
-          await fs.writeFile(stagingPath, change.content);
-          await execAsync(`git add "${change.path}"`, { cwd: this.repoPath });
+          await fs.mkdir(path.dirname(targetPath), { recursive: true });
+          if (change.mode === "120000") {
+            // The content of a symlink is its target
+            await fs.rm(targetPath, { force: true });
+            await fs.symlink(change.content, targetPath);
+          } else {
+            await fs.writeFile(targetPath, change.content);
+            if (change.mode) {
+              await fs.chmod(targetPath, change.mode === "100755" ? 0o755 : 0o644);
+            }
+          }
+          await this.git(["add", "--", change.path], dir);
           break;
 
         case "delete":
           try {
-            await execAsync(`git rm "${change.path}"`, { cwd: this.repoPath });
+            await this.git(["rm", "-q", "--", change.path], dir);
           } catch (error) {
             throw new GitError(`Failed to delete file ${change.path}`, {
               path: change.path,
@@ -138,28 +163,144 @@ export class GitOperations {
   }
 
   private async commitStagedChanges(
-    branch: string,
+    dir: string,
+    changes: CodeChange[],
     options: GitOperationOptions
-  ): Promise<void> {
-    const args = ["commit"];
+  ): Promise<string> {
+    const args = ["commit", "-q"];
 
     if (options.noVerify) {
       args.push("--no-verify");
     }
 
     if (options.author) {
-      args.push(
-        `--author="${options.author.name} <${options.author.email}>"`
+      args.push(`--author=${options.author.name} <${options.author.email}>`);
+    }
+
+    args.push("-m", options.message ?? this.generateCommitMessage(changes));
+
+    try {
+      await this.git(args, dir);
+      return await this.revParse("HEAD", dir);
+    } catch (error) {
+      throw new GitError("Failed to commit changes", {
+        error: error.stderr || error.message
+      });
+    }
+  }
+
+  /**
+   * Summary line naming the file for a single change, with every change
+   * listed in the body otherwise
+   */
+  private generateCommitMessage(changes: CodeChange[]): string {
+    const verbs = { create: "Add", modify: "Update", delete: "Remove" };
+    const describe = (change: CodeChange) => change.oldPath
+      ? `Move ${change.oldPath} to ${change.path}`
+      : `${verbs[change.operation]} ${change.path}`;
+
+    if (changes.length === 1) {
+      return describe(changes[0]);
+    }
+    return [
+      `Update ${changes.length} files`,
+      "",
+      ...changes.map(change => `- ${describe(change)}`)
+    ].join("\n");
+  }
+
+  /**
+   * Arguments are passed without a shell, so paths and messages need no
+   * quoting
+   */
+  private git(args: string[], cwd: string): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync("git", args, { cwd, maxBuffer: 50 * 1024 * 1024 });
+  }
+
+  /**
+   * List files touched by the most recent commits, most recent first
+   */
+  async getRecentlyChangedFiles(commits: number = 20): Promise<string[]> {
+    try {
+      const { stdout } = await execAsync(
+        `git log -n ${commits} --name-only --pretty=format:`,
+        { cwd: this.repoPath }
       );
+
+      return Array.from(new Set(
+        stdout.split("\n").map(line => line.trim()).filter(Boolean)
+      ));
+    } catch (error) {
+      throw new GitError("Failed to list recently changed files", {
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * SHA of the commit checked out in the working tree
+   */
+  async getHeadSha(): Promise<string> {
+    try {
+      const { stdout } = await execAsync("git rev-parse HEAD", { cwd: this.repoPath });
+      return stdout.trim();
+    } catch (error) {
+      throw new GitError("Failed to resolve HEAD", {
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Read a file as it was at a commit, or null if it did not exist there
+   */
+  async getFileAt(sha: string, filePath: string): Promise<string | null> {
+    try {
+      const { stdout } = await this.git(["show", `${sha}:${filePath}`], this.repoPath);
+      return stdout;
+    } catch (error) {
+      if (/does not exist|exists on disk, but not in/.test(error.stderr ?? error.message)) {
+        return null;
+      }
+      throw new GitError(`Failed to read ${filePath} at ${sha}`, {
+        error: error.message
+      });
     }
+  }
 
-    args.push("-m", "feat: apply automated changes");
+  /**
+   * Check out a commit into a new temporary worktree, detached from any
+   * branch, leaving the working copy alone. Fetches the commit if it is
+   * not available locally.
+   */
+  async createWorktree(ref: string): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(tmpdir(), "automate-pr-"));
+    try {
+      try {
+        await this.git(["cat-file", "-e", `${ref}^{commit}`], this.repoPath);
+      } catch {
+        await this.git(["fetch", "origin", ref], this.repoPath);
+      }
+      await this.git(["worktree", "add", "--detach", dir, ref], this.repoPath);
+      return dir;
+    } catch (error) {
+      await fs.rm(dir, { recursive: true, force: true });
+      throw new GitError(`Failed to create a worktree at ${ref}`, {
+        ref,
+        error: error.message
+      });
+    }
+  }
 
+  /**
+   * Delete a worktree made by `createWorktree`, including changes in it
+   */
+  async removeWorktree(dir: string): Promise<void> {
     try {
-      await execAsync(`git ${args.join(" ")}`, { cwd: this.repoPath });
+      await this.git(["worktree", "remove", "--force", dir], this.repoPath);
     } catch (error) {
-      throw new GitError(`Failed to commit changes to ${branch}`, {
-        branch,
+      throw new GitError(`Failed to remove worktree ${dir}`, {
+        dir,
         error: error.message
       });
     }
@@ -9,6 +9,98 @@ export type { Config } from "./config";
 // Security
 export { CredentialVault } from "./security/vault";
 export type { VaultOptions } from "./security/vault";
+export { MemoryTokenStore, TokenManager } from "./auth/token-manager";
+export type { TokenStore } from "./auth/token-manager";
+
+// Repository access
+export { GitOperations, GitError } from "./git";
+export type { CodeChange, GitOperationOptions } from "./git";
+export { RepoAnalyzer } from "./repo-analyzer";
+export { loadRepoContext } from "./repo-context";
+
+// Diffs
+export {
+  applyHunks,
+  createPatch,
+  DiffParseError,
+  diffLines,
+  formatHunk,
+  matchLines,
+  merge3,
+  MergeConflictError,
+  parsePatch,
+  PatchApplyError
+} from "./diff";
+export type {
+  ApplyOptions,
+  CreatePatchOptions,
+  DiffLine,
+  DiffLineType,
+  FileConflicts,
+  FilePatch,
+  FilePatchType,
+  Hunk,
+  HunkResult,
+  MergeConflict,
+  MergeLabels,
+  MergeResult,
+  PatchResult
+} from "./diff";
+
+// Validation
+export { collectFindings, validateCodeChanges, ValidationError } from "./validation";
+export type { ValidationOptions, ValidationResult, ValidationRule } from "./validation";
+
+// Plan files
+export {
+  fingerprintContext,
+  PLAN_FILE_VERSION,
+  readPlanFile,
+  writePlanFile
+} from "./plan-file";
+export type { PlanFile } from "./plan-file";
+
+// Checkpointed runs
+export { DEFAULT_RUN_DIR, Run, RUN_STAGES, RUN_STATE_VERSION, RunStore } from "./run-store";
+export type { RunStage, RunState, RunStatus, RunTarget, StackProgress } from "./run-store";
+
+// Stacked pull requests
+export { groupOf, partitionPlan } from "./stack";
+
+// Verification
+export { describeFailures, detectVerifyCommands, VERIFY_STEPS, verifyChanges } from "./verify";
+export type {
+  VerificationReport,
+  VerifyCommand,
+  VerifyOptions,
+  VerifyStep,
+  VerifyStepResult
+} from "./verify";
+
+// Batch runs
+export {
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_BATCH_REPORT,
+  readBatchManifest,
+  runBatch,
+  writeBatchReport
+} from "./batch";
+export type { BatchJob, BatchManifest, BatchOptions, BatchReport, BatchResult } from "./batch";
+
+// Plugins
+export { DEFAULT_REPO_CONFIG, loadPlugins, PluginError, PluginHost } from "./plugins";
+export type {
+  CommitEvent,
+  PlanEvent,
+  PluginFactory,
+  PRSection,
+  PullRequestEvent,
+  RequestEvent,
+  WorkflowHook,
+  WorkflowHooks,
+  WorkflowPlugin
+} from "./plugins";
 
 export { PRWorkflow, WorkflowError } from "./workflow";
-export type { WorkflowOptions } from "./workflow"; 
\ No newline at end of file
+export type { WorkflowGitHub, WorkflowOptions } from "./workflow";
+export type { FilePreview, PreviewStats, PRPreview, StackedPR } from "./preview"; 
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { createHash } from "crypto";
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { RelativePathSchema } from "@automate-pr/schema";
+import { PRPlan, RepoContext } from "@automate-pr/types";
+import { PRAutomatorError } from "./error";
+import { ValidationResult } from "./validation";
+
+export const PLAN_FILE_VERSION = 1;
+
+/**
+ * A generated plan saved for review, which can be applied later without
+ * calling the model again
+ */
+export interface PlanFile {
+  version: typeof PLAN_FILE_VERSION;
+  createdAt: string;
+  prompt: string;
+  repository: { owner: string; repo: string };
+  baseBranch: string;
+  /** Commit the plan's diffs are relative to */
+  baseSha?: string;
+  /** Hash of the repository context the plan was generated from */
+  fingerprint: string;
+  /** Existing pull request the plan adds to */
+  pullRequest?: number;
+  /** Issue the plan resolves */
+  issue?: number;
+  plan: PRPlan;
+  /** Findings when the plan was generated */
+  findings: ValidationResult[];
+}
+
+const PlanFileSchema = z.object({
+  version: z.literal(PLAN_FILE_VERSION),
+  createdAt: z.string(),
+  prompt: z.string(),
+  repository: z.object({ owner: z.string(), repo: z.string() }),
+  baseBranch: z.string(),
+  baseSha: z.string().optional(),
+  fingerprint: z.string(),
+  pullRequest: z.number().optional(),
+  issue: z.number().optional(),
+  plan: z.object({
+    files: z.array(z.object({
+      // Plan files come from teammates, not only from this machine's model
+      path: RelativePathSchema,
+      action: z.enum(["create", "modify", "delete", "rename"]),
+      content: z.string().optional(),
+      diff: z.string().optional(),
+      oldPath: RelativePathSchema.optional(),
+      mode: z.number().optional()
+    })),
+    pr: z.object({
+      title: z.string(),
+      description: z.string(),
+      reviewers: z.array(z.string()),
+      labels: z.array(z.string()).optional(),
+      draft: z.boolean().optional()
+    })
+  }).passthrough(),
+  findings: z.array(z.object({
+    type: z.enum(["secret", "license", "quality", "security"]),
+    level: z.enum(["info", "warning", "error"]),
+    message: z.string()
+  }).passthrough())
+});
+
+/**
+ * Identifies the repository state a plan was generated from. The local
+ * checkout path and branch are left out and file paths are made relative
+ * to it, so the hash matches across machines and checkouts.
+ */
+export function fingerprintContext(context: RepoContext): string {
+  const { root, branch, ...portable } = context;
+  const files = portable.files.map(file => ({ ...file, path: relativePath(root, file.path) }));
+  return createHash("sha256")
+    .update(JSON.stringify({ ...portable, files }))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+// Same normalization as the AI context builder
+function relativePath(root: string, filePath: string): string {
+  const relative = root && (path.isAbsolute(filePath) || filePath.startsWith(root))
+    ? path.relative(root, filePath)
+    : filePath;
+  return relative.split(path.sep).join("/");
+}
+
+export async function writePlanFile(filePath: string, file: PlanFile): Promise<void> {
+  try {
+    await writeFile(filePath, JSON.stringify(file, null, 2) + "\n");
+  } catch (error) {
+    throw PRAutomatorError.system(`Failed to write plan file ${filePath}: ${error.message}`, {
+      path: filePath,
+      error
+    });
+  }
+}
+
+export async function readPlanFile(filePath: string): Promise<PlanFile> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(filePath, "utf-8"));
+  } catch (error) {
+    throw PRAutomatorError.user(`Failed to read plan file ${filePath}: ${error.message}`, {
+      path: filePath,
+      error
+    });
+  }
+
+  const version = (data as { version?: unknown })?.version;
+  if (version !== PLAN_FILE_VERSION) {
+    throw PRAutomatorError.user(
+      `Unsupported plan file version ${JSON.stringify(version)} in ${filePath} (expected ${PLAN_FILE_VERSION})`,
+      { path: filePath, code: "PLAN_VERSION_UNSUPPORTED" }
+    );
+  }
+
+  const result = PlanFileSchema.safeParse(data);
+  if (!result.success) {
+    throw PRAutomatorError.user(
+      `Invalid plan file ${filePath}: ${result.error.issues
+        .map(issue => `${issue.path.join(".")} ${issue.message}`)
+        .join("; ")}`,
+      { path: filePath, error: result.error }
+    );
+  }
+  return result.data as PlanFile;
+}
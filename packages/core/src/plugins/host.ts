@@ -0,0 +1,57 @@
+import { PRAutomatorError } from "../error";
+import { ValidationRule } from "../validation";
+import { PlanEvent, PRSection, WorkflowHook, WorkflowHooks, WorkflowPlugin } from "./types";
+
+type HookEvent<K extends WorkflowHook> = Parameters<NonNullable<WorkflowHooks[K]>>[0];
+
+export class PluginError extends PRAutomatorError {
+  constructor(plugin: string, stage: string, cause: Error) {
+    super("system", `Plugin ${plugin} failed in ${stage}: ${cause.message}`, {
+      plugin,
+      stage,
+      error: cause
+    });
+  }
+}
+
+/**
+ * Runs the handlers registered by a set of plugins, in registration order
+ */
+export class PluginHost {
+  constructor(private readonly plugins: WorkflowPlugin[] = []) {}
+
+  get rules(): ValidationRule[] {
+    return this.plugins.flatMap(plugin => plugin.rules ?? []);
+  }
+
+  async run<K extends WorkflowHook>(hook: K, event: HookEvent<K>): Promise<void> {
+    for (const plugin of this.plugins) {
+      const handler = plugin.hooks?.[hook] as ((event: HookEvent<K>) => unknown) | undefined;
+      if (!handler) {
+        continue;
+      }
+
+      try {
+        await handler(event);
+      } catch (error) {
+        throw new PluginError(plugin.name, hook, error as Error);
+      }
+    }
+  }
+
+  async sections(event: PlanEvent): Promise<PRSection[]> {
+    const sections: PRSection[] = [];
+    for (const plugin of this.plugins) {
+      if (!plugin.sections) {
+        continue;
+      }
+
+      try {
+        sections.push(...await plugin.sections(event));
+      } catch (error) {
+        throw new PluginError(plugin.name, "sections", error as Error);
+      }
+    }
+    return sections;
+  }
+}
@@ -0,0 +1,13 @@
+export { PluginError, PluginHost } from "./host";
+export { DEFAULT_REPO_CONFIG, loadPlugins } from "./loader";
+export type {
+  CommitEvent,
+  PlanEvent,
+  PluginFactory,
+  PRSection,
+  PullRequestEvent,
+  RequestEvent,
+  WorkflowHook,
+  WorkflowHooks,
+  WorkflowPlugin
+} from "./types";
@@ -0,0 +1,93 @@
+import { readFile } from "fs/promises";
+import { createRequire } from "module";
+import path from "path";
+import { pathToFileURL } from "url";
+import { z } from "zod";
+import { PRAutomatorError } from "../error";
+import { PluginFactory, WorkflowPlugin } from "./types";
+
+export const DEFAULT_REPO_CONFIG = path.join(".automate-pr", "config.json");
+
+const PluginEntrySchema = z.union([
+  z.string(),
+  z.object({
+    module: z.string(),
+    options: z.record(z.unknown()).optional()
+  })
+]);
+
+const RepoConfigSchema = z.object({
+  plugins: z.array(PluginEntrySchema).default([])
+}).passthrough();
+
+/**
+ * Load the plugins listed in a repository's config file. Relative module
+ * paths are resolved from the repository root, package names from its
+ * node_modules.
+ */
+export async function loadPlugins(
+  root: string,
+  configFile: string = DEFAULT_REPO_CONFIG
+): Promise<WorkflowPlugin[]> {
+  const file = path.resolve(root, configFile);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(file, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw PRAutomatorError.user(`Failed to read ${file}: ${error.message}`, {
+      path: file,
+      error
+    });
+  }
+
+  const result = RepoConfigSchema.safeParse(data);
+  if (!result.success) {
+    throw PRAutomatorError.user(
+      `Invalid config ${file}: ${result.error.issues
+        .map(issue => `${issue.path.join(".")} ${issue.message}`)
+        .join("; ")}`,
+      { path: file, error: result.error }
+    );
+  }
+
+  const plugins: WorkflowPlugin[] = [];
+  for (const entry of result.data.plugins) {
+    const { module, options = {} } = typeof entry === "string" ? { module: entry } : entry;
+    plugins.push(await loadPlugin(root, module, options));
+  }
+  return plugins;
+}
+
+async function loadPlugin(
+  root: string,
+  specifier: string,
+  options: Record<string, unknown>
+): Promise<WorkflowPlugin> {
+  let exported: unknown;
+  try {
+    const resolved = /^\.{1,2}[\\/]/.test(specifier) || path.isAbsolute(specifier)
+      ? path.resolve(root, specifier)
+      : createRequire(path.join(root, "package.json")).resolve(specifier);
+    const loaded = await import(pathToFileURL(resolved).href);
+    exported = loaded.default ?? loaded;
+  } catch (error) {
+    throw PRAutomatorError.user(`Failed to load plugin ${specifier}: ${error.message}`, {
+      plugin: specifier,
+      error
+    });
+  }
+
+  const plugin = typeof exported === "function"
+    ? await (exported as PluginFactory)(options)
+    : exported as WorkflowPlugin;
+  if (typeof plugin?.name !== "string" || !plugin.name) {
+    throw PRAutomatorError.user(`Plugin ${specifier} does not export a plugin with a name`, {
+      plugin: specifier
+    });
+  }
+  return plugin;
+}
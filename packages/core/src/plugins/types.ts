@@ -0,0 +1,66 @@
+import { PRPlan, RepoContext } from "@automate-pr/types";
+import { PRPreview } from "../preview";
+import { ValidationRule } from "../validation";
+
+type Awaitable<T> = T | Promise<T>;
+
+export interface RequestEvent {
+  /** What the model is asked; changing it does not rename the branch */
+  prompt: string;
+  context: RepoContext;
+}
+
+export interface PlanEvent extends RequestEvent {
+  plan: PRPlan;
+}
+
+export interface CommitEvent {
+  preview: PRPreview;
+}
+
+export interface PullRequestEvent {
+  preview: PRPreview;
+  prNumber: number;
+  url: string;
+}
+
+/**
+ * Handlers for each workflow stage. Events are passed by reference: a
+ * handler changes the prompt, context, plan or pull request by assigning
+ * to or mutating the event's fields, and stops the run by throwing.
+ */
+export interface WorkflowHooks {
+  /** Before the repository context is given to the model */
+  beforeContext?: (event: RequestEvent) => Awaitable<void>;
+  /** After the model returns a plan. Not called for saved plans, which already went through it. */
+  afterPlan?: (event: PlanEvent) => Awaitable<void>;
+  /** Before any plan, generated or saved, is validated and turned into a change set */
+  beforeValidate?: (event: PlanEvent) => Awaitable<void>;
+  /** Before the branch is created and the change set committed */
+  beforeCommit?: (event: CommitEvent) => Awaitable<void>;
+  /** After the pull request is opened */
+  afterPR?: (event: PullRequestEvent) => Awaitable<void>;
+}
+
+export type WorkflowHook = keyof WorkflowHooks;
+
+export interface PRSection {
+  title: string;
+  /** Markdown */
+  body: string;
+}
+
+export interface WorkflowPlugin {
+  name: string;
+  hooks?: WorkflowHooks;
+  /** Checks run on every changed file alongside the built-in validation */
+  rules?: ValidationRule[];
+  /** Sections added to the pull request body */
+  sections?: (event: PlanEvent) => Awaitable<PRSection[]>;
+}
+
+/**
+ * What a plugin module exports: the plugin itself, or a function building
+ * it from the options in the repository config
+ */
+export type PluginFactory = (options: Record<string, unknown>) => Awaitable<WorkflowPlugin>;
@@ -0,0 +1,61 @@
+import { FileChange, FileMode } from "@automate-pr/github";
+import { PRParams, PRPlan } from "@automate-pr/types";
+import { FileConflicts } from "./diff";
+import { ValidationResult } from "./validation";
+import { VerificationReport } from "./verify";
+
+export interface FilePreview {
+  path: string;
+  action: FileChange["action"];
+  oldPath?: string;
+  mode?: FileMode;
+  /** Unified diff against the current base branch */
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * One pull request of a plan too large to review at once
+ */
+export interface StackedPR {
+  /** Paths of the changes committed on this PR's branch */
+  files: string[];
+  /** Based on the previous PR's branch, so each one shows only its own changes */
+  pullRequest: PRParams;
+}
+
+export interface PreviewStats {
+  files: number;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Everything `createPR` would push, worked out without touching the remote
+ */
+export interface PRPreview {
+  prompt: string;
+  repository: { owner: string; repo: string };
+  /** Branch the PR would be opened from */
+  branch: string;
+  pullRequest: PRParams;
+  /** Set when the changes go to an existing pull request instead of a new one */
+  pullRequestNumber?: number;
+  files: FilePreview[];
+  /**
+   * Set when the plan has more files than one PR may change. Its PRs are
+   * opened instead of `pullRequest`, bottom of the stack first.
+   */
+  stack?: StackedPR[];
+  /** Validation findings, including ones that would block the PR */
+  findings: ValidationResult[];
+  /** Files that would be committed with conflict markers */
+  conflicts: FileConflicts[];
+  /** Results of the repository's checks, when the changes were verified */
+  verification?: VerificationReport;
+  stats: PreviewStats;
+  plan: PRPlan;
+  /** Change set that would be committed */
+  changes: FileChange[];
+}
@@ -0,0 +1,23 @@
+import { RepoContext } from "@automate-pr/types";
+import { GitOperations } from "./git";
+import { RepoAnalyzer } from "./repo-analyzer";
+
+/**
+ * Gather everything the model is told about a local repository
+ */
+export async function loadRepoContext(repoPath: string): Promise<RepoContext> {
+  const git = new GitOperations(repoPath);
+  const [repository, analysis, recentChanges, baseSha] = await Promise.all([
+    git.getRepoContext(),
+    new RepoAnalyzer(repoPath).analyze(),
+    git.getRecentlyChangedFiles(),
+    git.getHeadSha()
+  ]);
+
+  return {
+    ...analysis,
+    ...repository,
+    recentChanges,
+    baseSha
+  };
+}
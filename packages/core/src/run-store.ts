@@ -0,0 +1,192 @@
+import { randomBytes } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { PRAutomatorError } from "./error";
+import { PlanFile } from "./plan-file";
+import { PRPreview } from "./preview";
+
+export const DEFAULT_RUN_DIR = path.join(".automate-pr", "runs");
+
+export const RUN_STATE_VERSION = 1;
+
+/**
+ * Stages of `createPR`, in order. Each is checkpointed once it finishes.
+ */
+export const RUN_STAGES = ["plan", "prepare", "branch", "commit", "pull-request"] as const;
+
+export type RunStage = typeof RUN_STAGES[number];
+
+export type RunStatus = "running" | "failed" | "completed" | "abandoned";
+
+/**
+ * What a run works on besides its prompt, so resuming before the plan
+ * was saved targets the same issue or pull request
+ */
+export interface RunTarget {
+  pullRequest?: number | string;
+  issue?: number;
+}
+
+export interface RunState {
+  version: typeof RUN_STATE_VERSION;
+  id: string;
+  prompt: string;
+  target?: RunTarget;
+  createdAt: string;
+  updatedAt: string;
+  status: RunStatus;
+  /** Last stage that finished */
+  stage?: RunStage;
+  /** Why the run stopped, when it failed */
+  error?: string;
+  /** Saved as soon as the model answers, so resuming never calls it again */
+  plan?: PlanFile;
+  /** Fixed once prepared, so a resumed run pushes to the same branch */
+  preview?: PRPreview;
+  /** Number of the first pull request, the bottom one for a stack */
+  prNumber?: number;
+  prUrl?: string;
+  /** Progress through a stacked preview, saved after every part */
+  stack?: StackProgress;
+  /** Review comments already answered, saved after every reply */
+  repliedComments?: number[];
+}
+
+export interface StackProgress {
+  /** Parts whose branch was created */
+  branches: number;
+  /** Parts whose changes were committed */
+  committed: number;
+  /** Pull requests opened so far, in stack order */
+  pullRequests: number[];
+}
+
+type StageData = Partial<Pick<RunState, "plan" | "preview" | "prNumber" | "prUrl" | "stack" | "repliedComments">>;
+
+/**
+ * A workflow run whose progress is written to disk after every stage
+ */
+export class Run {
+  constructor(
+    private readonly store: RunStore,
+    private current: RunState
+  ) {}
+
+  get id(): string {
+    return this.current.id;
+  }
+
+  get state(): RunState {
+    return this.current;
+  }
+
+  /**
+   * Whether a stage already finished, in this process or an earlier one
+   */
+  completed(stage: RunStage): boolean {
+    const last = this.current.stage;
+    return last !== undefined && RUN_STAGES.indexOf(last) >= RUN_STAGES.indexOf(stage);
+  }
+
+  async complete(stage: RunStage, data: StageData = {}): Promise<void> {
+    await this.update({
+      ...data,
+      stage,
+      status: stage === "pull-request" ? "completed" : "running",
+      error: undefined
+    });
+  }
+
+  /**
+   * Save progress within the current stage
+   */
+  async record(data: StageData): Promise<void> {
+    await this.update(data);
+  }
+
+  async fail(error: Error): Promise<void> {
+    await this.update({ status: "failed", error: error.message });
+  }
+
+  async abandon(): Promise<void> {
+    await this.update({ status: "abandoned" });
+  }
+
+  private async update(changes: Partial<RunState>): Promise<void> {
+    this.current = { ...this.current, ...changes, updatedAt: new Date().toISOString() };
+    await this.store.save(this.current);
+  }
+}
+
+/**
+ * A directory of workflow runs, one JSON file per run
+ */
+export class RunStore {
+  constructor(private readonly dir: string = DEFAULT_RUN_DIR) {}
+
+  async start(prompt: string, target?: RunTarget): Promise<Run> {
+    const now = new Date();
+    const state: RunState = {
+      version: RUN_STATE_VERSION,
+      // Sorts by start time
+      id: `${now.getTime().toString(36)}-${randomBytes(3).toString("hex")}`,
+      prompt,
+      ...(target && { target }),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      status: "running"
+    };
+    await this.save(state);
+    return new Run(this, state);
+  }
+
+  async load(id: string): Promise<Run> {
+    const file = this.pathFor(id);
+    let state: RunState;
+    try {
+      state = JSON.parse(await readFile(file, "utf-8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw PRAutomatorError.user(`No run ${id} in ${this.dir}`, {
+          id,
+          dir: this.dir,
+          code: "RUN_NOT_FOUND"
+        });
+      }
+      throw PRAutomatorError.system(`Failed to read run ${id}: ${error.message}`, {
+        id,
+        dir: this.dir,
+        error
+      });
+    }
+
+    if (state.version !== RUN_STATE_VERSION) {
+      throw PRAutomatorError.user(
+        `Unsupported run state version ${JSON.stringify(state.version)} for run ${id} (expected ${RUN_STATE_VERSION})`,
+        { id, dir: this.dir }
+      );
+    }
+    return new Run(this, state);
+  }
+
+  async save(state: RunState): Promise<void> {
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(this.pathFor(state.id), JSON.stringify(state, null, 2) + "\n");
+    } catch (error) {
+      throw PRAutomatorError.system(`Failed to write run ${state.id}: ${error.message}`, {
+        id: state.id,
+        dir: this.dir,
+        error
+      });
+    }
+  }
+
+  private pathFor(id: string): string {
+    // Ids come from the command line
+    if (!/^[\w-]+$/.test(id)) {
+      throw PRAutomatorError.user(`Invalid run id ${id}`, { id });
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+}
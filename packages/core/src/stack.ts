@@ -0,0 +1,126 @@
+import path from "path";
+import { PRPlan } from "@automate-pr/types";
+
+type PlanFile = PRPlan["files"][number];
+
+// Directories whose children are separate packages in a monorepo
+const PACKAGE_ROOTS = ["packages", "apps", "libs", "services", "modules"];
+
+const IMPORT_REGEX =
+  /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)["']([^"']+)["']/g;
+
+/**
+ * The package or top-level directory a file belongs to
+ */
+export function groupOf(filePath: string): string {
+  const parts = filePath.split("/");
+  if (parts.length > 2 && PACKAGE_ROOTS.includes(parts[0])) {
+    return parts.slice(0, 2).join("/");
+  }
+  return parts.length > 1 ? parts[0] : ".";
+}
+
+/**
+ * Split a plan's files into chunks of at most `maxFiles`, keeping each
+ * package or directory together where it fits and ordering chunks so that
+ * code comes after what it imports. Returns indexes into `files`.
+ */
+export function partitionPlan(files: PlanFile[], maxFiles: number): number[][] {
+  const groups = new Map<string, number[]>();
+  for (const [index, file] of files.entries()) {
+    const group = groupOf(file.path);
+    groups.set(group, [...groups.get(group) ?? [], index]);
+  }
+
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  for (const group of orderGroups(files, groups)) {
+    const indexes = groups.get(group);
+    if (!indexes) {
+      continue;
+    }
+    if (current.length + indexes.length <= maxFiles) {
+      current.push(...indexes);
+      continue;
+    }
+
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+    // A group too large for one chunk is sliced, its remainder packed with the next
+    for (let start = 0; start < indexes.length; start += maxFiles) {
+      current = indexes.slice(start, start + maxFiles);
+      if (current.length === maxFiles && start + maxFiles < indexes.length) {
+        chunks.push(current);
+      }
+    }
+  }
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Groups in dependency order, falling back to plan order for independent
+ * groups and import cycles
+ */
+function orderGroups(files: PlanFile[], groups: Map<string, number[]>): string[] {
+  const names = [...groups.keys()];
+  const dependencies = new Map(names.map(name => [name, new Set<string>()]));
+  for (const file of files) {
+    const group = groupOf(file.path);
+    const own = dependencies.get(group);
+    if (!own) {
+      continue;
+    }
+    for (const specifier of importsOf(file)) {
+      const target = resolveGroup(file.path, specifier, names);
+      if (target && target !== group) {
+        own.add(target);
+      }
+    }
+  }
+
+  const ordered: string[] = [];
+  const remaining = [...names];
+  while (remaining.length > 0) {
+    const ready = remaining.find(name =>
+      [...dependencies.get(name) ?? []].every(dependency => ordered.includes(dependency)));
+    // In a cycle nothing is ready; take the earliest group to break it
+    const next = ready ?? remaining[0];
+    ordered.push(next);
+    remaining.splice(remaining.indexOf(next), 1);
+  }
+  return ordered;
+}
+
+/**
+ * Module specifiers a file imports, from its content or the lines its
+ * diff adds
+ */
+function importsOf(file: PlanFile): string[] {
+  const text = file.content ?? (file.diff ?? "")
+    .split("\n")
+    .filter(line => line.startsWith("+") && !line.startsWith("+++"))
+    .map(line => line.slice(1))
+    .join("\n");
+  return [...text.matchAll(IMPORT_REGEX)].map(match => match[1]);
+}
+
+/**
+ * The group an import points to, if it is one of the plan's groups.
+ * Package imports are matched by name, so `@scope/core` maps to
+ * `packages/core`.
+ */
+function resolveGroup(from: string, specifier: string, groups: string[]): string | undefined {
+  if (specifier.startsWith(".")) {
+    const target = groupOf(path.posix.join(path.posix.dirname(from), specifier));
+    return groups.includes(target) ? target : undefined;
+  }
+
+  const name = specifier.startsWith("@")
+    ? specifier.split("/")[1]
+    : specifier.split("/")[0];
+  return groups.find(group => group.includes("/") && path.posix.basename(group) === name);
+}
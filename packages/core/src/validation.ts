@@ -32,9 +32,9 @@ export class ValidationError extends PRAutomatorError {
 }
 
 const SECRET_PATTERNS = [
-  /(?i)(\b(?:key|token|secret|password|credential)\b.*?['"][a-zA-Z0-9+/=]{32,}['"])/,
-  /(?i)(?:^|\b)(?:gh|github)(?:_token|_secret)\b.*?['"][a-zA-Z0-9+/=]{36,}['"])/,
-  /(?i)(?:^|\b)(?:aws|amazon).*?(?:key|token|secret).*?['"][A-Za-z0-9/+=]{40}['"])/
+  /(\b(?:key|token|secret|password|credential)\b.*?['"][a-zA-Z0-9+/=]{32,}['"])/i,
+  /(?:^|\b)(?:gh|github)(?:_token|_secret)\b.*?['"][a-zA-Z0-9+/=]{36,}['"]/i,
+  /(?:^|\b)(?:aws|amazon).*?(?:key|token|secret).*?['"][A-Za-z0-9/+=]{40}['"]/i
 ];
 
 const LICENSE_KEYWORDS = [
@@ -45,12 +45,15 @@ const LICENSE_KEYWORDS = [
   "all rights reserved"
 ];
 
-export async function validateCodeChanges(
+/**
+ * Run every enabled check and return all findings, blocking or not
+ */
+export async function collectFindings(
   changes: CodeChange[],
   options: ValidationOptions = {}
 ): Promise<ValidationResult[]> {
   const results: ValidationResult[] = [];
-  
+
   try {
     // 1. Secret Scanning
     if (!options.skipSecrets) {
@@ -76,20 +79,15 @@ export async function validateCodeChanges(
     if (options.customRules) {
       for (const rule of options.customRules) {
         for (const change of changes) {
-          results.push(...await rule.validate(change));
+          try {
+            results.push(...await rule.validate(change));
+          } catch (error) {
+            throw new ValidationError(`Rule ${rule.id} failed on ${change.path}: ${error.message}`, []);
+          }
         }
       }
     }
 
-    // Check for blocking issues
-    const blockingIssues = results.filter(r => r.level === "error");
-    if (blockingIssues.length > 0) {
-      throw new ValidationError(
-        "Validation failed with blocking issues",
-        blockingIssues
-      );
-    }
-
     return results;
   } catch (error) {
     if (error instanceof ValidationError) {
@@ -99,6 +97,24 @@ export async function validateCodeChanges(
   }
 }
 
+export async function validateCodeChanges(
+  changes: CodeChange[],
+  options: ValidationOptions = {}
+): Promise<ValidationResult[]> {
+  const results = await collectFindings(changes, options);
+
+  // Check for blocking issues
+  const blockingIssues = results.filter(r => r.level === "error");
+  if (blockingIssues.length > 0) {
+    throw new ValidationError(
+      "Validation failed with blocking issues",
+      blockingIssues
+    );
+  }
+
+  return results;
+}
+
 async function checkForSecrets(changes: CodeChange[]): Promise<ValidationResult[]> {
   const results: ValidationResult[] = [];
 
@@ -0,0 +1,278 @@
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import { FileChange } from "@automate-pr/github";
+import { PackageManager, RepoContext } from "@automate-pr/types";
+import { GitOperations } from "./git";
+
+/**
+ * Checks run on the changes, in order. `install` only runs when the
+ * changes touch dependencies.
+ */
+export const VERIFY_STEPS = ["install", "build", "typecheck", "lint", "test"] as const;
+
+export type VerifyStep = typeof VERIFY_STEPS[number];
+
+export interface VerifyCommand {
+  step: VerifyStep;
+  command: string;
+}
+
+export interface VerifyStepResult extends VerifyCommand {
+  passed: boolean;
+  /** Null when the command was killed */
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** End of the combined stdout and stderr */
+  output: string;
+}
+
+export interface VerificationReport {
+  passed: boolean;
+  results: VerifyStepResult[];
+  /** Rounds of model fixes it took to get here */
+  fixRounds: number;
+}
+
+export interface VerifyOptions {
+  /** Commit the changes are applied to */
+  base: string;
+  context: Pick<RepoContext, "packageManager" | "testFramework" | "settings">;
+  /** Per command */
+  timeoutMs: number;
+}
+
+// Script names each step is run from, first match wins
+const STEP_SCRIPTS: Record<Exclude<VerifyStep, "install">, string[]> = {
+  build: ["build"],
+  typecheck: ["typecheck", "type-check", "check-types", "tsc"],
+  lint: ["lint"],
+  test: ["test"]
+};
+
+// Runs a package binary without a script
+const EXEC_PREFIX: Record<PackageManager, string> = {
+  npm: "npx",
+  yarn: "yarn",
+  pnpm: "pnpm exec",
+  bun: "bunx"
+};
+
+const TEST_RUNNERS: Partial<Record<RepoContext["testFramework"], string>> = {
+  jest: "jest",
+  vitest: "vitest run",
+  mocha: "mocha",
+  ava: "ava",
+  tap: "tap"
+};
+
+// What `npm init` puts in package.json
+const PLACEHOLDER_TEST = /no test specified/;
+
+const DEPENDENCY_FILES = [
+  "package.json",
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "bun.lock"
+];
+
+const OUTPUT_TAIL_CHARS = 4000;
+
+/**
+ * Commands for each step from the repository's package.json scripts,
+ * falling back to the detected tools for type-checking, linting and tests
+ */
+export function detectVerifyCommands(
+  scripts: Record<string, string>,
+  context: VerifyOptions["context"]
+): VerifyCommand[] {
+  const { packageManager, testFramework, settings } = context;
+  const run = (script: string) => `${packageManager} run ${script}`;
+  const exec = EXEC_PREFIX[packageManager];
+
+  const fallbacks: Partial<Record<VerifyStep, string>> = {
+    ...(settings.hasTypeScript && { typecheck: `${exec} tsc --noEmit` }),
+    ...(settings.hasLinter && { lint: `${exec} eslint .` }),
+    ...(TEST_RUNNERS[testFramework] && { test: `${exec} ${TEST_RUNNERS[testFramework]}` })
+  };
+
+  return (Object.keys(STEP_SCRIPTS) as (keyof typeof STEP_SCRIPTS)[]).flatMap(step => {
+    const script = STEP_SCRIPTS[step].find(name =>
+      scripts[name] && !(step === "test" && PLACEHOLDER_TEST.test(scripts[name])));
+    const command = script ? run(script) : fallbacks[step];
+    return command ? [{ step, command }] : [];
+  });
+}
+
+/**
+ * Apply changes to a temporary worktree of the repository and run its
+ * build, type-check, lint and test commands there. The working copy is
+ * never touched.
+ */
+export async function verifyChanges(
+  repoPath: string,
+  changes: FileChange[],
+  options: VerifyOptions
+): Promise<VerificationReport> {
+  const git = new GitOperations(repoPath);
+  const dir = await git.createWorktree(options.base);
+  try {
+    await writeChanges(dir, changes);
+
+    const results: VerifyStepResult[] = [];
+    const touchesDependencies = changes.some(change =>
+      DEPENDENCY_FILES.includes(path.posix.basename(change.path)));
+    if (touchesDependencies) {
+      const install = await runCommand(dir, { step: "install", command: `${options.context.packageManager} install` }, options.timeoutMs);
+      results.push(install);
+      if (!install.passed) {
+        return { passed: false, results, fixRounds: 0 };
+      }
+    } else {
+      await linkDependencies(repoPath, dir);
+    }
+
+    const scripts = await readScripts(dir);
+    for (const command of detectVerifyCommands(scripts, options.context)) {
+      results.push(await runCommand(dir, command, options.timeoutMs));
+    }
+    return { passed: results.every(result => result.passed), results, fixRounds: 0 };
+  } finally {
+    await git.removeWorktree(dir);
+  }
+}
+
+/**
+ * Explain failed steps to the model, with the end of their output
+ */
+export function describeFailures(report: VerificationReport): string {
+  return [
+    "The changes were applied to the repository and these checks failed:",
+    ...report.results.filter(result => !result.passed).flatMap(result => [
+      "",
+      `### ${result.step}: \`${result.command}\` ${result.timedOut ? "(timed out)" : `(exit code ${result.exitCode})`}`,
+      "```",
+      result.output.trim(),
+      "```"
+    ]),
+    "",
+    "Change the plan so that they pass."
+  ].join("\n");
+}
+
+async function writeChanges(dir: string, changes: FileChange[]): Promise<void> {
+  for (const change of changes) {
+    const target = path.join(dir, change.path);
+    switch (change.action) {
+      case "delete":
+        await fs.rm(target, { force: true });
+        break;
+      case "mode":
+        await fs.chmod(target, change.mode === "100755" ? 0o755 : 0o644);
+        break;
+      case "rename":
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.rename(path.join(dir, change.oldPath), target);
+        if (change.content !== undefined) {
+          await fs.writeFile(target, change.content);
+        }
+        break;
+      default:
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        if (change.mode === "120000") {
+          // The content of a symlink is its target
+          await fs.rm(target, { force: true });
+          await fs.symlink(change.content, target);
+          break;
+        }
+        await fs.writeFile(target, change.content);
+        if (change.mode === "100755") {
+          await fs.chmod(target, 0o755);
+        }
+    }
+  }
+}
+
+/**
+ * Share the working copy's installed dependencies with the worktree,
+ * for the root and each workspace package
+ */
+async function linkDependencies(repoPath: string, dir: string, relative = "", depth = 0): Promise<void> {
+  const entries = await fs.readdir(path.join(repoPath, relative), { withFileTypes: true })
+    .catch(() => []);
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === ".git") {
+      continue;
+    }
+    const child = path.join(relative, entry.name);
+    if (entry.name === "node_modules") {
+      await fs.symlink(path.join(repoPath, child), path.join(dir, child), "dir").catch(() => undefined);
+    } else if (depth < 2) {
+      await linkDependencies(repoPath, dir, child, depth + 1);
+    }
+  }
+}
+
+async function readScripts(dir: string): Promise<Record<string, string>> {
+  try {
+    const packageJson = JSON.parse(await fs.readFile(path.join(dir, "package.json"), "utf-8"));
+    return packageJson.scripts ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Run a command in its own process group, so a timeout stops the tools a
+ * package manager started as well as the package manager itself
+ */
+function runCommand(dir: string, { step, command }: VerifyCommand, timeoutMs: number): Promise<VerifyStepResult> {
+  const started = Date.now();
+  return new Promise(resolve => {
+    let output = "";
+    let timedOut = false;
+    const child = spawn(command, {
+      cwd: dir,
+      shell: true,
+      detached: true,
+      // Keeps test runners out of watch mode
+      env: { ...process.env, CI: "true" }
+    });
+    const collect = (chunk: Buffer) => {
+      output = tail(output + chunk.toString());
+    };
+    child.stdout.on("data", collect);
+    child.stderr.on("data", collect);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, "SIGKILL");
+      } catch {
+        // Already exited
+      }
+    }, timeoutMs);
+
+    const finish = (exitCode: number | null, error?: Error) => {
+      clearTimeout(timer);
+      resolve({
+        step,
+        command,
+        passed: exitCode === 0 && !timedOut,
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - started,
+        output: error ? tail(output + error.message) : output
+      });
+    };
+    child.on("error", error => finish(null, error));
+    child.on("close", code => finish(code));
+  });
+}
+
+function tail(output: string): string {
+  return output.length > OUTPUT_TAIL_CHARS ? output.slice(-OUTPUT_TAIL_CHARS) : output;
+}
@@ -1,11 +1,111 @@
-import { DeepSeekClient } from "@automate-pr/ai";
-import { GitHubRepoManager } from "@automate-pr/github";
-import { PRPlan, RepoContext } from "@automate-pr/types";
+import { AIClient, PlanProgressEvent, PlanSession, UsageTracker } from "@automate-pr/ai";
+import path from "path";
+import { FileChange, FileMode, GitHubRepoManager, toFileMode } from "@automate-pr/github";
+import { IssueInfo, PRParams, PRPlan, RepoContext, ReviewThread } from "@automate-pr/types";
 import { Config } from "./config";
+import {
+  applyHunks,
+  createPatch,
+  diffLines,
+  DiffLineType,
+  FileConflicts,
+  merge3,
+  MergeConflictError,
+  parsePatch,
+  PatchApplyError
+} from "./diff";
+import { CodeChange, GitOperations } from "./git";
+import { fingerprintContext, PLAN_FILE_VERSION, PlanFile } from "./plan-file";
+import { PluginHost, PRSection, WorkflowPlugin } from "./plugins";
+import { FilePreview, PRPreview, StackedPR } from "./preview";
+import { loadRepoContext } from "./repo-context";
+import { Run, StackProgress } from "./run-store";
+import { partitionPlan } from "./stack";
+import { collectFindings, ValidationError, ValidationResult } from "./validation";
+import { describeFailures, VerificationReport, verifyChanges } from "./verify";
 
 export interface WorkflowOptions {
-  dryRun?: boolean;
   skipSafetyChecks?: boolean;
+  /**
+   * Stream plan generation, reporting reasoning and per-file progress
+   */
+  onProgress?: (event: PlanProgressEvent) => void;
+  /**
+   * Collects token usage and cost for every model call in this run
+   */
+  usage?: UsageTracker;
+  /**
+   * Review and refine the generated plan before anything is pushed. The
+   * session's latest plan when this resolves is the one that gets applied;
+   * throw to abort the run.
+   */
+  refine?: (session: PlanSession) => Promise<void>;
+  /**
+   * What to do when the base branch changed the same lines as the plan
+   * since the context was read: fail with a conflict report, or commit
+   * the files with conflict markers in a draft PR
+   * @default "fail"
+   */
+  onConflict?: "fail" | "markers";
+  /**
+   * Checkpoint every finished stage to this run, so a failed run can be
+   * continued with `resume` or rolled back with `abandon`
+   */
+  run?: Run;
+  /**
+   * Push to this open pull request, given its number or head branch,
+   * instead of opening a new one
+   */
+  pullRequest?: number | string;
+  /**
+   * Resolve this issue: the model sees its discussion, the branch is named
+   * after it, and the PR closes it and copies its labels and milestone
+   */
+  issue?: number;
+  /**
+   * Run the repository's build, type-check, lint and tests on the changes
+   * in a temporary worktree, asking the model to fix failures
+   * @default config.VERIFY_CHANGES
+   */
+  verify?: boolean;
+}
+
+/**
+ * The GitHub operations a workflow needs
+ */
+export type WorkflowGitHub = Pick<
+  GitHubRepoManager,
+  | "commitFiles"
+  | "createBranch"
+  | "createPullRequest"
+  | "deleteBranch"
+  | "findPullRequest"
+  | "getBranchProtection"
+  | "getBranchSha"
+  | "getFileContent"
+  | "getIssue"
+  | "getPullRequest"
+  | "getPullRequestDiff"
+  | "getReviewThreads"
+  | "replyToReviewComment"
+  | "updatePullRequest"
+>;
+
+interface ResolvedChanges {
+  /** Commit the changes are merged onto */
+  head: string;
+  changes: FileChange[];
+  /** Files committed with conflict markers */
+  conflicts: FileConflicts[];
+  files: FilePreview[];
+}
+
+interface ResolvedFile {
+  change: FileChange;
+  conflicts?: FileConflicts;
+  /** Content on the base branch now, and after the change */
+  before: string;
+  after: string;
 }
 
 export class WorkflowError extends Error {
@@ -16,54 +116,745 @@ export class WorkflowError extends Error {
 }
 
 export class PRWorkflow {
+  private readonly plugins: PluginHost;
+
   constructor(
     private readonly config: Config,
-    private readonly github: GitHubRepoManager,
-    private readonly ai: DeepSeekClient
-  ) {}
+    private readonly github: WorkflowGitHub,
+    private readonly ai: AIClient,
+    private readonly repoPath: string = process.cwd(),
+    plugins: WorkflowPlugin[] = []
+  ) {
+    this.plugins = new PluginHost(plugins);
+  }
+
+  /**
+   * Work out the branch, pull request and commit a run would produce,
+   * without changing anything on the remote
+   */
+  async previewPR(prompt: string, options: WorkflowOptions = {}): Promise<PRPreview> {
+    try {
+      const { preview } = await this.preparePR(prompt, options);
+      return preview;
+    } catch (error) {
+      throw new WorkflowError(
+        `Failed to preview PR: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Generate a plan and capture it in a file that can be reviewed and
+   * applied later with `applyPlan`
+   */
+  async planPR(prompt: string, options: WorkflowOptions = {}): Promise<PlanFile> {
+    try {
+      const { preview, context } = await this.preparePR(prompt, options);
+      return this.toPlanFile(prompt, preview.plan, context, preview.findings);
+    } catch (error) {
+      throw new WorkflowError(
+        `Failed to plan PR: ${error.message}`,
+        error as Error
+      );
+    }
+  }
 
   async createPR(prompt: string, options: WorkflowOptions = {}): Promise<string> {
     try {
-      // Step 1: Validate input
-      this.validateInput(prompt);
+      // Steps 1-6: Everything up to the first remote change
+      const { preview } = await this.preparePR(prompt, options);
+
+      return await this.publish(preview, options);
+    } catch (error) {
+      await this.failRun(options.run, error);
+      throw new WorkflowError(
+        `Failed to create PR: ${error.message}`,
+        error as Error
+      );
+    }
+  }
 
-      // Step 2: Get repository context
-      const context = await this.getRepoContext();
+  /**
+   * Preview what applying a plan file would do now, without pushing
+   */
+  async previewPlan(file: PlanFile, options: WorkflowOptions = {}): Promise<PRPreview> {
+    try {
+      const { preview } = await this.preparePR(file.prompt, options, file);
+      return preview;
+    } catch (error) {
+      throw new WorkflowError(
+        `Failed to preview plan: ${error.message}`,
+        error as Error
+      );
+    }
+  }
 
-      // Step 3: Generate PR plan using AI
-      const plan = await this.ai.generatePRPlan(prompt, context);
+  /**
+   * Open the PR described by a plan file. Validation runs again against
+   * the repository as it is now; the model is not called.
+   */
+  async applyPlan(file: PlanFile, options: WorkflowOptions = {}): Promise<string> {
+    try {
+      const { preview } = await this.preparePR(file.prompt, options, file);
 
-      // Step 4: Validate the plan
-      await this.validatePlan(plan, options);
+      return await this.publish(preview, options);
+    } catch (error) {
+      await this.failRun(options.run, error);
+      throw new WorkflowError(
+        `Failed to apply plan: ${error.message}`,
+        error as Error
+      );
+    }
+  }
 
-      // Step 5: Create branch
-      const branchName = this.generateBranchName(prompt);
-      await this.github.createBranch(this.config.DEFAULT_BRANCH, branchName);
+  /**
+   * Open a PR resolving an issue, prompted by its title, body and comments
+   */
+  async createPRFromIssue(number: number, options: WorkflowOptions = {}): Promise<string> {
+    return this.createPR(`Resolve issue #${number}`, { ...options, issue: number });
+  }
 
-      // Step 6: Apply changes
-      if (!options.dryRun) {
-        await this.applyChanges(branchName, plan);
+  /**
+   * Push a commit addressing the unresolved review comments on a pull
+   * request, then reply to each thread with what changed
+   */
+  async addressReviewComments(number: number, options: WorkflowOptions = {}): Promise<string> {
+    try {
+      const threads = (await this.github.getReviewThreads(number))
+        .filter(thread => !thread.resolved && thread.comments.length > 0);
+      if (threads.length === 0) {
+        throw new WorkflowError(`Pull request #${number} has no unresolved review comments`);
       }
 
-      // Step 7: Create PR
-      const prNumber = await this.github.createPullRequest({
-        title: plan.pr.title,
-        description: this.generatePRDescription(prompt, plan),
-        headBranch: branchName,
-        baseBranch: this.config.DEFAULT_BRANCH,
-        isDraft: this.config.PR_DRAFT_BY_DEFAULT,
-        reviewers: plan.pr.reviewers
-      });
+      const prompt = `Address the review comments on pull request #${number}`;
+      const review = { ...options, pullRequest: number };
+      const { preview } = await this.preparePR(prompt, review, undefined, threads);
 
-      return `https://github.com/${context.owner}/${context.repo}/pull/${prNumber}`;
+      return await this.publish(preview, review);
     } catch (error) {
+      await this.failRun(options.run, error);
       throw new WorkflowError(
-        `Failed to create PR: ${error.message}`,
+        `Failed to address review comments: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Continue a run after the last stage it finished. The model is only
+   * called again if the run stopped before it answered.
+   */
+  async resume(run: Run, options: WorkflowOptions = {}): Promise<string> {
+    const { state } = run;
+    if (state.status === "abandoned") {
+      throw new WorkflowError(`Run ${run.id} was abandoned`);
+    }
+    if (run.completed("pull-request") && state.prUrl) {
+      return state.prUrl;
+    }
+
+    const resumed = { ...state.target, ...options, run };
+    try {
+      const preview = run.completed("prepare") && state.preview
+        ? state.preview
+        : (await this.preparePR(state.prompt, resumed, state.plan)).preview;
+
+      return await this.publish(preview, resumed);
+    } catch (error) {
+      await this.failRun(run, error);
+      throw new WorkflowError(
+        `Failed to resume run ${run.id}: ${error.message}`,
         error as Error
       );
     }
   }
 
+  /**
+   * Give up on a run and delete the branches it pushed, if any. Returns
+   * whether a branch was deleted.
+   */
+  async abandon(run: Run): Promise<boolean> {
+    const { state } = run;
+    if (run.completed("pull-request")) {
+      throw new WorkflowError(
+        `Run ${run.id} already opened ${state.prUrl}; close the pull request instead`
+      );
+    }
+
+    try {
+      // The branch may exist even if the run stopped before checkpointing it.
+      // A pull request the run only added to keeps its branch.
+      const { preview } = state;
+      const branches = !preview || preview.pullRequestNumber !== undefined
+        ? []
+        : preview.stack?.map(part => part.pullRequest.headBranch) ?? [preview.branch];
+      let deleted = false;
+      for (const branch of branches) {
+        deleted = await this.github.deleteBranch(branch) || deleted;
+      }
+      await run.abandon();
+      return deleted;
+    } catch (error) {
+      throw new WorkflowError(
+        `Failed to abandon run ${run.id}: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Steps that change the remote. With a run, finished steps are skipped
+   * and each one is checkpointed as it completes.
+   */
+  private async publish(preview: PRPreview, options: WorkflowOptions): Promise<string> {
+    const { run } = options;
+
+    if (!run?.completed("commit")) {
+      const event = { preview };
+      await this.plugins.run("beforeCommit", event);
+      preview = event.preview;
+    }
+
+    if (preview.stack) {
+      return this.publishStack(preview, preview.stack, options);
+    }
+
+    if (!run?.completed("branch")) {
+      // Step 7: Stop on blocking validation findings
+      this.checkFindings(preview.findings, options);
+
+      // Step 8: Create branch, unless adding to an existing pull request
+      if (preview.pullRequestNumber === undefined) {
+        await this.github.createBranch(this.config.DEFAULT_BRANCH, preview.branch);
+      }
+      await run?.complete("branch");
+    }
+
+    // Step 9: Apply changes
+    if (!run?.completed("commit")) {
+      await this.applyChanges(preview.branch, preview.changes);
+      await run?.complete("commit");
+    }
+
+    // Step 10: Create or update PR
+    let prNumber = preview.pullRequestNumber;
+    if (prNumber === undefined) {
+      prNumber = await this.github.createPullRequest(preview.pullRequest);
+    } else {
+      const { title, description, labels } = preview.pullRequest;
+      await this.github.updatePullRequest(prNumber, { title, description, labels });
+
+      // Step 11: Reply to the review comments the changes address, once each
+      const replied = new Set(run?.state.repliedComments);
+      for (const reply of preview.plan.replies ?? []) {
+        if (replied.has(reply.comment)) continue;
+        await this.github.replyToReviewComment(prNumber, reply.comment, reply.body);
+        replied.add(reply.comment);
+        await run?.record({ repliedComments: [...replied] });
+      }
+    }
+
+    const { owner, repo } = preview.repository;
+    const prUrl = `https://github.com/${owner}/${repo}/pull/${prNumber}`;
+    await run?.complete("pull-request", { prNumber, prUrl });
+
+    await this.plugins.run("afterPR", { preview, prNumber, url: prUrl });
+    return prUrl;
+  }
+
+  /**
+   * Open a stacked preview's pull requests. Each part's branch starts from
+   * the previous part's, and once all are open every body links the
+   * whole stack. Returns the URL of the bottom pull request.
+   */
+  private async publishStack(
+    preview: PRPreview,
+    stack: StackedPR[],
+    options: WorkflowOptions
+  ): Promise<string> {
+    const { run } = options;
+    const progress: StackProgress = {
+      branches: run?.state.stack?.branches ?? 0,
+      committed: run?.state.stack?.committed ?? 0,
+      pullRequests: [...run?.state.stack?.pullRequests ?? []]
+    };
+
+    // Steps 7-9: Check findings, then create and commit each part's branch
+    if (!run?.completed("commit")) {
+      this.checkFindings(preview.findings, options);
+
+      for (const part of stack.slice(progress.committed)) {
+        const { headBranch, baseBranch } = part.pullRequest;
+        if (progress.branches === progress.committed) {
+          await this.github.createBranch(baseBranch, headBranch);
+          progress.branches++;
+          await run?.record({ stack: progress });
+        }
+
+        const paths = new Set(part.files);
+        await this.applyChanges(headBranch, preview.changes.filter(change => paths.has(change.path)));
+        progress.committed++;
+        await run?.record({ stack: progress });
+      }
+      await run?.complete("commit");
+    }
+
+    // Step 10: Create the PRs, then link them to each other
+    for (const part of stack.slice(progress.pullRequests.length)) {
+      progress.pullRequests.push(await this.github.createPullRequest(part.pullRequest));
+      await run?.record({ stack: progress });
+    }
+    const numbers = progress.pullRequests;
+    for (const [index, part] of stack.entries()) {
+      await this.github.updatePullRequest(numbers[index], {
+        description: `${part.pullRequest.description}\n\n${this.describeStack(stack, numbers, index)}`
+      });
+    }
+
+    const { owner, repo } = preview.repository;
+    const urls = numbers.map(number => `https://github.com/${owner}/${repo}/pull/${number}`);
+    await run?.complete("pull-request", { prNumber: numbers[0], prUrl: urls[0] });
+
+    for (const [index, prNumber] of numbers.entries()) {
+      await this.plugins.run("afterPR", { preview, prNumber, url: urls[index] });
+    }
+    return urls[0];
+  }
+
+  /**
+   * Split a plan into pull requests of at most `MAX_FILES_PER_PR` files,
+   * each based on the one before
+   */
+  private planStack(
+    prompt: string,
+    plan: PRPlan,
+    conflicts: FileConflicts[],
+    sections: PRSection[],
+    pullRequest: PRParams,
+    closes?: number
+  ): StackedPR[] {
+    const parts = partitionPlan(plan.files, this.config.MAX_FILES_PER_PR);
+    const branchOf = (index: number) => `${pullRequest.headBranch}/part-${index + 1}`;
+
+    return parts.map((indexes, index) => {
+      const files = indexes.map(fileIndex => plan.files[fileIndex]);
+      const paths = files.map(file => file.path);
+      return {
+        files: paths,
+        pullRequest: {
+          ...pullRequest,
+          title: `${plan.pr.title} (${index + 1}/${parts.length})`,
+          // Only the top PR is merged into the base branch, which closes issues
+          description: this.generatePRDescription(
+            prompt,
+            { ...plan, files },
+            conflicts.filter(file => paths.includes(file.path)),
+            sections,
+            undefined,
+            index === parts.length - 1 ? closes : undefined
+          ),
+          headBranch: branchOf(index),
+          baseBranch: index === 0 ? pullRequest.baseBranch : branchOf(index - 1)
+        }
+      };
+    });
+  }
+
+  private describeStack(stack: StackedPR[], numbers: number[], current: number): string {
+    return [
+      "### Stack",
+      `This change is split into ${stack.length} pull requests, each based on the one before. Review and merge them in order:`,
+      ...stack.map((part, index) => {
+        const entry = `${index + 1}. #${numbers[index]} ${part.pullRequest.title}`;
+        return index === current ? `${entry} 👈 this PR` : entry;
+      })
+    ].join("\n");
+  }
+
+  /**
+   * Record why a run stopped. The original error is the one worth
+   * reporting, so a failed write is ignored.
+   */
+  private async failRun(run: Run | undefined, error: Error): Promise<void> {
+    await run?.fail(error).catch(() => undefined);
+  }
+
+  /**
+   * Steps up to the first remote change. With a plan file, its plan is
+   * used instead of asking the model and its diffs are resolved against
+   * the commit it was generated from.
+   */
+  private async preparePR(
+    prompt: string,
+    options: WorkflowOptions,
+    source?: PlanFile,
+    reviewThreads?: ReviewThread[]
+  ): Promise<{ preview: PRPreview; context: RepoContext }> {
+    // Step 1: Validate input
+    this.validateInput(prompt);
+
+    // Step 2: Get repository context
+    const target = options.pullRequest ?? source?.pullRequest;
+    const issueNumber = options.issue ?? source?.issue;
+    if (target !== undefined && issueNumber !== undefined) {
+      throw new WorkflowError("Issues are resolved in a new pull request, not pushed to an existing one");
+    }
+    const issue = issueNumber === undefined ? undefined : await this.loadIssue(issueNumber);
+    const local = await loadRepoContext(this.repoPath);
+    const current = target === undefined
+      ? this.withIssue(local, issue)
+      : await this.loadPullRequestContext(local, target, reviewThreads);
+    if (source) {
+      this.checkPlanSource(source, current);
+    }
+    const context = source ? { ...current, baseSha: source.baseSha } : current;
+
+    // Plugin changes only affect this run, not the plan file fingerprint
+    const request = { prompt, context: { ...context } };
+    await this.plugins.run("beforeContext", request);
+
+    // Step 3: Generate PR plan using AI
+    const verify = options.verify ?? this.config.VERIFY_CHANGES;
+    const replyFindings: ValidationResult[] = [];
+    const accept = async (generatedPlan: PRPlan): Promise<PRPlan> => {
+      const generated = { ...request, plan: generatedPlan };
+      await this.plugins.run("afterPlan", generated);
+      replyFindings.length = 0;
+      return this.checkReplies(generated.plan, reviewThreads ?? [], replyFindings);
+    };
+    const generated = source
+      ? { plan: source.plan }
+      : await this.generatePlan(request.prompt, request.context, {
+        ...options,
+        keepSession: verify && this.config.VERIFY_FIX_ROUNDS > 0
+      });
+    let plan = source ? source.plan : await accept(generated.plan);
+    if (options.run && !options.run.completed("plan")) {
+      await options.run.complete("plan", {
+        plan: source ?? this.toPlanFile(prompt, plan, context, [])
+      });
+    }
+
+    const check = async (plan: PRPlan) => {
+      // Step 4: Validate the plan
+      const checked = { ...request, plan };
+      await this.plugins.run("beforeValidate", checked);
+      await this.validatePlan(checked.plan, options, context.pullRequest);
+
+      // Step 5: Resolve the change set
+      const resolved = await this.resolveChanges(checked.plan, request.context, options);
+
+      // Step 6: Check the resulting files
+      const findings = await collectFindings(this.toCodeChanges(resolved.changes), {
+        customRules: this.plugins.rules
+      });
+      if (source && source.fingerprint !== fingerprintContext(current)) {
+        findings.push({
+          type: "quality",
+          level: "warning",
+          message: "Repository changed since the plan was generated; its changes are merged onto the current branch",
+          rule: "stale-plan"
+        });
+      }
+      findings.push(...replyFindings);
+      return { ...resolved, plan: checked.plan, findings };
+    };
+    let checked = await check(plan);
+
+    // Build and test the changes, feeding failures back to the model
+    let verification: VerificationReport | undefined;
+    if (verify) {
+      verification = await this.verify(checked.head, checked.changes, request.context);
+      let rounds = 0;
+      while (!verification.passed && generated.session && rounds < this.config.VERIFY_FIX_ROUNDS) {
+        rounds++;
+        await generated.session.refine(describeFailures(verification));
+        checked = await check(await accept(generated.session.plan));
+        verification = {
+          ...await this.verify(checked.head, checked.changes, request.context),
+          fixRounds: rounds
+        };
+      }
+    }
+    const { changes, conflicts, files, findings } = checked;
+    plan = checked.plan;
+    const failedVerification = verification !== undefined && !verification.passed;
+    if (verification && failedVerification) {
+      findings.push({
+        type: "quality",
+        level: this.config.VERIFY_ON_FAILURE === "block" ? "error" : "warning",
+        message: `Verification failed: ${verification.results
+          .filter(result => !result.passed)
+          .map(result => result.step)
+          .join(", ")}`,
+        rule: "verify"
+      });
+    }
+
+    const branch = context.pullRequest?.headBranch ?? this.generateBranchName(prompt, issue);
+    const sections = [
+      ...await this.plugins.sections({ ...request, plan }),
+      ...(verification ? [this.describeVerification(verification)] : [])
+    ];
+    const labels = [...new Set([...plan.pr.labels ?? [], ...issue?.labels ?? []])];
+    const pullRequest: PRParams = {
+      title: plan.pr.title,
+      description: this.generatePRDescription(
+        prompt,
+        plan,
+        conflicts,
+        sections,
+        context.pullRequest?.headBranch,
+        issue?.number
+      ),
+      headBranch: branch,
+      baseBranch: context.pullRequest?.baseBranch ?? this.config.DEFAULT_BRANCH,
+      isDraft: plan.pr.draft || this.config.PR_DRAFT_BY_DEFAULT || conflicts.length > 0 || failedVerification,
+      reviewers: plan.pr.reviewers,
+      ...(labels.length > 0 && { labels }),
+      ...(issue?.milestone !== undefined && { milestone: issue.milestone })
+    };
+    const preview: PRPreview = {
+      prompt,
+      repository: { owner: context.owner, repo: context.repo },
+      branch,
+      ...(context.pullRequest && { pullRequestNumber: context.pullRequest.number }),
+      pullRequest,
+      files,
+      ...(!context.pullRequest && plan.files.length > this.config.MAX_FILES_PER_PR && {
+        stack: this.planStack(prompt, plan, conflicts, sections, pullRequest, issue?.number)
+      }),
+      findings,
+      conflicts,
+      ...(verification && { verification }),
+      stats: {
+        files: files.length,
+        additions: files.reduce((sum, file) => sum + file.additions, 0),
+        deletions: files.reduce((sum, file) => sum + file.deletions, 0)
+      },
+      plan,
+      changes
+    };
+    await options.run?.complete("prepare", { preview });
+    return { preview, context };
+  }
+
+  private toPlanFile(
+    prompt: string,
+    plan: PRPlan,
+    context: RepoContext,
+    findings: ValidationResult[]
+  ): PlanFile {
+    return {
+      version: PLAN_FILE_VERSION,
+      createdAt: new Date().toISOString(),
+      prompt,
+      repository: { owner: context.owner, repo: context.repo },
+      baseBranch: this.config.DEFAULT_BRANCH,
+      ...(context.baseSha && { baseSha: context.baseSha }),
+      fingerprint: fingerprintContext(context),
+      ...(context.pullRequest && { pullRequest: context.pullRequest.number }),
+      ...(context.issue && { issue: context.issue.number }),
+      plan,
+      findings
+    };
+  }
+
+  private async loadIssue(number: number): Promise<IssueInfo> {
+    const issue = await this.github.getIssue(number);
+    if (issue.isPullRequest) {
+      throw new WorkflowError(`#${number} is a pull request, not an issue`);
+    }
+    if (issue.state !== "open") {
+      throw new WorkflowError(`Issue #${number} is closed`);
+    }
+    return issue;
+  }
+
+  private withIssue(context: RepoContext, issue?: IssueInfo): RepoContext {
+    if (!issue) {
+      return context;
+    }
+    const { number, title, body, labels, comments } = issue;
+    return { ...context, issue: { number, title, body, labels, comments } };
+  }
+
+  /**
+   * Point the context at an open pull request: the model sees its diff,
+   * and the files it touches as they are on its head branch, which the
+   * plan's diffs are then relative to
+   */
+  private async loadPullRequestContext(
+    context: RepoContext,
+    target: number | string,
+    reviewThreads?: ReviewThread[]
+  ): Promise<RepoContext> {
+    const pr = typeof target === "number"
+      ? await this.github.getPullRequest(target)
+      : await this.github.findPullRequest(target);
+    if (!pr) {
+      throw new WorkflowError(`No open pull request from branch '${target}'`);
+    }
+    if (pr.state !== "open") {
+      throw new WorkflowError(`Pull request #${pr.number} is ${pr.merged ? "merged" : "closed"}`);
+    }
+    if (pr.fromFork) {
+      throw new WorkflowError(`Pull request #${pr.number} comes from a fork and cannot be pushed to`);
+    }
+
+    const diff = await this.github.getPullRequestDiff(pr.number);
+    const touched = parsePatch(diff);
+    const removed = new Set(touched.flatMap(file => file.oldPath && file.oldPath !== file.newPath ? [file.oldPath] : []));
+    const updated = await Promise.all(touched
+      .filter(file => file.newPath && !file.binary)
+      .map(async file => {
+        const content = await this.github.getFileContent(file.newPath!, pr.headSha) ?? "";
+        return {
+          path: path.join(context.root, file.newPath!),
+          content,
+          size: Buffer.byteLength(content),
+          type: "file" as const
+        };
+      }));
+    const replaced = new Set([
+      ...[...removed].map(file => path.join(context.root, file)),
+      ...updated.map(file => file.path)
+    ]);
+
+    return {
+      ...context,
+      branch: pr.headBranch,
+      baseSha: pr.headSha,
+      files: [...context.files.filter(file => !replaced.has(file.path)), ...updated],
+      pullRequest: {
+        number: pr.number,
+        title: pr.title,
+        description: pr.description,
+        headBranch: pr.headBranch,
+        baseBranch: pr.baseBranch,
+        diff,
+        ...(reviewThreads && { reviewThreads })
+      }
+    };
+  }
+
+  /**
+   * Drop replies to comments that are not open review threads, and report
+   * threads the plan left unanswered. Saved plans were already checked.
+   */
+  private checkReplies(
+    plan: PRPlan,
+    threads: ReviewThread[],
+    findings: ValidationResult[]
+  ): PRPlan {
+    if (!plan.replies && threads.length === 0) {
+      return plan;
+    }
+
+    const open = new Map(threads.map(thread => [thread.comments[0].id, thread]));
+    const replies = (plan.replies ?? []).filter(reply => {
+      if (!open.has(reply.comment)) {
+        findings.push({
+          type: "quality",
+          level: "warning",
+          message: `Reply to unknown review comment ${reply.comment} was dropped`,
+          rule: "review-reply"
+        });
+        return false;
+      }
+      return true;
+    });
+
+    for (const [id, thread] of open) {
+      if (!replies.some(reply => reply.comment === id)) {
+        findings.push({
+          type: "quality",
+          level: "warning",
+          message: `Review comment ${id} was not addressed`,
+          file: thread.path,
+          ...(thread.line && { line: thread.line }),
+          rule: "review-reply"
+        });
+      }
+    }
+    return { ...plan, replies };
+  }
+
+  /**
+   * A plan file only applies to the repository and base branch it was
+   * generated for
+   */
+  private checkPlanSource(source: PlanFile, context: RepoContext): void {
+    const { owner, repo } = source.repository;
+    if (owner !== context.owner || repo !== context.repo) {
+      throw new WorkflowError(
+        `Plan was generated for ${owner}/${repo}, not ${context.owner}/${context.repo}`
+      );
+    }
+    if (source.baseBranch !== this.config.DEFAULT_BRANCH) {
+      throw new WorkflowError(
+        `Plan targets '${source.baseBranch}' but the configured base branch is '${this.config.DEFAULT_BRANCH}'`
+      );
+    }
+  }
+
+  /**
+   * The plan to use, and the conversation it came from when it may be
+   * refined further
+   */
+  private async generatePlan(
+    prompt: string,
+    context: RepoContext,
+    options: WorkflowOptions & { keepSession?: boolean }
+  ): Promise<{ plan: PRPlan; session?: PlanSession }> {
+    const generateOptions = {
+      onProgress: options.onProgress,
+      usage: options.usage
+    };
+
+    if (!options.refine && !options.keepSession) {
+      return { plan: await this.ai.generatePRPlan(prompt, context, generateOptions) };
+    }
+
+    const session = await this.ai.startSession(prompt, context, generateOptions);
+    await options.refine?.(session);
+    return { plan: session.plan, session };
+  }
+
+  /**
+   * Run the repository's checks on the change set, applied to the commit
+   * it was merged onto
+   */
+  private async verify(
+    head: string,
+    changes: FileChange[],
+    context: RepoContext
+  ): Promise<VerificationReport> {
+    try {
+      return await verifyChanges(this.repoPath, changes, {
+        base: head,
+        context,
+        timeoutMs: this.config.VERIFY_TIMEOUT_MS
+      });
+    } catch (error) {
+      throw new WorkflowError("Failed to verify the changes", error);
+    }
+  }
+
+  private describeVerification(report: VerificationReport): PRSection {
+    const rounds = report.fixRounds === 1 ? "once" : `${report.fixRounds} times`;
+    return {
+      title: "Verification",
+      body: [
+        ...report.results.map(result =>
+          `- ${result.passed ? "✅" : "❌"} ${result.step}: \`${result.command}\`${result.timedOut ? " (timed out)" : ""}`),
+        ...(report.results.length === 0 ? ["No build, lint or test commands found"] : []),
+        ...(report.fixRounds > 0 ? ["", `The model revised the changes ${rounds} after failed checks.`] : [])
+      ].join("\n")
+    };
+  }
+
   private validateInput(prompt: string): void {
     if (!prompt?.trim()) {
       throw new WorkflowError("Prompt cannot be empty");
@@ -73,25 +864,21 @@ export class PRWorkflow {
     }
   }
 
-  private async getRepoContext(): Promise<RepoContext> {
-    // TODO: Implement repository context gathering
-    // This should:
-    // 1. Get current branch info
-    // 2. Get relevant files based on the directory structure
-    // 3. Load file contents as needed
-    throw new Error("Not implemented");
-  }
-
-  private async validatePlan(plan: PRPlan, options: WorkflowOptions): Promise<void> {
+  private async validatePlan(
+    plan: PRPlan,
+    options: WorkflowOptions,
+    pullRequest?: RepoContext["pullRequest"]
+  ): Promise<void> {
     // Skip safety checks if explicitly disabled
     if (options.skipSafetyChecks || !this.config.SAFETY_CHECKS) {
       return;
     }
 
-    // Validate number of files
-    if (plan.files.length > this.config.MAX_FILES_PER_PR) {
+    // Validate number of files. New pull requests are split into a stack
+    // instead, but an existing one can only grow.
+    if (pullRequest && plan.files.length > this.config.MAX_FILES_PER_PR) {
       throw new WorkflowError(
-        `Too many files in PR plan (${plan.files.length} > ${this.config.MAX_FILES_PER_PR})`
+        `Too many files to push to pull request #${pullRequest.number} (${plan.files.length} > ${this.config.MAX_FILES_PER_PR})`
       );
     }
 
@@ -105,65 +892,341 @@ export class PRWorkflow {
     }
 
     // Validate branch protection
-    const hasProtection = await this.github.getBranchProtection(this.config.DEFAULT_BRANCH);
+    const branch = pullRequest?.headBranch ?? this.config.DEFAULT_BRANCH;
+    const hasProtection = await this.github.getBranchProtection(branch);
     if (hasProtection && !options.skipSafetyChecks) {
       throw new WorkflowError(
-        `Target branch '${this.config.DEFAULT_BRANCH}' is protected. Use --skip-safety-checks to override.`
+        `Target branch '${branch}' is protected. Use --skip-safety-checks to override.`
+      );
+    }
+  }
+
+  /**
+   * The commit change set for a plan. Diffs are applied to the files the
+   * model saw; if the base branch has moved since, the result is merged
+   * onto its current head.
+   */
+  private async resolveChanges(
+    plan: PRPlan,
+    context: RepoContext,
+    options: WorkflowOptions
+  ): Promise<ResolvedChanges> {
+    const branch = context.pullRequest?.headBranch ?? this.config.DEFAULT_BRANCH;
+    const head = await this.github.getBranchSha(branch);
+    const base = context.baseSha;
+    const git = new GitOperations(this.repoPath);
+    const labels = {
+      ours: "AI changes",
+      base: `base ${base?.slice(0, 7)}`,
+      theirs: `${branch} ${head.slice(0, 7)}`
+    };
+
+    // A pull request's head is usually not checked out locally
+    const readBase = async (path: string): Promise<string | null> => base && !context.pullRequest
+      ? git.getFileAt(base, path)
+      : this.github.getFileContent(path, base ?? head);
+
+    const readOriginal = async (path: string): Promise<string> => {
+      const original = await readBase(path);
+      if (original === null) {
+        throw new WorkflowError(`Cannot change ${path}: it does not exist on ${branch}`);
+      }
+      return original;
+    };
+
+    // Merge our version of a file with whatever the base branch has now
+    const merge = async (
+      path: string,
+      original: string | null,
+      ours: string
+    ): Promise<{ content: string; before: string; conflicts?: FileConflicts }> => {
+      if (!base || base === head) {
+        return { content: ours, before: original ?? "" };
+      }
+
+      const current = await this.github.getFileContent(path, head);
+      if (current === original || current === ours) {
+        return { content: ours, before: current ?? "" };
+      }
+
+      const merged = merge3(original ?? "", ours, current ?? "", labels);
+      return {
+        content: merged.content,
+        before: current ?? "",
+        ...(!merged.clean && { conflicts: { path, conflicts: merged.conflicts } })
+      };
+    };
+
+    const resolve = async (file: PRPlan["files"][number]): Promise<ResolvedFile> => {
+      switch (file.action) {
+        case "delete": {
+          const before = await this.github.getFileContent(file.path, head);
+          const original = base && base !== head ? await readBase(file.path) : before;
+          // Deleting a file the base branch has since changed would throw
+          // away commits the model never saw, unless they only removed lines
+          if (before === null || before === original || merge3(original ?? "", "", before).content === "") {
+            return { change: { action: "delete", path: file.path }, before: before ?? "", after: "" };
+          }
+          const lines = (text: string) => text === "" ? [] : text.replace(/\n$/, "").split("\n");
+          const conflict = { line: 1, base: lines(original ?? ""), ours: [], theirs: lines(before) };
+          const content = [
+            `<<<<<<< ${labels.ours}`,
+            `||||||| ${labels.base}`,
+            ...conflict.base,
+            "=======",
+            ...conflict.theirs,
+            `>>>>>>> ${labels.theirs}`,
+            ""
+          ].join("\n");
+          return {
+            change: { action: "modify", path: file.path, content },
+            conflicts: { path: file.path, conflicts: [conflict] },
+            before,
+            after: content
+          };
+        }
+
+        case "create": {
+          const { content, before, conflicts } = await merge(file.path, null, file.content || "");
+          return {
+            change: { action: "create", path: file.path, content, mode: this.toFileMode(file) },
+            conflicts,
+            before,
+            after: content
+          };
+        }
+
+        case "modify": {
+          const original = await readOriginal(file.path);
+          const patched = file.diff
+            ? this.applyDiff(file.path, file.diff, original)
+            : { content: file.content || "" };
+          const mode = this.toFileMode(file, patched.mode);
+          if (mode && patched.content === original) {
+            return { change: { action: "mode", path: file.path, mode }, before: original, after: original };
+          }
+
+          const { content, before, conflicts } = await merge(file.path, original, patched.content);
+          return {
+            change: { action: "modify", path: file.path, content, mode },
+            conflicts,
+            before,
+            after: content
+          };
+        }
+
+        case "rename": {
+          const oldPath = file.oldPath!;
+          if (!file.diff && file.content === undefined) {
+            return {
+              change: { action: "rename", oldPath, path: file.path, mode: this.toFileMode(file) },
+              before: "",
+              after: ""
+            };
+          }
+
+          // Content changes are merged against the file at its old path
+          const original = await readOriginal(oldPath);
+          const patched = file.diff
+            ? this.applyDiff(file.path, file.diff, original, oldPath)
+            : { content: file.content! };
+          const { content, before, conflicts } = await merge(oldPath, original, patched.content);
+          return {
+            change: {
+              action: "rename",
+              oldPath,
+              path: file.path,
+              content,
+              mode: this.toFileMode(file, patched.mode)
+            },
+            conflicts,
+            before,
+            after: content
+          };
+        }
+      }
+    };
+
+    const resolved = await Promise.all(plan.files.map(resolve));
+
+    const conflicts = resolved.flatMap(file => file.conflicts ? [file.conflicts] : []);
+    if (conflicts.length > 0 && options.onConflict !== "markers") {
+      throw new MergeConflictError(conflicts, { base, head });
+    }
+
+    return {
+      head,
+      changes: resolved.map(file => file.change),
+      conflicts,
+      files: resolved.map(file => this.previewFile(file))
+    };
+  }
+
+  private previewFile({ change, before, after }: ResolvedFile): FilePreview {
+    const oldPath = change.action === "rename" ? change.oldPath : change.path;
+    const hunks = diffLines(before, after);
+    const count = (type: DiffLineType) =>
+      hunks.reduce((sum, hunk) => sum + hunk.lines.filter(line => line.type === type).length, 0);
+
+    return {
+      path: change.path,
+      action: change.action,
+      ...(change.action === "rename" && { oldPath }),
+      ...(change.action !== "delete" && change.mode && { mode: change.mode }),
+      diff: createPatch(
+        change.action === "create" ? null : oldPath,
+        change.action === "delete" ? null : change.path,
+        before,
+        after
+      ),
+      additions: count("add"),
+      deletions: count("delete")
+    };
+  }
+
+  /**
+   * Files in the shape the validation checks expect
+   */
+  private toCodeChanges(changes: FileChange[]): CodeChange[] {
+    return changes.flatMap((change): CodeChange[] => {
+      switch (change.action) {
+        case "create":
+        case "modify":
+          return [{ path: change.path, operation: change.action, content: change.content }];
+        case "rename":
+          return change.content === undefined
+            ? []
+            : [{ path: change.path, operation: "modify", content: change.content, oldPath: change.oldPath }];
+        case "delete":
+          return [{ path: change.path, operation: "delete" }];
+        case "mode":
+          return [];
+      }
+    });
+  }
+
+  private checkFindings(findings: ValidationResult[], options: WorkflowOptions): void {
+    if (options.skipSafetyChecks || !this.config.SAFETY_CHECKS) {
+      return;
+    }
+
+    const blocking = findings.filter(finding => finding.level === "error");
+    if (blocking.length > 0) {
+      throw new ValidationError(
+        `Validation failed with blocking issues: ${blocking
+          .map(finding => finding.file
+            ? `${finding.message} (${finding.file}${finding.line ? `:${finding.line}` : ""})`
+            : finding.message)
+          .join("; ")}`,
+        blocking
       );
     }
   }
 
-  private async applyChanges(branch: string, plan: PRPlan): Promise<void> {
-    // Group files by action
-    const { create, modify, remove } = this.groupFilesByAction(plan.files);
+  private applyDiff(
+    path: string,
+    diff: string,
+    original: string,
+    oldPath?: string
+  ): { content: string; mode?: number } {
+    const patches = parsePatch(diff);
+    const patch = patches.length === 1
+      ? patches[0]
+      : patches.find(patch => patch.newPath === path || patch.oldPath === (oldPath ?? path));
+    if (!patch) {
+      throw new WorkflowError(`Diff for ${path} does not contain changes to that file`);
+    }
 
-    // Handle file creations and modifications
-    if (create.length > 0 || modify.length > 0) {
-      await this.github.commitFiles(
-        branch,
-        "feat: apply AI-generated changes",
-        [...create, ...modify].map(file => ({
-          path: file.path,
-          content: file.content || ""
-        }))
+    const result = applyHunks(original, patch.hunks, { fuzz: this.config.PATCH_FUZZ });
+    if (!result.ok) {
+      const failures = result.hunks.filter(hunk => !hunk.applied);
+      throw new PatchApplyError(
+        `Failed to apply ${failures.length} of ${patch.hunks.length} hunks to ${path}: ` +
+          failures.map(hunk => `hunk ${hunk.index + 1}: ${hunk.reason}`).join("; "),
+        failures,
+        { path }
       );
     }
 
-    // TODO: Handle file deletions
-    if (remove.length > 0) {
-      // Implement file deletion logic
+    return {
+      content: result.content,
+      ...(patch.newMode !== undefined && patch.newMode !== patch.oldMode && { mode: patch.newMode })
+    };
+  }
+
+  /**
+   * Tree mode requested by the plan, or by a `new mode` line in its diff
+   */
+  private toFileMode(file: PRPlan["files"][number], patchMode?: number): FileMode | undefined {
+    const mode = file.mode ?? patchMode;
+    if (mode === undefined) {
+      return undefined;
+    }
+
+    const fileMode = toFileMode(mode);
+    if (!fileMode) {
+      throw new WorkflowError(`Unsupported file mode ${mode} for ${file.path}`);
     }
+    return fileMode;
   }
 
-  private groupFilesByAction(files: PRPlan["files"]) {
-    return files.reduce(
-      (acc, file) => {
-        if (file.action === "create") acc.create.push(file);
-        if (file.action === "modify") acc.modify.push(file);
-        if (file.action === "delete") acc.remove.push(file);
-        return acc;
-      },
-      { create: [], modify: [], remove: [] } as Record<string, typeof files>
-    );
+  private async applyChanges(branch: string, changes: FileChange[]): Promise<void> {
+    if (changes.length > 0) {
+      await this.github.commitFiles(branch, "feat: apply AI-generated changes", changes);
+    }
   }
 
-  private generateBranchName(prompt: string): string {
-    const sanitized = prompt
+  private generateBranchName(prompt: string, issue?: IssueInfo): string {
+    const slug = (text: string) => text
       .toLowerCase()
       .replace(/[^a-z0-9]+/g, "-")
       .replace(/^-|-$/g, "")
       .slice(0, 50);
-    
-    return `ai-pr/${sanitized}-${Date.now().toString(36)}`;
+
+    // Suffixed so that running the same request again does not collide
+    // with the branch of an earlier run
+    const suffix = Date.now().toString(36);
+    return issue
+      ? `ai-pr/${issue.number}-${slug(issue.title)}-${suffix}`
+      : `ai-pr/${slug(prompt)}-${suffix}`;
   }
 
-  private generatePRDescription(prompt: string, plan: PRPlan): string {
+  private generatePRDescription(
+    prompt: string,
+    plan: PRPlan,
+    conflicts: FileConflicts[] = [],
+    sections: PRSection[] = [],
+    branch: string = this.config.DEFAULT_BRANCH,
+    closes?: number
+  ): string {
+    const security = plan.metadata?.securityConsiderations ?? [];
+    const testing = plan.metadata?.testingRecommendations ?? [];
+
     return [
       plan.pr.description,
+      ...(closes !== undefined ? ["", `Closes #${closes}`] : []),
+      ...(conflicts.length > 0
+        ? [
+          "",
+          "### ⚠️ Merge conflicts",
+          `\`${branch}\` changed while this PR was generated. Resolve the conflict markers in:`,
+          ...conflicts.map(file => `- \`${file.path}\` (line ${file.conflicts.map(conflict => conflict.line).join(", ")})`)
+        ]
+        : []),
+      ...(security.length > 0
+        ? ["", "### Security considerations", ...security.map(item => `- ${item}`)]
+        : []),
+      ...(testing.length > 0
+        ? ["", "### Testing", ...testing.map(item => `- ${item}`)]
+        : []),
+      ...sections.flatMap(section => ["", `### ${section.title}`, section.body]),
       "",
       "---",
       "🤖 Generated by AutomatePR",
       `Original prompt: "${prompt}"`,
+      ...(plan.metadata
+        ? [`Confidence: ${Math.round(plan.metadata.confidence * 100)}% (${plan.metadata.complexity} complexity)`]
+        : []),
       "",
       "Changes:",
       ...plan.files.map(f => `- ${f.action} \`${f.path}\``)
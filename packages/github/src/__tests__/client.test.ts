@@ -0,0 +1,341 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Octokit } from "@octokit/rest";
+import { GitHubError, GitHubRepoManager } from "../client";
+import { toFileMode } from "../changes";
+
+vi.mock("@octokit/rest", () => ({
+  Octokit: vi.fn()
+}));
+
+describe("GitHubRepoManager", () => {
+  const git = {
+    getRef: vi.fn(),
+    getTree: vi.fn(),
+    createBlob: vi.fn(),
+    createTree: vi.fn(),
+    createCommit: vi.fn(),
+    updateRef: vi.fn(),
+    deleteRef: vi.fn()
+  };
+  const pulls = {
+    create: vi.fn(),
+    get: vi.fn(),
+    list: vi.fn(),
+    update: vi.fn(),
+    createReplyForReviewComment: vi.fn()
+  };
+  const graphql = vi.fn();
+  const issues = {
+    addLabels: vi.fn(),
+    get: vi.fn(),
+    listComments: vi.fn(),
+    update: vi.fn()
+  };
+  // Follows `rel="next"` links like Octokit's paginate
+  const paginate = vi.fn(async (method: typeof issues.listComments, params: Record<string, unknown>) => {
+    const items: unknown[] = [];
+    for (let page = 1; ; page++) {
+      const { data, headers } = await method({ ...params, page });
+      items.push(...data);
+      if (!headers?.link?.includes("rel=\"next\"")) return items;
+    }
+  });
+  let github: GitHubRepoManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(Octokit).mockImplementation(() => ({ git, pulls, issues, graphql, paginate }) as unknown as Octokit);
+    git.getRef.mockResolvedValue({ data: { object: { sha: "head" } } });
+    git.getTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: "src", type: "tree", mode: "040000", sha: "t1" },
+          { path: "src/legacy.ts", type: "blob", mode: "100644", sha: "b1" },
+          { path: "src/health.ts", type: "blob", mode: "100644", sha: "b2" },
+          { path: "scripts/release.sh", type: "blob", mode: "100755", sha: "b3" },
+          { path: "bin/cli", type: "blob", mode: "100644", sha: "b4" }
+        ]
+      }
+    });
+    git.createBlob.mockImplementation(async ({ content }) => ({ data: { sha: `blob:${content}` } }));
+    git.createTree.mockResolvedValue({ data: { sha: "tree" } });
+    git.createCommit.mockResolvedValue({ data: { sha: "commit" } });
+    github = new GitHubRepoManager("token", "owner", "repo");
+  });
+
+  describe("commitFiles", () => {
+    it("builds a single tree for every kind of change", async () => {
+      await github.commitFiles("feature", "chore: reorganise", [
+        { action: "create", path: "src/new.ts", content: "new" },
+        { action: "modify", path: "scripts/release.sh", content: "sh" },
+        { action: "delete", path: "src/legacy.ts" },
+        { action: "rename", oldPath: "src/health.ts", path: "src/routes/health.ts" },
+        { action: "mode", path: "bin/cli", mode: "100755" },
+        { action: "create", path: "current", content: "releases/v2", mode: "120000" }
+      ]);
+
+      const base64 = (text: string) => `blob:${Buffer.from(text).toString("base64")}`;
+      expect(git.getTree).toHaveBeenCalledWith(expect.objectContaining({ tree_sha: "head", recursive: "true" }));
+      expect(git.createTree).toHaveBeenCalledWith(expect.objectContaining({
+        base_tree: "head",
+        tree: [
+          { path: "src/new.ts", mode: "100644", type: "blob", sha: base64("new") },
+          { path: "scripts/release.sh", mode: "100755", type: "blob", sha: base64("sh") },
+          { path: "src/legacy.ts", mode: "100644", type: "blob", sha: null },
+          { path: "src/health.ts", mode: "100644", type: "blob", sha: null },
+          { path: "src/routes/health.ts", mode: "100644", type: "blob", sha: "b2" },
+          { path: "bin/cli", mode: "100755", type: "blob", sha: "b4" },
+          { path: "current", mode: "120000", type: "blob", sha: base64("releases/v2") }
+        ]
+      }));
+      expect(git.createCommit).toHaveBeenCalledWith(expect.objectContaining({ tree: "tree", parents: ["head"] }));
+      expect(git.updateRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "heads/feature", sha: "commit" }));
+    });
+
+    it("does not list the tree when nothing depends on existing files", async () => {
+      await github.commitFiles("feature", "feat: add file", [
+        { action: "create", path: "src/new.ts", content: "new" }
+      ]);
+
+      expect(git.getTree).not.toHaveBeenCalled();
+    });
+
+    it("refuses to delete a file that does not exist", async () => {
+      const error = await github.commitFiles("feature", "chore: remove", [
+        { action: "delete", path: "src/missing.ts" }
+      ]).catch(error => error);
+
+      expect(error).toBeInstanceOf(GitHubError);
+      expect(error.message).toBe("Cannot change src/missing.ts: file does not exist");
+      expect(git.createTree).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("pull requests", () => {
+    const pr = {
+      number: 12,
+      title: "feat: longer sessions",
+      body: null,
+      state: "open",
+      merged_at: null,
+      html_url: "https://github.com/owner/repo/pull/12",
+      head: { ref: "feature", sha: "abc", repo: { full_name: "owner/repo" } },
+      base: { ref: "main" }
+    };
+
+    it("reads a pull request", async () => {
+      pulls.get.mockResolvedValue({ data: pr });
+
+      await expect(github.getPullRequest(12)).resolves.toEqual({
+        number: 12,
+        title: "feat: longer sessions",
+        description: "",
+        headBranch: "feature",
+        baseBranch: "main",
+        headSha: "abc",
+        state: "open",
+        merged: false,
+        fromFork: false,
+        url: "https://github.com/owner/repo/pull/12"
+      });
+    });
+
+    it("flags pull requests from forks", async () => {
+      pulls.list.mockResolvedValue({ data: [{ ...pr, head: { ...pr.head, repo: { full_name: "someone/repo" } } }] });
+
+      await expect(github.findPullRequest("feature")).resolves.toMatchObject({ fromFork: true });
+      expect(pulls.list).toHaveBeenCalledWith(expect.objectContaining({ head: "owner:feature", state: "open" }));
+    });
+
+    it("updates the title and body and adds labels", async () => {
+      await github.updatePullRequest(12, { title: "feat: sessions", description: "Body", labels: ["jira"] });
+
+      expect(pulls.update).toHaveBeenCalledWith(expect.objectContaining({ pull_number: 12, title: "feat: sessions", body: "Body" }));
+      expect(issues.addLabels).toHaveBeenCalledWith(expect.objectContaining({ issue_number: 12, labels: ["jira"] }));
+    });
+
+    it("sets the milestone of a new pull request", async () => {
+      pulls.create.mockResolvedValue({ data: { number: 13 } });
+
+      await github.createPullRequest({
+        title: "feat: health check",
+        description: "Closes #7",
+        headBranch: "ai-pr/7-health-check",
+        baseBranch: "main",
+        milestone: 2
+      });
+
+      expect(issues.update).toHaveBeenCalledWith(expect.objectContaining({ issue_number: 13, milestone: 2 }));
+    });
+  });
+
+  describe("issues", () => {
+    it("reads an issue with its labels, milestone and comments", async () => {
+      issues.get.mockResolvedValue({
+        data: {
+          number: 7,
+          title: "Add a health check",
+          body: null,
+          labels: ["ops", { name: "enhancement" }],
+          milestone: { number: 2, title: "v1.2" },
+          state: "open",
+          html_url: "https://github.com/owner/repo/issues/7"
+        }
+      });
+      issues.listComments.mockResolvedValue({
+        data: [
+          { user: { login: "octocat" }, body: "Plain text please" },
+          { user: null, body: "+1" }
+        ]
+      });
+
+      await expect(github.getIssue(7)).resolves.toEqual({
+        number: 7,
+        title: "Add a health check",
+        body: "",
+        labels: ["ops", "enhancement"],
+        milestone: 2,
+        state: "open",
+        isPullRequest: false,
+        comments: [
+          { author: "octocat", body: "Plain text please" },
+          { author: "ghost", body: "+1" }
+        ],
+        url: "https://github.com/owner/repo/issues/7"
+      });
+    });
+
+    it("reads every page of comments", async () => {
+      issues.get.mockResolvedValue({
+        data: { number: 7, title: "Busy issue", body: "", labels: [], state: "open", html_url: "" }
+      });
+      issues.listComments
+        .mockResolvedValueOnce({
+          data: [{ user: { login: "octocat" }, body: "First" }],
+          headers: { link: "<https://api.github.com/repositories/1/issues/7/comments?page=2>; rel=\"next\"" }
+        })
+        .mockResolvedValueOnce({ data: [{ user: { login: "hubot" }, body: "Second" }], headers: {} });
+
+      const issue = await github.getIssue(7);
+
+      expect(issue.comments).toEqual([
+        { author: "octocat", body: "First" },
+        { author: "hubot", body: "Second" }
+      ]);
+      expect(issues.listComments).toHaveBeenLastCalledWith(expect.objectContaining({ issue_number: 7, page: 2 }));
+    });
+  });
+
+  describe("review comments", () => {
+    const lastPage = { hasNextPage: false, endCursor: null };
+
+    it("reads review threads with their resolution state", async () => {
+      graphql.mockResolvedValue({
+        repository: {
+          pullRequest: {
+            reviewThreads: {
+              pageInfo: lastPage,
+              nodes: [{
+                id: "T1",
+                isResolved: false,
+                path: "src/session.ts",
+                line: 3,
+                comments: {
+                  pageInfo: lastPage,
+                  nodes: [
+                    { databaseId: 501, body: "Use a named constant", author: { login: "alice" } },
+                    { databaseId: 502, body: "+1", author: null }
+                  ]
+                }
+              }]
+            }
+          }
+        }
+      });
+
+      await expect(github.getReviewThreads(12)).resolves.toEqual([{
+        path: "src/session.ts",
+        line: 3,
+        resolved: false,
+        comments: [
+          { id: 501, author: "alice", body: "Use a named constant" },
+          { id: 502, author: "ghost", body: "+1" }
+        ]
+      }]);
+      expect(graphql).toHaveBeenCalledWith(
+        expect.stringContaining("reviewThreads"),
+        { owner: "owner", repo: "repo", number: 12, cursor: null }
+      );
+    });
+
+    it("reads every page of threads and comments", async () => {
+      const thread = (id: string, comments: object) => ({ id, isResolved: false, path: "a.ts", line: 1, comments });
+      const comment = (id: number) => ({ databaseId: id, body: `comment ${id}`, author: { login: "alice" } });
+      graphql
+        .mockResolvedValueOnce({
+          repository: {
+            pullRequest: {
+              reviewThreads: {
+                pageInfo: { hasNextPage: true, endCursor: "threads-1" },
+                nodes: [thread("T1", { pageInfo: { hasNextPage: true, endCursor: "comments-1" }, nodes: [comment(1)] })]
+              }
+            }
+          }
+        })
+        .mockResolvedValueOnce({
+          repository: {
+            pullRequest: {
+              reviewThreads: {
+                pageInfo: lastPage,
+                nodes: [thread("T2", { pageInfo: lastPage, nodes: [comment(3)] })]
+              }
+            }
+          }
+        })
+        .mockResolvedValueOnce({ node: { comments: { pageInfo: lastPage, nodes: [comment(2)] } } });
+
+      const threads = await github.getReviewThreads(12);
+
+      expect(threads.map(({ comments }) => comments.map(({ id }) => id))).toEqual([[1, 2], [3]]);
+      expect(graphql).toHaveBeenNthCalledWith(2, expect.any(String), expect.objectContaining({ cursor: "threads-1" }));
+      expect(graphql).toHaveBeenNthCalledWith(3, expect.stringContaining("PullRequestReviewThread"), { id: "T1", cursor: "comments-1" });
+    });
+
+    it("replies in a thread", async () => {
+      await github.replyToReviewComment(12, 501, "Extracted SESSION_TIMEOUT");
+
+      expect(pulls.createReplyForReviewComment).toHaveBeenCalledWith(expect.objectContaining({
+        pull_number: 12,
+        comment_id: 501,
+        body: "Extracted SESSION_TIMEOUT"
+      }));
+    });
+  });
+
+  describe("deleteBranch", () => {
+    it("deletes the branch ref", async () => {
+      await expect(github.deleteBranch("feature")).resolves.toBe(true);
+      expect(git.deleteRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "heads/feature" }));
+    });
+
+    it("reports a branch that is already gone", async () => {
+      git.deleteRef.mockRejectedValue(Object.assign(new Error("Reference does not exist"), { status: 422 }));
+
+      await expect(github.deleteBranch("feature")).resolves.toBe(false);
+    });
+  });
+});
+
+describe("toFileMode", () => {
+  it.each([
+    [0o100755, "100755"],
+    [755, "100755"],
+    [100644, "100644"],
+    [0o644, "100644"],
+    [120000, "120000"],
+    [777, undefined]
+  ])("maps %d to %s", (mode, expected) => {
+    expect(toFileMode(mode)).toBe(expected);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { GitHubRepoManager, RequestScheduler } from "../client";
+
+describe("GitHubRepoManager request scheduling", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("authenticates requests with the scheduler's token", async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ object: { sha: "abc123" } }), {
+      status: 200,
+      headers: { "content-type": "application/json" }
+    }));
+    vi.stubGlobal("fetch", fetch);
+    let scheduled = 0;
+    const schedule: RequestScheduler = request => {
+      scheduled++;
+      return request("shared");
+    };
+    const github = new GitHubRepoManager("constructor-token", "owner", "repo", { schedule });
+
+    await expect(github.getBranchSha("main")).resolves.toBe("abc123");
+
+    expect(scheduled).toBe(1);
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://api.github.com/repos/owner/repo/git/ref/heads%2Fmain");
+    expect(new Headers(init.headers).get("authorization")).toBe("token shared");
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Git tree entry modes GitHub accepts for files
+ */
+export type FileMode = "100644" | "100755" | "120000";
+
+export const FILE_MODES = {
+  regular: "100644",
+  executable: "100755",
+  symlink: "120000"
+} as const;
+
+interface ChangeBase {
+  path: string;
+  /** Keeps the file's current mode when omitted, or regular for new files */
+  mode?: FileMode;
+}
+
+export interface WriteChange extends ChangeBase {
+  action: "create" | "modify";
+  /** File content, or the link target for symlinks */
+  content: string;
+}
+
+export interface DeleteChange {
+  action: "delete";
+  path: string;
+}
+
+export interface RenameChange extends ChangeBase {
+  action: "rename";
+  oldPath: string;
+  /** New content; the existing blob is moved unchanged when omitted */
+  content?: string;
+}
+
+export interface ModeChange {
+  action: "mode";
+  path: string;
+  mode: FileMode;
+}
+
+export type FileChange = WriteChange | DeleteChange | RenameChange | ModeChange;
+
+/**
+ * Map a numeric file mode onto a tree mode. Accepts real modes such as
+ * `0o100755` as well as their octal digits written as a decimal number
+ * (`755`, `100755`), which is how modes usually end up in JSON.
+ */
+export function toFileMode(mode: number): FileMode | undefined {
+  for (const digits of [String(mode), mode.toString(8)]) {
+    switch (digits) {
+      case "644":
+      case "100644":
+        return FILE_MODES.regular;
+      case "755":
+      case "100755":
+        return FILE_MODES.executable;
+      case "120000":
+        return FILE_MODES.symlink;
+    }
+  }
+  return undefined;
+}
@@ -1,10 +1,105 @@
 import { Octokit } from "@octokit/rest";
-import { PRParams } from "@automate-pr/types";
+import { IssueInfo, PRParams, PullRequestInfo, ReviewThread } from "@automate-pr/types";
+import { FILE_MODES, FileChange, FileMode } from "./changes";
+
+/**
+ * Runs an API request with the token it is given, e.g.
+ * `TokenManager.executeRequest`
+ */
+export type RequestScheduler = <T>(request: (token: string) => Promise<T>) => Promise<T>;
 
 export interface GitHubOptions {
   baseUrl?: string;
   timeoutMs?: number;
   retries?: number;
+  /**
+   * Send every request through this, authenticated with the token it
+   * hands out instead of the constructor's. Clients sharing a scheduler
+   * share its rate limit.
+   */
+  schedule?: RequestScheduler;
+}
+
+// Resolution state is only exposed through GraphQL
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            isResolved
+            path
+            line
+            comments(first: 100) {
+              pageInfo { hasNextPage endCursor }
+              nodes { databaseId body author { login } }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Comments of a thread past the first page
+const THREAD_COMMENTS_QUERY = `
+  query($id: ID!, $cursor: String) {
+    node(id: $id) {
+      ... on PullRequestReviewThread {
+        comments(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes { databaseId body author { login } }
+        }
+      }
+    }
+  }
+`;
+
+// Fields shared by the pull request get and list endpoints
+interface PullRequestData {
+  number: number;
+  title: string;
+  body: string | null;
+  head: { ref: string; sha: string; repo: { full_name: string } | null };
+  base: { ref: string };
+  state: string;
+  merged_at: string | null;
+  html_url: string;
+}
+
+interface Connection<T> {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: T[];
+}
+
+interface ReviewCommentNode {
+  databaseId: number;
+  body: string;
+  /** Null for deleted accounts */
+  author: { login: string } | null;
+}
+
+interface ReviewThreadNode {
+  id: string;
+  isResolved: boolean;
+  path: string;
+  line: number | null;
+  comments: Connection<ReviewCommentNode>;
+}
+
+interface TreeEntry {
+  mode: FileMode;
+  sha: string;
+}
+
+interface TreeEntryInput {
+  path: string;
+  mode: FileMode;
+  type: "blob";
+  /** Null removes the path from the tree */
+  sha: string | null;
 }
 
 export class GitHubError extends Error {
@@ -27,13 +122,26 @@ export class GitHubRepoManager {
     private readonly repo: string,
     options: GitHubOptions = {}
   ) {
+    const { schedule } = options;
     this.octokit = new Octokit({
-      auth: token,
+      // Octokit's auth hook would replace the scheduler's token
+      ...(!schedule && { auth: token }),
       baseUrl: options.baseUrl,
       request: {
         timeout: options.timeoutMs || 10000
       }
     });
+
+    if (schedule) {
+      this.octokit.hook.wrap("request", (request, params) =>
+        schedule(async token => {
+          // The wrapped request reads the options it was called with, not
+          // its argument, so they are changed in place
+          params.headers = { ...params.headers, authorization: `token ${token}` };
+          return request(params);
+        })
+      );
+    }
   }
 
   async createBranch(baseBranch: string, newBranch: string): Promise<void> {
@@ -76,16 +184,220 @@ export class GitHubRepoManager {
         });
       }
 
+      if (params.labels?.length) {
+        await this.octokit.issues.addLabels({
+          owner: this.owner,
+          repo: this.repo,
+          issue_number: pr.number,
+          labels: params.labels
+        });
+      }
+
+      if (params.milestone !== undefined) {
+        await this.octokit.issues.update({
+          owner: this.owner,
+          repo: this.repo,
+          issue_number: pr.number,
+          milestone: params.milestone
+        });
+      }
+
       return pr.number;
     } catch (error) {
       throw this.handleError(error, "Failed to create pull request");
     }
   }
 
+  /**
+   * An issue with its labels, milestone and comments
+   */
+  async getIssue(number: number): Promise<IssueInfo> {
+    try {
+      const { data: issue } = await this.octokit.issues.get({
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: number
+      });
+      const comments = await this.octokit.paginate(this.octokit.issues.listComments, {
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: number,
+        per_page: 100
+      });
+
+      return {
+        number: issue.number,
+        title: issue.title,
+        body: issue.body ?? "",
+        labels: issue.labels.flatMap(label => typeof label === "string" ? [label] : label.name ?? []),
+        ...(issue.milestone && { milestone: issue.milestone.number }),
+        state: issue.state as IssueInfo["state"],
+        isPullRequest: Boolean(issue.pull_request),
+        comments: comments.map(comment => ({
+          author: comment.user?.login ?? "ghost",
+          body: comment.body ?? ""
+        })),
+        url: issue.html_url
+      };
+    } catch (error) {
+      throw this.handleError(error, `Failed to get issue #${number}`);
+    }
+  }
+
+  async getPullRequest(number: number): Promise<PullRequestInfo> {
+    try {
+      const { data: pr } = await this.octokit.pulls.get({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: number
+      });
+      return this.toPullRequestInfo(pr);
+    } catch (error) {
+      throw this.handleError(error, `Failed to get pull request #${number}`);
+    }
+  }
+
+  /**
+   * The open pull request from a branch of this repository, or null if
+   * there is none
+   */
+  async findPullRequest(branch: string): Promise<PullRequestInfo | null> {
+    try {
+      const { data: prs } = await this.octokit.pulls.list({
+        owner: this.owner,
+        repo: this.repo,
+        head: `${this.owner}:${branch}`,
+        state: "open"
+      });
+      return prs.length > 0 ? this.toPullRequestInfo(prs[0]) : null;
+    } catch (error) {
+      throw this.handleError(error, `Failed to find pull request for ${branch}`);
+    }
+  }
+
+  /**
+   * Unified diff of a pull request against its base branch
+   */
+  async getPullRequestDiff(number: number): Promise<string> {
+    try {
+      const { data } = await this.octokit.pulls.get({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: number,
+        mediaType: { format: "diff" }
+      });
+      // The diff media type returns the raw patch instead of JSON
+      return data as unknown as string;
+    } catch (error) {
+      throw this.handleError(error, `Failed to get diff of pull request #${number}`);
+    }
+  }
+
+  /**
+   * Change a pull request's title or description. Labels are added to the
+   * ones it already has.
+   */
+  async updatePullRequest(
+    number: number,
+    params: Partial<Pick<PRParams, "title" | "description" | "labels">>
+  ): Promise<void> {
+    try {
+      await this.octokit.pulls.update({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: number,
+        title: params.title,
+        body: params.description
+      });
+
+      if (params.labels?.length) {
+        await this.octokit.issues.addLabels({
+          owner: this.owner,
+          repo: this.repo,
+          issue_number: number,
+          labels: params.labels
+        });
+      }
+    } catch (error) {
+      throw this.handleError(error, `Failed to update pull request #${number}`);
+    }
+  }
+
+  /**
+   * Review threads on a pull request, resolved or not
+   */
+  async getReviewThreads(number: number): Promise<ReviewThread[]> {
+    try {
+      const threads: ReviewThreadNode[] = [];
+      let cursor: string | null = null;
+      do {
+        const data: { repository: { pullRequest: { reviewThreads: Connection<ReviewThreadNode> } | null } } =
+          await this.octokit.graphql(REVIEW_THREADS_QUERY, {
+            owner: this.owner,
+            repo: this.repo,
+            number,
+            cursor
+          });
+        const page = data.repository.pullRequest?.reviewThreads;
+        threads.push(...(page?.nodes ?? []));
+        cursor = page?.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+      } while (cursor);
+
+      return await Promise.all(threads.map(async thread => ({
+        path: thread.path,
+        line: thread.line ?? null,
+        resolved: thread.isResolved,
+        comments: (await this.getThreadComments(thread)).map(comment => ({
+          id: comment.databaseId,
+          // Deleted accounts have no author
+          author: comment.author?.login ?? "ghost",
+          body: comment.body
+        }))
+      })));
+    } catch (error) {
+      throw this.handleError(error, `Failed to get review threads of pull request #${number}`);
+    }
+  }
+
+  /**
+   * Every comment of a review thread, fetching the pages after the first
+   */
+  private async getThreadComments(thread: ReviewThreadNode): Promise<ReviewCommentNode[]> {
+    const comments = [...thread.comments.nodes];
+    let { pageInfo } = thread.comments;
+    while (pageInfo.hasNextPage) {
+      const data: { node: { comments: Connection<ReviewCommentNode> } } =
+        await this.octokit.graphql(THREAD_COMMENTS_QUERY, { id: thread.id, cursor: pageInfo.endCursor });
+      comments.push(...data.node.comments.nodes);
+      pageInfo = data.node.comments.pageInfo;
+    }
+    return comments;
+  }
+
+  /**
+   * Reply in the thread started by a review comment
+   */
+  async replyToReviewComment(number: number, commentId: number, body: string): Promise<void> {
+    try {
+      await this.octokit.pulls.createReplyForReviewComment({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: number,
+        comment_id: commentId,
+        body
+      });
+    } catch (error) {
+      throw this.handleError(error, `Failed to reply to review comment ${commentId}`);
+    }
+  }
+
+  /**
+   * Commit a change set on top of a branch in a single commit
+   */
   async commitFiles(
     branch: string,
     message: string,
-    files: Array<{ path: string; content: string; }>
+    changes: FileChange[]
   ): Promise<void> {
     try {
       // Get the latest commit SHA
@@ -95,29 +407,31 @@ export class GitHubRepoManager {
         ref: `heads/${branch}`
       });
 
-      // Create blobs for each file
-      const fileBlobs = await Promise.all(
-        files.map(file =>
-          this.octokit.git.createBlob({
+      // Create blobs for new content
+      const blobs = await Promise.all(
+        changes.map(async change => {
+          if (!("content" in change) || change.content === undefined) {
+            return undefined;
+          }
+          const { data: blob } = await this.octokit.git.createBlob({
             owner: this.owner,
             repo: this.repo,
-            content: Buffer.from(file.content).toString("base64"),
+            content: Buffer.from(change.content).toString("base64"),
             encoding: "base64"
-          })
-        )
+          });
+          return blob.sha;
+        })
       );
 
       // Create tree
+      const existing = await this.loadTreeEntries(ref.object.sha, changes);
       const { data: tree } = await this.octokit.git.createTree({
         owner: this.owner,
         repo: this.repo,
         base_tree: ref.object.sha,
-        tree: files.map((file, index) => ({
-          path: file.path,
-          mode: "100644",
-          type: "blob",
-          sha: fileBlobs[index].data.sha
-        }))
+        tree: changes.flatMap((change, index) =>
+          this.toTreeEntries(change, blobs[index], existing)
+        )
       });
 
       // Create commit
@@ -137,10 +451,76 @@ export class GitHubRepoManager {
         sha: commit.sha
       });
     } catch (error) {
+      if (error instanceof GitHubError) {
+        throw error;
+      }
       throw this.handleError(error, "Failed to commit files");
     }
   }
 
+  /**
+   * SHA of the commit a branch currently points to
+   */
+  async getBranchSha(branch: string): Promise<string> {
+    try {
+      const { data: ref } = await this.octokit.git.getRef({
+        owner: this.owner,
+        repo: this.repo,
+        ref: `heads/${branch}`
+      });
+      return ref.object.sha;
+    } catch (error) {
+      throw this.handleError(error, `Failed to resolve branch ${branch}`);
+    }
+  }
+
+  /**
+   * Delete a branch. Returns false if it was already gone.
+   */
+  async deleteBranch(branch: string): Promise<boolean> {
+    try {
+      await this.octokit.git.deleteRef({
+        owner: this.owner,
+        repo: this.repo,
+        ref: `heads/${branch}`
+      });
+      return true;
+    } catch (error) {
+      // GitHub answers 422 "Reference does not exist" for missing branches
+      if (error.status === 404 || error.status === 422) {
+        return false;
+      }
+      throw this.handleError(error, `Failed to delete branch ${branch}`);
+    }
+  }
+
+  /**
+   * Read a file's text at a branch or commit, or null if it does not exist
+   */
+  async getFileContent(path: string, ref: string): Promise<string | null> {
+    try {
+      const { data } = await this.octokit.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path,
+        ref
+      });
+
+      if (Array.isArray(data) || data.type !== "file") {
+        throw new GitHubError(`${path} is not a file`);
+      }
+      return Buffer.from((data as { content: string }).content, "base64").toString("utf-8");
+    } catch (error) {
+      if (error.status === 404) {
+        return null;
+      }
+      if (error instanceof GitHubError) {
+        throw error;
+      }
+      throw this.handleError(error, `Failed to read ${path} at ${ref}`);
+    }
+  }
+
   async getBranchProtection(branch: string): Promise<boolean> {
     try {
       await this.octokit.repos.getBranchProtection({
@@ -157,6 +537,112 @@ export class GitHubRepoManager {
     }
   }
 
+  /**
+   * Look up the current mode and blob of every path a change set reads from
+   */
+  private async loadTreeEntries(
+    commitSha: string,
+    changes: FileChange[]
+  ): Promise<Map<string, TreeEntry>> {
+    const paths = changes.flatMap(change => {
+      switch (change.action) {
+        case "create":
+          return [];
+        case "modify":
+          return change.mode ? [] : [change.path];
+        case "rename":
+          return [change.oldPath];
+        default:
+          return [change.path];
+      }
+    });
+    if (paths.length === 0) {
+      return new Map();
+    }
+
+    const { data } = await this.octokit.git.getTree({
+      owner: this.owner,
+      repo: this.repo,
+      tree_sha: commitSha,
+      recursive: "true"
+    });
+    const entries = new Map(
+      data.tree
+        .filter(entry => entry.type === "blob" && entry.path)
+        .map(entry => [entry.path!, { mode: entry.mode as FileMode, sha: entry.sha! }])
+    );
+
+    for (const path of paths) {
+      if (entries.has(path)) continue;
+      if (data.truncated) {
+        throw new GitHubError(`Cannot find ${path}: repository tree is too large to list`);
+      }
+      // A modified file without an entry is written with the default mode
+      if (!changes.some(change => change.action === "modify" && change.path === path)) {
+        throw new GitHubError(`Cannot change ${path}: file does not exist`, 404);
+      }
+    }
+    return entries;
+  }
+
+  private toTreeEntries(
+    change: FileChange,
+    blobSha: string | undefined,
+    existing: Map<string, TreeEntry>
+  ): TreeEntryInput[] {
+    switch (change.action) {
+      case "create":
+      case "modify":
+        return [{
+          path: change.path,
+          mode: change.mode ?? existing.get(change.path)?.mode ?? FILE_MODES.regular,
+          type: "blob",
+          sha: blobSha!
+        }];
+      case "delete":
+        return [{
+          path: change.path,
+          mode: existing.get(change.path)!.mode,
+          type: "blob",
+          sha: null
+        }];
+      case "rename": {
+        const source = existing.get(change.oldPath)!;
+        return [
+          { path: change.oldPath, mode: source.mode, type: "blob", sha: null },
+          {
+            path: change.path,
+            mode: change.mode ?? source.mode,
+            type: "blob",
+            sha: blobSha ?? source.sha
+          }
+        ];
+      }
+      case "mode":
+        return [{
+          path: change.path,
+          mode: change.mode,
+          type: "blob",
+          sha: existing.get(change.path)!.sha
+        }];
+    }
+  }
+
+  private toPullRequestInfo(pr: PullRequestData): PullRequestInfo {
+    return {
+      number: pr.number,
+      title: pr.title,
+      description: pr.body ?? "",
+      headBranch: pr.head.ref,
+      baseBranch: pr.base.ref,
+      headSha: pr.head.sha,
+      state: pr.state as PullRequestInfo["state"],
+      merged: Boolean(pr.merged_at),
+      fromFork: pr.head.repo?.full_name !== `${this.owner}/${this.repo}`,
+      url: pr.html_url
+    };
+  }
+
   private handleError(error: any, context: string): GitHubError {
     const status = error.status;
     const response = error.response?.data;
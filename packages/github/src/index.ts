@@ -0,0 +1,13 @@
+export { GitHubError, GitHubRepoManager } from "./client";
+export type { GitHubOptions, RequestScheduler } from "./client";
+
+// Commit change sets
+export { FILE_MODES, toFileMode } from "./changes";
+export type {
+  DeleteChange,
+  FileChange,
+  FileMode,
+  ModeChange,
+  RenameChange,
+  WriteChange
+} from "./changes";
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { detectVersion, migrateAIResponse } from "../migrations";
+import { AIResponseSchema } from "../response";
+
+describe("migrations", () => {
+  const v1Response = {
+    files: [
+      {
+        path: "src/utils/helper.ts",
+        diff: "diff --git a/src/utils/helper.ts b/src/utils/helper.ts\n@@ -1,3 +1,4 @@\n+export const newFunction = () => {};",
+        mode: "modify"
+      },
+      {
+        path: "src/utils/format.ts",
+        diff: "diff --git a/src/utils/format.ts b/src/utils/format.ts\nnew file mode 100644\n@@ -0,0 +1,2 @@\n+export const a = 1;\n+export const b = 2;",
+        mode: "create"
+      },
+      { path: "src/legacy.ts", diff: "", mode: "delete" }
+    ],
+    metadata: {
+      title: "refactor(utils): Split helpers",
+      description: "This PR moves formatting helpers into their own module",
+      branch: "feature/split-helpers",
+      labels: ["refactor"],
+      assignees: ["user1"],
+      reviewers: ["user2"]
+    },
+    reasoning: "Helpers had grown too large"
+  };
+
+  describe("detectVersion", () => {
+    it("uses the explicit version field", () => {
+      expect(detectVersion({ version: 2 })).toBe(2);
+      expect(detectVersion({ version: "1" })).toBe(1);
+    });
+
+    it("recognises unversioned responses by shape", () => {
+      expect(detectVersion(v1Response)).toBe(1);
+      expect(detectVersion({ files: [], pr: {}, metadata: {} })).toBe(2);
+    });
+
+    it("rejects versions that are not positive integers", () => {
+      expect(() => detectVersion({ version: "latest" })).toThrow("Invalid response schema version \"latest\"");
+    });
+  });
+
+  describe("migrateAIResponse", () => {
+    // Stands in for a real patch parser
+    const contentFromDiff = (diff: string) => diff
+      .split("\n")
+      .filter(line => line.startsWith("+"))
+      .map(line => `${line.slice(1)}\n`)
+      .join("");
+
+    it("upgrades a version 1 response to the current schema", () => {
+      const migrated = migrateAIResponse(v1Response, { contentFromDiff });
+
+      expect(AIResponseSchema.parse(migrated)).toEqual({
+        version: 2,
+        files: [
+          { path: "src/utils/helper.ts", action: "modify", diff: v1Response.files[0].diff },
+          { path: "src/utils/format.ts", action: "create", content: "export const a = 1;\nexport const b = 2;\n" },
+          { path: "src/legacy.ts", action: "delete" }
+        ],
+        pr: {
+          title: "Split helpers",
+          body: "This PR moves formatting helpers into their own module",
+          type: "refactor",
+          scope: "utils",
+          breaking: false,
+          draft: false
+        },
+        reviewers: [{ username: "user2", reason: "", expertise: [] }],
+        metadata: {
+          confidence: 0.5,
+          reasoning: "Helpers had grown too large",
+          suggestedLabels: ["refactor"],
+          estimatedComplexity: "medium"
+        }
+      });
+    });
+
+    it("defaults the commit type when the title has no prefix", () => {
+      const migrated = migrateAIResponse({
+        ...v1Response,
+        metadata: { ...v1Response.metadata, title: "Split helpers" }
+      });
+
+      expect(migrated.pr).toMatchObject({ title: "Split helpers", type: "chore" });
+    });
+
+    it("keeps the diff of a created file when nothing can read it", () => {
+      const migrated = migrateAIResponse(v1Response);
+
+      expect((migrated.files as unknown[])[1]).toEqual({
+        path: "src/utils/format.ts",
+        action: "create",
+        diff: v1Response.files[1].diff
+      });
+    });
+
+    it("reports version 1 responses that cannot be migrated", () => {
+      expect(() => migrateAIResponse({ version: 1, files: [], metadata: { title: "x" } }))
+        .toThrow("Invalid AI response format");
+    });
+  });
+});
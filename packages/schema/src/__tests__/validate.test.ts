@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { SchemaError } from "../error";
+import { validateAIResponse } from "../validate";
+
+describe("validateAIResponse", () => {
+  const validResponse = {
+    version: 2,
+    files: [
+      {
+        path: "src/utils/helper.ts",
+        action: "modify",
+        diff: "@@ -1,3 +1,4 @@\n+export const newFunction = () => {};"
+      }
+    ],
+    pr: {
+      title: "add new utility function",
+      body: "This PR adds a new utility function to help with data processing",
+      type: "feat"
+    },
+    metadata: {
+      confidence: 0.8,
+      reasoning: "Small, self-contained helper",
+      suggestedLabels: ["enhancement"],
+      estimatedComplexity: "low"
+    }
+  };
+
+  it("accepts a current response", () => {
+    expect(validateAIResponse(validResponse)).toMatchObject({
+      version: 2,
+      pr: { breaking: false, draft: false }
+    });
+  });
+
+  it("treats unversioned responses with a `pr` section as current", () => {
+    const { version: _, ...unversioned } = validResponse;
+
+    expect(validateAIResponse(unversioned).version).toBe(2);
+  });
+
+  it("accepts replies to review comments", () => {
+    const replies = [{ comment: 501, body: "Extracted a named constant" }];
+
+    expect(validateAIResponse({ ...validResponse, replies }).replies).toEqual(replies);
+    expect(() => validateAIResponse({ ...validResponse, replies: [{ comment: 501, body: "" }] }))
+      .toThrow("Invalid AI response format");
+  });
+
+  it("rejects paths outside the repository", () => {
+    for (const path of ["../src/utils/helper.ts", "/etc/passwd", "src/../../secret"]) {
+      const response = {
+        ...validResponse,
+        files: [{ ...validResponse.files[0], path }]
+      };
+
+      expect(() => validateAIResponse(response)).toThrow(SchemaError);
+    }
+  });
+
+  it("accepts file modes as numbers or octal strings", () => {
+    const response = {
+      ...validResponse,
+      files: [
+        { path: "bin/cli", action: "create", content: "#!/bin/sh\n", mode: "755" },
+        { path: "bin/run", action: "create", content: "#!/bin/sh\n", mode: 100755 }
+      ]
+    };
+
+    expect(validateAIResponse(response).files.map(file => file.mode)).toEqual([755, 100755]);
+  });
+
+  it("rejects responses from a newer schema version", () => {
+    expect(() => validateAIResponse({ ...validResponse, version: 3 }))
+      .toThrow("Response schema version 3 is newer than the supported version 2");
+  });
+
+  it("rejects completely invalid input", () => {
+    expect(() => validateAIResponse("not an object")).toThrow(SchemaError);
+    expect(() => validateAIResponse(null)).toThrow(SchemaError);
+    expect(() => validateAIResponse(undefined)).toThrow(SchemaError);
+  });
+
+  describe("recovery", () => {
+    it("fixes common formatting slips", () => {
+      const response = {
+        ...validResponse,
+        files: [{ ...validResponse.files[0], path: "./src/utils/helper.ts", action: "Modify" }],
+        pr: {
+          title: "feat(utils)!: Add new utility function.",
+          description: "Adds a helper",
+          type: "Feature"
+        },
+        reviewers: ["octocat"],
+        metadata: {
+          ...validResponse.metadata,
+          confidence: "85",
+          suggestedLabels: "enhancement, utils",
+          estimatedComplexity: "Low"
+        }
+      };
+
+      const result = validateAIResponse(response);
+
+      expect(result.files[0]).toMatchObject({ path: "src/utils/helper.ts", action: "modify" });
+      expect(result.pr).toEqual({
+        title: "Add new utility function",
+        body: "Adds a helper",
+        type: "feat",
+        scope: "utils",
+        breaking: true,
+        draft: false
+      });
+      expect(result.reviewers).toEqual([{ username: "octocat", reason: "", expertise: [] }]);
+      expect(result.metadata).toMatchObject({
+        confidence: 0.85,
+        suggestedLabels: ["enhancement", "utils"],
+        estimatedComplexity: "low"
+      });
+    });
+
+    it("leaves lossy fixes to the model", () => {
+      const response = {
+        ...validResponse,
+        pr: { ...validResponse.pr, title: "x".repeat(100) }
+      };
+
+      const error = (() => {
+        try {
+          validateAIResponse(response);
+        } catch (error) {
+          return error;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(SchemaError);
+      expect(error.metadata.error.issues[0].path).toEqual(["pr", "title"]);
+    });
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * A response that cannot be read as any supported schema version
+ */
+export class SchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly metadata: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "SchemaError";
+  }
+}
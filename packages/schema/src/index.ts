@@ -0,0 +1,33 @@
+export {
+  AIMetadataSchema,
+  AIResponseSchema,
+  CommitTypeSchema,
+  FileActionSchema,
+  FileChangeSchema,
+  PRMetadataSchema,
+  RelativePathSchema,
+  ReviewerSchema,
+  ReviewReplySchema,
+  SCHEMA_VERSION
+} from "./response";
+export type {
+  AIMetadata,
+  AIResponse,
+  CommitType,
+  FileAction,
+  FileChange,
+  PRMetadata,
+  Reviewer,
+  ReviewReply
+} from "./response";
+
+// Versioning
+export { AIResponseV1Schema } from "./legacy";
+export type { AIResponseV1 } from "./legacy";
+export { detectVersion, migrateAIResponse } from "./migrations";
+export type { MigrationOptions } from "./migrations";
+
+export { validateAIResponse } from "./validate";
+
+// Errors
+export { SchemaError } from "./error";
@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+/**
+ * Version 1 responses put the PR title and description under `metadata`
+ * and used `mode` for the file action. Only what migration needs is
+ * checked; the current schema validates the migrated result.
+ */
+export const AIResponseV1Schema = z.object({
+  version: z.literal(1).optional(),
+  files: z.array(z.object({
+    path: z.string(),
+    diff: z.string().optional(),
+    oldPath: z.string().optional(),
+    mode: z.enum(["create", "modify", "delete", "rename"]).default("modify"),
+    content: z.string().optional()
+  })),
+  metadata: z.object({
+    title: z.string(),
+    description: z.string(),
+    branch: z.string().optional(),
+    labels: z.array(z.string()).optional(),
+    assignees: z.array(z.string()).optional(),
+    reviewers: z.array(z.string()).optional()
+  }),
+  reasoning: z.string().optional()
+});
+
+export type AIResponseV1 = z.infer<typeof AIResponseV1Schema>;
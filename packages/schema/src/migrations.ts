@@ -0,0 +1,129 @@
+import { SchemaError } from "./error";
+import { AIResponseV1Schema } from "./legacy";
+import { CommitType, CommitTypeSchema, SCHEMA_VERSION } from "./response";
+
+export type ResponseData = Record<string, unknown>;
+
+export interface MigrationOptions {
+  /**
+   * Content of a file created by a diff against nothing. Without it, such
+   * files are left with their diff and no content.
+   */
+  contentFromDiff?: (diff: string) => string | undefined;
+}
+
+/**
+ * Upgrades a response from the keyed version to the next one
+ */
+type Migration = (data: ResponseData, options: MigrationOptions) => ResponseData;
+
+const MIGRATIONS: Record<number, Migration> = {
+  1: migrateV1
+};
+
+const CONVENTIONAL_TITLE_REGEX = /^([a-z]+)(?:\(([^)]+)\))?(!)?:\s*(.+)$/;
+
+/**
+ * Work out which schema version a response follows. Responses from
+ * before the version field was introduced are recognised by shape.
+ */
+export function detectVersion(data: ResponseData): number {
+  if (data.version !== undefined) {
+    const version = Number(data.version);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new SchemaError(`Invalid response schema version ${JSON.stringify(data.version)}`, {
+        code: "SCHEMA_VERSION_UNSUPPORTED"
+      });
+    }
+    return version;
+  }
+
+  const metadata = data.metadata;
+  if (!("pr" in data) && typeof metadata === "object" && metadata !== null && "title" in metadata) {
+    return 1;
+  }
+  return SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a parsed response to the current schema version. The result
+ * still has to be validated against `AIResponseSchema`.
+ */
+export function migrateAIResponse(input: unknown, options: MigrationOptions = {}): ResponseData {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new SchemaError("AI response must be a JSON object");
+  }
+
+  let data = input as ResponseData;
+  let version = detectVersion(data);
+  if (version > SCHEMA_VERSION) {
+    throw new SchemaError(`Response schema version ${version} is newer than the supported version ${SCHEMA_VERSION}`, {
+      code: "SCHEMA_VERSION_UNSUPPORTED"
+    });
+  }
+
+  for (; version < SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](data, options);
+  }
+  return { ...data, version: SCHEMA_VERSION };
+}
+
+/**
+ * Version 1 had no commit type, reviewer details or confidence. The type
+ * comes from a conventional title prefix when there is one; confidence
+ * and complexity get neutral values. Branch names and assignees have no
+ * equivalent and are dropped.
+ */
+function migrateV1(data: ResponseData, { contentFromDiff }: MigrationOptions): ResponseData {
+  const result = AIResponseV1Schema.safeParse(data);
+  if (!result.success) {
+    throw new SchemaError("Invalid AI response format", {
+      error: result.error,
+      version: 1
+    });
+  }
+
+  const { files, metadata, reasoning } = result.data;
+  return {
+    files: files.map(file => {
+      // Version 1 created files through a diff against nothing
+      const content = file.mode === "create"
+        ? file.content ?? (file.diff ? contentFromDiff?.(file.diff) : undefined)
+        : undefined;
+      return {
+        path: file.path,
+        action: file.mode,
+        ...(file.oldPath && { oldPath: file.oldPath }),
+        ...(file.diff && file.mode !== "delete" && content === undefined && { diff: file.diff }),
+        ...(content !== undefined && { content })
+      };
+    }),
+    pr: {
+      ...parseTitle(metadata.title),
+      body: metadata.description,
+      draft: false
+    },
+    reviewers: (metadata.reviewers ?? []).map(username => ({ username, reason: "", expertise: [] })),
+    metadata: {
+      confidence: 0.5,
+      reasoning: reasoning ?? "",
+      suggestedLabels: metadata.labels ?? [],
+      estimatedComplexity: "medium"
+    }
+  };
+}
+
+function parseTitle(title: string): { title: string; type: CommitType; scope?: string; breaking: boolean } {
+  const match = title.match(CONVENTIONAL_TITLE_REGEX);
+  const type = CommitTypeSchema.safeParse(match?.[1]);
+  if (!match || !type.success) {
+    return { title, type: "chore", breaking: false };
+  }
+
+  return {
+    title: match[4],
+    type: type.data,
+    ...(match[2] && { scope: match[2] }),
+    breaking: Boolean(match[3])
+  };
+}
@@ -1,5 +1,27 @@
 import { z } from "zod";
 
+/**
+ * Version of the response format models are asked to produce
+ */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * Relative path that stays inside the repository
+ */
+export const RelativePathSchema = z.string()
+  .min(1)
+  .refine(path => !path.startsWith("/") && !path.split("/").includes(".."), {
+    message: "must be a relative path inside the repository"
+  });
+
+/**
+ * File modes are octal digits; models often send them as strings
+ */
+const FileModeSchema = z.union([
+  z.number().int().nonnegative(),
+  z.string().regex(/^[0-7]+$/).transform(Number)
+]);
+
 // File change schemas
 export const FileActionSchema = z.enum([
   "create",
@@ -9,12 +31,12 @@ export const FileActionSchema = z.enum([
 ]);
 
 export const FileChangeSchema = z.object({
-  path: z.string(),
+  path: RelativePathSchema,
   action: FileActionSchema,
   diff: z.string().optional(),
   content: z.string().optional(),
-  oldPath: z.string().optional(),
-  mode: z.number().optional()
+  oldPath: RelativePathSchema.optional(),
+  mode: FileModeSchema.optional()
 });
 
 // PR metadata schemas
@@ -48,6 +70,12 @@ export const ReviewerSchema = z.object({
   expertise: z.array(z.string())
 });
 
+// Reply to a pull request review comment the changes address
+export const ReviewReplySchema = z.object({
+  comment: z.number().int(),
+  body: z.string().min(1)
+});
+
 // AI metadata schema
 export const AIMetadataSchema = z.object({
   confidence: z.number().min(0).max(1),
@@ -55,14 +83,18 @@ export const AIMetadataSchema = z.object({
   suggestedLabels: z.array(z.string()),
   estimatedComplexity: z.enum(["low", "medium", "high"]),
   warnings: z.array(z.string()).optional(),
-  suggestions: z.array(z.string()).optional()
+  suggestions: z.array(z.string()).optional(),
+  securityConsiderations: z.array(z.string()).optional(),
+  testingRecommendations: z.array(z.string()).optional()
 });
 
 // Main response schema
 export const AIResponseSchema = z.object({
+  version: z.literal(SCHEMA_VERSION),
   files: z.array(FileChangeSchema),
   pr: PRMetadataSchema,
   reviewers: z.array(ReviewerSchema).optional(),
+  replies: z.array(ReviewReplySchema).optional(),
   metadata: AIMetadataSchema
 });
 
@@ -72,5 +104,6 @@ export type FileChange = z.infer<typeof FileChangeSchema>;
 export type CommitType = z.infer<typeof CommitTypeSchema>;
 export type PRMetadata = z.infer<typeof PRMetadataSchema>;
 export type Reviewer = z.infer<typeof ReviewerSchema>;
+export type ReviewReply = z.infer<typeof ReviewReplySchema>;
 export type AIMetadata = z.infer<typeof AIMetadataSchema>;
-export type AIResponse = z.infer<typeof AIResponseSchema>; 
\ No newline at end of file
+export type AIResponse = z.infer<typeof AIResponseSchema>;
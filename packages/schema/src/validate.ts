@@ -0,0 +1,126 @@
+import { SchemaError } from "./error";
+import { MigrationOptions, migrateAIResponse, ResponseData } from "./migrations";
+import { AIResponse, AIResponseSchema, CommitTypeSchema } from "./response";
+
+const CONVENTIONAL_PREFIX_REGEX = /^([a-z]+)(?:\(([^)]+)\))?(!)?:\s*/;
+
+/**
+ * Validate a parsed AI response of any supported version, upgrading it to
+ * the current schema and fixing common formatting slips before giving up
+ */
+export function validateAIResponse(input: unknown, options: MigrationOptions = {}): AIResponse {
+  const data = migrateAIResponse(input, options);
+
+  const result = AIResponseSchema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const recovered = AIResponseSchema.safeParse(recoverResponse(data));
+  if (recovered.success) {
+    return recovered.data;
+  }
+
+  throw new SchemaError("Invalid AI response format", {
+    error: recovered.error
+  });
+}
+
+/**
+ * Attempt to recover from common response format issues. Only lossless
+ * fixes belong here; anything else is left for the model to repair.
+ */
+function recoverResponse(data: ResponseData): ResponseData {
+  const result: ResponseData = { ...data };
+
+  // Handle files array
+  if (Array.isArray(data.files)) {
+    result.files = data.files.map(file => isObject(file)
+      ? {
+        ...file,
+        ...(typeof file.path === "string" && { path: file.path.trim().replace(/^\.\//, "") }),
+        ...(typeof file.oldPath === "string" && { oldPath: file.oldPath.trim().replace(/^\.\//, "") }),
+        ...(typeof file.action === "string" && { action: file.action.toLowerCase() })
+      }
+      : file);
+  }
+
+  // Handle PR metadata
+  if (isObject(data.pr)) {
+    const pr = data.pr;
+    let title = pr.title;
+    let type = typeof pr.type === "string" ? pr.type.toLowerCase() : pr.type;
+    let scope = pr.scope;
+    let breaking = typeof pr.breaking === "string" ? pr.breaking === "true" : pr.breaking;
+
+    if (typeof pr.title === "string") {
+      // The type belongs in its own field, not repeated in the title
+      const trimmed = pr.title.trim();
+      const match = trimmed.match(CONVENTIONAL_PREFIX_REGEX);
+      const prefix = match && CommitTypeSchema.safeParse(match[1]).success ? match : null;
+      if (prefix) {
+        type = CommitTypeSchema.safeParse(type).success ? type : prefix[1];
+        scope ??= prefix[2];
+        breaking = breaking || Boolean(prefix[3]);
+      }
+      title = trimmed.slice(prefix?.[0].length ?? 0).replace(/\.$/, "");
+    }
+
+    result.pr = {
+      ...pr,
+      title,
+      type,
+      body: pr.body ?? pr.description ?? "",
+      ...(scope !== undefined && { scope }),
+      ...(breaking !== undefined && { breaking })
+    };
+  }
+
+  // Handle reviewers given as plain usernames
+  if (Array.isArray(data.reviewers)) {
+    result.reviewers = data.reviewers.map(reviewer => typeof reviewer === "string"
+      ? { username: reviewer, reason: "", expertise: [] }
+      : reviewer);
+  }
+
+  // Handle AI metadata
+  if (isObject(data.metadata)) {
+    const metadata = data.metadata;
+    let confidence = typeof metadata.confidence === "string"
+      ? parseFloat(metadata.confidence)
+      : metadata.confidence;
+    // Percentages instead of a 0-1 score
+    if (typeof confidence === "number" && confidence > 1 && confidence <= 100) {
+      confidence /= 100;
+    }
+
+    result.metadata = {
+      ...metadata,
+      confidence,
+      reasoning: metadata.reasoning ?? "",
+      suggestedLabels: ensureStringArray(metadata.suggestedLabels),
+      ...(typeof metadata.estimatedComplexity === "string" && {
+        estimatedComplexity: metadata.estimatedComplexity.toLowerCase()
+      })
+    };
+  }
+
+  return result;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Ensure value is an array of strings
+ */
+function ensureStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === "string") {
+    return value.split(",").map(item => item.trim()).filter(Boolean);
+  }
+  return [];
+}
@@ -1,12 +1,4 @@
-export interface RepoContext {
-  owner: string;
-  repo: string;
-  branch: string;
-  files: {
-    path: string;
-    content: string;
-  }[];
-}
+export * from "./repo";
 
 export interface PRParams {
   title: string;
@@ -15,18 +7,103 @@ export interface PRParams {
   baseBranch: string;
   isDraft?: boolean;
   reviewers?: string[];
+  labels?: string[];
+  /** Milestone number */
+  milestone?: number;
+}
+
+/**
+ * An existing pull request as read from GitHub
+ */
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  description: string;
+  headBranch: string;
+  baseBranch: string;
+  /** Commit the head branch points to */
+  headSha: string;
+  state: "open" | "closed";
+  merged: boolean;
+  /** Head branch lives in a fork, which cannot be pushed to */
+  fromFork: boolean;
+  url: string;
+}
+
+export interface IssueComment {
+  author: string;
+  body: string;
+}
+
+/**
+ * An issue and its discussion as read from GitHub
+ */
+export interface IssueInfo {
+  number: number;
+  title: string;
+  body: string;
+  labels: string[];
+  /** Milestone number */
+  milestone?: number;
+  state: "open" | "closed";
+  /** The issues API also returns pull requests */
+  isPullRequest: boolean;
+  comments: IssueComment[];
+  url: string;
+}
+
+export interface ReviewComment {
+  id: number;
+  author: string;
+  body: string;
+}
+
+/**
+ * A review conversation anchored to a line of a pull request's diff
+ */
+export interface ReviewThread {
+  path: string;
+  /** Line in the head version of the file; null when the thread is outdated */
+  line: number | null;
+  resolved: boolean;
+  /** In order; replies go to the first one */
+  comments: ReviewComment[];
+}
+
+export interface RepairAttempt {
+  /** Zero-based repair round the response was produced in */
+  round: number;
+  /** Validation problems reported back to the model */
+  issues: string[];
+  /** Raw model output that failed validation */
+  response: string;
 }
 
 export interface PRPlan {
   files: {
     path: string;
-    action: 'create' | 'modify' | 'delete';
+    action: 'create' | 'modify' | 'delete' | 'rename';
     content?: string;
     diff?: string;
+    oldPath?: string;
+    mode?: number;
   }[];
   pr: {
     title: string;
     description: string;
     reviewers: string[];
+    labels?: string[];
+    draft?: boolean;
+  };
+  metadata?: {
+    confidence: number;
+    reasoning: string;
+    complexity: 'low' | 'medium' | 'high';
+    securityConsiderations: string[];
+    testingRecommendations: string[];
+    warnings: string[];
   };
+  /** Replies to the review comments the plan addresses, by comment id */
+  replies?: { comment: number; body: string }[];
+  repairAttempts?: RepairAttempt[];
 } 
\ No newline at end of file
@@ -71,7 +71,47 @@ export const RepoContextSchema = z.object({
     hasFormatter: z.boolean(),
     defaultBranch: z.string(),
     isMonorepo: z.boolean(),
-  })
+  }),
+
+  // Paths (relative to root) touched by recent commits, most recent first
+  recentChanges: z.array(z.string()).optional(),
+
+  // Commit the context was read from, which AI diffs are relative to
+  baseSha: z.string().optional(),
+
+  // Pull request being updated; its head is the commit the context was read from
+  pullRequest: z.object({
+    number: z.number(),
+    title: z.string(),
+    description: z.string(),
+    headBranch: z.string(),
+    baseBranch: z.string(),
+    // Unified diff of the pull request against its base branch
+    diff: z.string(),
+    // Unresolved review threads the plan should address
+    reviewThreads: z.array(z.object({
+      path: z.string(),
+      line: z.number().nullable(),
+      resolved: z.boolean(),
+      comments: z.array(z.object({
+        id: z.number(),
+        author: z.string(),
+        body: z.string()
+      }))
+    })).optional()
+  }).optional(),
+
+  // Issue the pull request resolves
+  issue: z.object({
+    number: z.number(),
+    title: z.string(),
+    body: z.string(),
+    labels: z.array(z.string()),
+    comments: z.array(z.object({
+      author: z.string(),
+      body: z.string()
+    }))
+  }).optional()
 });
 
 export type Framework = z.infer<typeof FrameworkSchema>;